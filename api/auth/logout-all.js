@@ -0,0 +1,3 @@
+const vercelHandler = require('../../core/adapters/vercel.js');
+
+module.exports = vercelHandler('/auth/logout-all');
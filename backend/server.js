@@ -1,10 +1,12 @@
 const express = require('express');
-const mongoose = require('mongoose');
 const cors = require('cors');
 const dotenv = require('dotenv');
 
 dotenv.config();
 
+const connectDB = require('../core/lib/db');
+const mountRoutes = require('../core/adapters/express');
+
 const app = express();
 const PORT = process.env.PORT || 5000;
 
@@ -12,14 +14,13 @@ const PORT = process.env.PORT || 5000;
 app.use(cors());
 app.use(express.json());
 
-// MongoDB connection
-mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/lifesyncc')
+// MongoDB connection, shared with the route handlers in core/
+connectDB()
 .then(() => console.log('MongoDB connected'))
 .catch(err => console.error('MongoDB connection error:', err));
 
 // Routes
-app.use('/api/auth', require('./routes/auth'));
-app.use('/api/schedule', require('./routes/schedule'));
+app.use('/api', mountRoutes(express.Router()));
 
 // Basic route
 app.get('/', (req, res) => {
@@ -28,4 +29,4 @@ app.get('/', (req, res) => {
 
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`Server running on port ${PORT}`);
-});
\ No newline at end of file
+});
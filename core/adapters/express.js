@@ -0,0 +1,32 @@
+const routes = require('../routes.js');
+const runRoute = require('../run.js');
+
+/**
+ * Register the whole route table on an Express router. The router is passed
+ * in so core does not depend on Express itself.
+ * @param {import('express').Router} router
+ */
+const mountRoutes = (router) => {
+  routes.forEach(route => {
+    router[route.method.toLowerCase()](route.path, async (req, res) => {
+      const { status, body, headers = {} } = await runRoute(route, {
+        method: req.method,
+        params: req.params,
+        query: req.query,
+        headers: req.headers,
+        body: req.body || {},
+      });
+
+      res.set(headers);
+      if (typeof body === 'string') {
+        res.status(status).send(body);
+      } else {
+        res.status(status).json(body);
+      }
+    });
+  });
+
+  return router;
+};
+
+module.exports = mountRoutes;
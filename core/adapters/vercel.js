@@ -0,0 +1,59 @@
+const routes = require('../routes.js');
+const runRoute = require('../run.js');
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Credentials': 'true',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,OPTIONS,PATCH,DELETE,POST,PUT',
+  'Access-Control-Allow-Headers':
+    'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version, Authorization',
+};
+
+const paramNames = (path) => (path.match(/:\w+/g) || []).map(name => name.slice(1));
+
+/**
+ * Build the Vercel function for one path of the route table. Vercel passes
+ * the dynamic segments of the file name (`[id].js`) in `req.query`.
+ * @param {string} path - e.g. /goals/:id
+ */
+const vercelHandler = (path) => {
+  const pathRoutes = routes.filter(route => route.path === path);
+
+  if (pathRoutes.length === 0) {
+    throw new Error(`No routes for ${path}`);
+  }
+
+  return async (req, res) => {
+    Object.entries(CORS_HEADERS).forEach(([name, value]) => res.setHeader(name, value));
+
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return;
+    }
+
+    const route = pathRoutes.find(candidate => candidate.method === req.method);
+    if (!route) {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const params = {};
+    const query = { ...req.query };
+    paramNames(path).forEach(name => {
+      params[name] = query[name];
+      delete query[name];
+    });
+
+    const { status, body, headers = {} } = await runRoute(route, {
+      method: req.method,
+      params,
+      query,
+      headers: req.headers,
+      body: req.body || {},
+    });
+
+    Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+    return typeof body === 'string' ? res.status(status).send(body) : res.status(status).json(body);
+  };
+};
+
+module.exports = vercelHandler;
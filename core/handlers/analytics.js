@@ -0,0 +1,59 @@
+const Analytics = require('../models/Analytics.js');
+const HttpError = require('../lib/http-error.js');
+const { toDateKey, isDateKey } = require('../lib/habits.js');
+const { snapshotAllUsers } = require('../lib/analytics.js');
+const { dateRange } = require('@lifesync/scheduling');
+
+/** @typedef {import('../types.js').CoreRequest} CoreRequest */
+
+// Longest range GET /analytics?from&to serves in one call
+const MAX_RANGE_DAYS = 366;
+
+/**
+ * The user's daily snapshots from `from` to `to` (inclusive), oldest first.
+ * Days the job did not run for are missing from the series.
+ * @param {CoreRequest} req
+ */
+const getAnalytics = async (req) => {
+  const { from, to } = req.query;
+
+  if (!isDateKey(from) || !isDateKey(to)) {
+    throw new HttpError(400, 'from and to are required. Use YYYY-MM-DD');
+  }
+
+  const days = dateRange(from, to).length;
+  if (days === 0) {
+    throw new HttpError(400, 'from must not be after to');
+  }
+  if (days > MAX_RANGE_DAYS) {
+    throw new HttpError(400, `Ranges are limited to ${MAX_RANGE_DAYS} days`);
+  }
+
+  const snapshots = await Analytics.find({ userId: req.userId, date: { $gte: from, $lte: to } })
+    .sort({ date: 1 })
+    .select('-userId -__v');
+
+  return { status: 200, body: { from, to, snapshots } };
+};
+
+/**
+ * Write every user's snapshot for `date` (default: today, UTC). Called by
+ * the scheduler with `Authorization: Bearer <CRON_SECRET>`, and refused when
+ * no secret is configured.
+ * @param {CoreRequest} req
+ */
+const runSnapshots = async (req) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const { date = toDateKey(new Date()) } = req.query;
+  if (!isDateKey(date)) {
+    throw new HttpError(400, 'Invalid date format. Use YYYY-MM-DD');
+  }
+
+  return { status: 200, body: await snapshotAllUsers(date) };
+};
+
+module.exports = { getAnalytics, runSnapshots };
@@ -0,0 +1,143 @@
+const bcrypt = require('bcryptjs');
+const User = require('../models/User.js');
+const HttpError = require('../lib/http-error.js');
+const { createSession, rotateSession, revokeSession, revokeAllSessions } = require('../lib/sessions.js');
+const { requestPasswordReset, resetPassword: setPasswordWithToken } = require('../lib/password-reset.js');
+const { findOrCreateProfile } = require('../lib/user-profile.js');
+
+/** @typedef {import('../types.js').CoreRequest} CoreRequest */
+
+const toPublicUser = (user) => ({
+  id: user._id,
+  email: user.email,
+  createdAt: user.createdAt,
+});
+
+/** @param {CoreRequest} req */
+const register = async (req) => {
+  const { email, password } = req.body;
+
+  // Check if user already exists
+  const existingUser = await User.findOne({ email });
+  if (existingUser) {
+    throw new HttpError(400, 'User already exists');
+  }
+
+  const hashedPassword = await bcrypt.hash(password, 10);
+  const user = new User({
+    email,
+    password: hashedPassword,
+  });
+
+  await user.save();
+  await findOrCreateProfile(user._id);
+
+  return {
+    status: 201,
+    body: {
+      message: 'User created successfully',
+      ...(await createSession(user, req)),
+      user: toPublicUser(user),
+    },
+  };
+};
+
+/** @param {CoreRequest} req */
+const login = async (req) => {
+  const { email, password } = req.body;
+
+  const user = await User.findOne({ email });
+  if (!user) {
+    throw new HttpError(401, 'Invalid credentials');
+  }
+
+  const isValidPassword = await bcrypt.compare(password, user.password);
+  if (!isValidPassword) {
+    throw new HttpError(401, 'Invalid credentials');
+  }
+
+  // Accounts from before profiles existed get theirs on the next login
+  await findOrCreateProfile(user._id);
+
+  return {
+    status: 200,
+    body: {
+      message: 'Login successful',
+      ...(await createSession(user, req)),
+      user: toPublicUser(user),
+    },
+  };
+};
+
+/** @param {CoreRequest} req */
+const getUser = async (req) => {
+  const user = await User.findById(req.userId).select('-password');
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+
+  return { status: 200, body: { user: toPublicUser(user) } };
+};
+
+const requireRefreshToken = (req) => {
+  const { refreshToken } = req.body;
+  if (typeof refreshToken !== 'string' || !refreshToken) {
+    throw new HttpError(400, 'refreshToken is required');
+  }
+  return refreshToken;
+};
+
+/** @param {CoreRequest} req */
+const refresh = async (req) => {
+  const tokens = await rotateSession(requireRefreshToken(req));
+  return { status: 200, body: tokens };
+};
+
+/** @param {CoreRequest} req */
+const logout = async (req) => {
+  await revokeSession(requireRefreshToken(req));
+  return { status: 200, body: { message: 'Signed out' } };
+};
+
+/** @param {CoreRequest} req */
+const logoutAll = async (req) => {
+  const revoked = await revokeAllSessions(req.userId);
+  return { status: 200, body: { message: 'Signed out on all devices', revoked } };
+};
+
+// Reset links open the web app at APP_URL. Request headers are never used:
+// anyone can set them, and the link would carry the token to their host.
+const appUrl = () => {
+  if (!process.env.APP_URL) {
+    console.error('APP_URL is not set, so password reset links cannot be sent');
+    throw new HttpError(500, 'Password reset is not available');
+  }
+  return process.env.APP_URL;
+};
+
+/** @param {CoreRequest} req */
+const forgotPassword = async (req) => {
+  const { email } = req.body;
+  if (typeof email !== 'string' || !email.trim()) {
+    throw new HttpError(400, 'email is required');
+  }
+
+  await requestPasswordReset(email, appUrl());
+  return {
+    status: 200,
+    body: { message: 'If an account exists for this email, a reset link is on its way' },
+  };
+};
+
+/** @param {CoreRequest} req */
+const resetPassword = async (req) => {
+  const { token, password } = req.body;
+  if (typeof token !== 'string' || !token) {
+    throw new HttpError(400, 'token is required');
+  }
+
+  await setPasswordWithToken(token, password);
+  return { status: 200, body: { message: 'Password updated. Please sign in' } };
+};
+
+module.exports = { register, login, getUser, refresh, logout, logoutAll, forgotPassword, resetPassword };
@@ -0,0 +1,246 @@
+const crypto = require('crypto');
+const Schedule = require('../models/Schedule.js');
+const RecurringBlock = require('../models/RecurringBlock.js');
+const Goal = require('../models/Goal.js');
+const User = require('../models/User.js');
+const HttpError = require('../lib/http-error.js');
+const { toDateKey, isDateKey, addDays } = require('../lib/habits.js');
+const { renderCalendar } = require('../lib/ical.js');
+const { isTimeZone, loadCalendarSource, busyBlocksFrom } = require('../lib/calendar-import.js');
+const { dateRange, expandRecurringBlocks } = require('@lifesync/scheduling');
+
+/** @typedef {import('../types.js').CoreRequest} CoreRequest */
+
+const UID_DOMAIN = 'lifesync.app';
+
+// Window a feed covers, in days before and after today
+const FEED_DAYS_BEFORE = 30;
+const FEED_DAYS_AFTER = 90;
+const MAX_EXPORT_DAYS = 366;
+const MAX_IMPORT_DAYS = 366;
+
+// Events of every block and goal deadline from `from` to `to`. UIDs only
+// depend on what the event is, so exporting again updates existing events.
+// Blocks imported from other calendars are left out, so subscribing to the
+// export does not show those events twice.
+const calendarEvents = async (userId, from, to) => {
+  const [schedules, recurringBlocks, goals] = await Promise.all([
+    Schedule.find({ userId, date: { $gte: from, $lte: to } }),
+    RecurringBlock.find({ userId }),
+    Goal.find({
+      userId,
+      dueDate: { $gte: new Date(`${from}T00:00:00.000Z`), $lte: new Date(`${to}T23:59:59.999Z`) },
+    }),
+  ]);
+
+  const blockEvents = schedules.flatMap(schedule => schedule.blocks
+    .filter(block => !block.externalUid)
+    .map(block => ({
+      uid: `block-${schedule.date}-${block.id}@${UID_DOMAIN}`,
+      summary: block.title,
+      description: block.reason,
+      categories: block.category,
+      date: schedule.date,
+      startTime: block.startTime,
+      endTime: block.endTime,
+      stamp: schedule.updatedAt || schedule.createdAt,
+    })));
+
+  const seriesById = new Map(recurringBlocks.map(series => [String(series._id), series]));
+  const occurrenceEvents = dateRange(from, to).flatMap(date =>
+    expandRecurringBlocks(recurringBlocks, date).map(block => ({
+      uid: `recurring-${block.id}@${UID_DOMAIN}`,
+      summary: block.title,
+      categories: block.category,
+      date,
+      startTime: block.startTime,
+      endTime: block.endTime,
+      stamp: seriesById.get(block.recurringId).updatedAt,
+    }))
+  );
+
+  const deadlineEvents = goals.map(goal => ({
+    uid: `goal-${goal._id}@${UID_DOMAIN}`,
+    summary: `Due: ${goal.title}`,
+    description: goal.description,
+    categories: goal.category,
+    date: toDateKey(goal.dueDate),
+    stamp: goal.updatedAt || goal.createdAt,
+  }));
+
+  return [...blockEvents, ...occurrenceEvents, ...deadlineEvents]
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.startTime || '').localeCompare(b.startTime || ''));
+};
+
+const calendarResponse = async (userId, from, to) => ({
+  status: 200,
+  headers: {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Content-Disposition': 'inline; filename="lifesync.ics"',
+  },
+  body: renderCalendar({ name: 'LifeSync', events: await calendarEvents(userId, from, to) }),
+});
+
+const feedWindow = () => {
+  const today = toDateKey(new Date());
+  return [addDays(today, -FEED_DAYS_BEFORE), addDays(today, FEED_DAYS_AFTER)];
+};
+
+// Feed URLs use the API origin in PUBLIC_API_URL. Request headers are never
+// used: anyone can set them, and the link would point at their host.
+const publicApiUrl = () => {
+  if (!process.env.PUBLIC_API_URL) {
+    console.error('PUBLIC_API_URL is not set, so calendar feed links cannot be made');
+    throw new HttpError(500, 'Calendar feeds are not available');
+  }
+  return process.env.PUBLIC_API_URL;
+};
+
+const feedUrl = (origin, token) => `${origin}/api/calendar/feed/${token}.ics`;
+
+const newFeedToken = () => crypto.randomBytes(24).toString('hex');
+
+/**
+ * The user's blocks and goal deadlines as an .ics file. Without `from` and
+ * `to` the same window as the subscription feed is exported.
+ * @param {CoreRequest} req
+ */
+const exportCalendar = async (req) => {
+  const [defaultFrom, defaultTo] = feedWindow();
+  const { from = defaultFrom, to = defaultTo } = req.query;
+
+  if (!isDateKey(from) || !isDateKey(to)) {
+    throw new HttpError(400, 'Invalid date format. Use YYYY-MM-DD');
+  }
+
+  const days = dateRange(from, to).length;
+  if (days === 0) {
+    throw new HttpError(400, 'from must not be after to');
+  }
+  if (days > MAX_EXPORT_DAYS) {
+    throw new HttpError(400, `Exports are limited to ${MAX_EXPORT_DAYS} days`);
+  }
+
+  return calendarResponse(req.userId, from, to);
+};
+
+/**
+ * The user's subscription URL, created on first use
+ * @param {CoreRequest} req
+ */
+const getFeed = async (req) => {
+  const origin = publicApiUrl();
+  const user = await User.findById(req.userId);
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+
+  if (!user.calendarFeedToken) {
+    user.calendarFeedToken = newFeedToken();
+    await user.save();
+  }
+
+  return { status: 200, body: { url: feedUrl(origin, user.calendarFeedToken) } };
+};
+
+/**
+ * Replace the feed token. The old URL stops working at once.
+ * @param {CoreRequest} req
+ */
+const resetFeed = async (req) => {
+  const origin = publicApiUrl();
+  const user = await User.findByIdAndUpdate(
+    req.userId,
+    { calendarFeedToken: newFeedToken() },
+    { new: true }
+  );
+  if (!user) {
+    throw new HttpError(404, 'User not found');
+  }
+
+  return { status: 200, body: { url: feedUrl(origin, user.calendarFeedToken) } };
+};
+
+/**
+ * The subscription feed. The token in the URL is the only credential, since
+ * calendar apps cannot send a bearer token.
+ * @param {CoreRequest} req
+ */
+const getFeedCalendar = async (req) => {
+  const token = String(req.params.token || '').replace(/\.ics$/, '');
+  const user = token && await User.findOne({ calendarFeedToken: token });
+
+  if (!user) {
+    throw new HttpError(404, 'Calendar feed not found');
+  }
+
+  const [from, to] = feedWindow();
+  return calendarResponse(String(user._id), from, to);
+};
+
+/**
+ * Store the timed events of an .ics calendar as fixed busy blocks, which
+ * schedule generation then plans around. Importing a calendar again
+ * replaces the blocks of the events it contains, wherever they were.
+ *
+ * Body: `ics`, `url` or `path` (see loadCalendarSource), `timeZone` (IANA,
+ * the user's zone, default UTC) and an optional `from`/`to` range, by
+ * default today and the following year.
+ * @param {CoreRequest} req
+ */
+const importCalendar = async (req) => {
+  const { timeZone = 'UTC' } = req.body;
+  const today = toDateKey(new Date());
+  const { from = today, to = addDays(from, MAX_IMPORT_DAYS - 1) } = req.body;
+
+  if (!isTimeZone(timeZone)) {
+    throw new HttpError(400, 'Unknown time zone');
+  }
+  if (!isDateKey(from) || !isDateKey(to)) {
+    throw new HttpError(400, 'Invalid date format. Use YYYY-MM-DD');
+  }
+
+  const days = dateRange(from, to).length;
+  if (days === 0 || days > MAX_IMPORT_DAYS) {
+    throw new HttpError(400, `from must not be after to, and ranges are limited to ${MAX_IMPORT_DAYS} days`);
+  }
+
+  const text = await loadCalendarSource(req.body);
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new HttpError(400, 'Not an iCalendar file');
+  }
+
+  const { blocks, skipped } = busyBlocksFrom(text, { timeZone, from, to });
+  const uids = [...new Set(blocks.map(({ block }) => block.externalUid))];
+
+  await Schedule.updateMany(
+    { userId: req.userId, 'blocks.externalUid': { $in: uids } },
+    { $pull: { blocks: { externalUid: { $in: uids } } } }
+  );
+
+  const byDate = new Map();
+  blocks.forEach(({ date, block }) => byDate.set(date, [...(byDate.get(date) || []), block]));
+  await Promise.all([...byDate].map(([date, dayBlocks]) => Schedule.findOneAndUpdate(
+    { userId: req.userId, date },
+    { $push: { blocks: { $each: dayBlocks } } },
+    { upsert: true }
+  )));
+
+  return {
+    status: 200,
+    body: {
+      message: `Imported ${blocks.length} busy blocks`,
+      imported: blocks.length,
+      dates: [...byDate.keys()].sort(),
+      skipped,
+    },
+  };
+};
+
+module.exports = {
+  exportCalendar,
+  importCalendar,
+  getFeed,
+  resetFeed,
+  getFeedCalendar,
+};
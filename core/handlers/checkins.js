@@ -0,0 +1,352 @@
+const mongoose = require('mongoose');
+const CheckIn = require('../models/CheckIn.js');
+const Goal = require('../models/Goal.js');
+const UserProfile = require('../models/UserProfile.js');
+const HttpError = require('../lib/http-error.js');
+const { trackedValue, recordProgress } = require('../lib/progress-history.js');
+const { toDateKey, isDateKey, withHabitStats } = require('../lib/habits.js');
+const { findOrCreateProfile } = require('../lib/user-profile.js');
+const { checkInDueAt } = require('@lifesync/scheduling');
+
+/** @typedef {import('../types.js').CoreRequest} CoreRequest */
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_SNOOZE_MINUTES = 24 * 60;
+
+// Positive integer query value, or the fallback
+const positiveInt = (value, fallback) => {
+  const parsed = parseInt(value, 10);
+  return parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Check-ins newest first. `from` and `to` ('YYYY-MM-DD', inclusive) narrow
+ * the days; `page` and `limit` page through the result.
+ * @param {CoreRequest} req
+ */
+const listCheckIns = async (req) => {
+  const { from, to } = req.query;
+  if ((from !== undefined && !isDateKey(from)) || (to !== undefined && !isDateKey(to))) {
+    throw new HttpError(400, 'from and to must use YYYY-MM-DD');
+  }
+  if (from && to && from > to) {
+    throw new HttpError(400, 'from must not be after to');
+  }
+
+  const filter = { userId: req.userId };
+  if (from || to) {
+    filter.date = {
+      ...(from && { $gte: from }),
+      ...(to && { $lte: to }),
+    };
+  }
+
+  const page = positiveInt(req.query.page, 1);
+  const limit = Math.min(positiveInt(req.query.limit, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+
+  const [checkIns, total] = await Promise.all([
+    CheckIn.find(filter)
+      .sort({ date: -1, timestamp: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    CheckIn.countDocuments(filter),
+  ]);
+
+  return {
+    status: 200,
+    body: { checkIns, total, page, limit, hasMore: page * limit < total },
+  };
+};
+
+// Why a requested progress update cannot be applied, or null when it can
+const progressProblem = (goal, update) => {
+  if (!goal) return 'Goal not found';
+  if (goal.completed) return 'Goal is already completed';
+  if (goal.type === 'habit') return null;
+  if (typeof update.amount !== 'number' || !Number.isFinite(update.amount) || update.amount <= 0) {
+    return goal.type === 'milestone' ? 'Enter the percent of progress made' : 'Enter the amount of progress made';
+  }
+  if (goal.type === 'milestone' && goal.actionItems.length > 0) {
+    return 'Progress of this goal is derived from its action items';
+  }
+  return null;
+};
+
+// Applies an update to the goal in memory and returns what was added
+const applyProgress = (goal, update, date) => {
+  switch (goal.type) {
+    case 'habit':
+      // A day that is already checked off stays as it is
+      if (goal.completions.includes(date)) return { kind: 'check-off', amount: 0 };
+      goal.completions.push(date);
+      goal.currentValue = (goal.currentValue || 0) + 1;
+      return { kind: 'check-off', amount: 1 };
+    case 'numeric':
+      goal.currentValue = (goal.currentValue || 0) + update.amount;
+      return { kind: 'increment', amount: update.amount };
+    default: {
+      const before = goal.progress || 0;
+      goal.progress = Math.min(before + update.amount, 100);
+      return { kind: 'percent', amount: goal.progress - before };
+    }
+  }
+};
+
+// Takes back in memory what applyProgress added
+const revertProgress = (goal, applied, date) => {
+  switch (applied.kind) {
+    case 'check-off':
+      goal.completions = goal.completions.filter(day => day !== date);
+      goal.currentValue = Math.max((goal.currentValue || 0) - applied.amount, 0);
+      break;
+    case 'increment':
+      goal.currentValue = Math.max((goal.currentValue || 0) - applied.amount, 0);
+      break;
+    default:
+      goal.progress = Math.max((goal.progress || 0) - applied.amount, 0);
+      // Numeric and habit goals are reopened when saved; milestones here
+      if (goal.progress < 100 && goal.completed) {
+        goal.completed = false;
+        goal.completedAt = undefined;
+      }
+  }
+};
+
+const describeProgress = (applied, goal) => {
+  if (applied.kind === 'check-off') return 'checked off';
+  if (applied.kind === 'percent') return `+${applied.amount}%`;
+  return `+${applied.amount}${goal.unit ? ` ${goal.unit}` : ''}`;
+};
+
+/**
+ * Save a check-in and apply its goal progress. `goalProgress` lists
+ * `{ goalId, amount }`: an amount added to numeric goals, percentage points
+ * for milestones, nothing for habits, which are checked off for the day.
+ * Every update is validated before anything is written, and goals already
+ * saved are restored if a later write fails, so a check-in and its goal
+ * changes are stored together or not at all.
+ * @param {CoreRequest} req
+ */
+const createCheckIn = async (req) => {
+  const { mood, notes } = req.body;
+  const date = req.body.date === undefined ? toDateKey(new Date()) : req.body.date;
+  const updates = Array.isArray(req.body.goalProgress) ? req.body.goalProgress : [];
+  const tickedIds = Array.isArray(req.body.completedTasks) ? req.body.completedTasks.map(String) : [];
+  const goalIds = [...new Set([...tickedIds, ...updates.map(update => String(update && update.goalId))])];
+
+  if (!isDateKey(date)) {
+    throw new HttpError(400, 'date must use YYYY-MM-DD');
+  }
+
+  const goals = await Goal.find({
+    _id: { $in: goalIds.filter(id => mongoose.isValidObjectId(id)) },
+    userId: req.userId,
+  });
+  const goalsById = new Map(goals.map(goal => [String(goal._id), goal]));
+
+  const unknownGoals = tickedIds.filter(id => !goalsById.has(id));
+  if (unknownGoals.length > 0) {
+    throw new HttpError(400, 'Unknown goals in completedTasks', { unknownGoals });
+  }
+
+  const invalidProgress = updates
+    .map((update, index) => {
+      const goalId = String(update && update.goalId);
+      const listedBefore = updates.slice(0, index).some(other => String(other && other.goalId) === goalId);
+      const reason = listedBefore ? 'Goal is listed more than once' : progressProblem(goalsById.get(goalId), update);
+      return reason && { goalId, reason };
+    })
+    .filter(Boolean);
+  if (invalidProgress.length > 0) {
+    throw new HttpError(400, 'Some goal progress cannot be applied', { invalidProgress });
+  }
+
+  const changed = updates.map(update => {
+    const goal = goalsById.get(String(update.goalId));
+    const snapshot = goal.toObject();
+    const previousValue = trackedValue(goal);
+    const applied = applyProgress(goal, update, date);
+    return { goal, snapshot, previousValue, applied };
+  });
+
+  const ticked = goalIds.filter(id => goalsById.has(id)).map(id => goalsById.get(id));
+  const checkIn = new CheckIn({
+    userId: req.userId,
+    date,
+    mood,
+    notes,
+    completedTasks: ticked.map(goal => goal._id),
+    goals: ticked.map(goal => ({ goalId: goal._id, title: goal.title, category: goal.category })),
+  });
+
+  // Model validation of every document before the first write
+  await Promise.all([...changed.map(({ goal }) => goal.validate()), checkIn.validate()]);
+
+  const saved = [];
+  try {
+    for (const change of changed) {
+      await change.goal.save();
+      saved.push(change);
+    }
+    checkIn.goalProgress = changed.map(({ goal, applied }) => ({
+      goalId: goal._id,
+      ...applied,
+      progress: goal.progress,
+    }));
+    await checkIn.save();
+  } catch (error) {
+    await Promise.all(saved.map(({ goal, snapshot }) => Goal.replaceOne({ _id: goal._id }, snapshot)));
+    throw error;
+  }
+
+  await Promise.all(changed
+    .filter(({ applied }) => applied.amount > 0)
+    .map(({ goal, previousValue, applied }) => recordProgress(goal, previousValue, {
+      source: 'check-in',
+      note: `Check-in on ${date}: ${describeProgress(applied, goal)}`,
+    })));
+
+  // Checking in ends any snooze; the next prompt counts from this check-in
+  await UserProfile.updateOne({ userId: req.userId }, { $unset: { checkInSnoozedUntil: 1 } });
+
+  return {
+    status: 201,
+    body: {
+      message: 'Check-in saved',
+      checkIn,
+      goals: changed.map(({ goal }) => withHabitStats(goal, date)),
+    },
+  };
+};
+
+// When check-ins are due, from the profile and the latest check-in. Clients
+// prompt once `dueAt` has passed, outside quiet hours on their own clock.
+const cadenceStatus = async (profile) => {
+  const last = await CheckIn.findOne({ userId: profile.userId }).sort({ timestamp: -1 }).select('timestamp');
+  const { checkInFrequency, quietHours } = profile.preferences;
+  const lastCheckInAt = last ? last.timestamp : null;
+  const snoozedUntil = profile.checkInSnoozedUntil || null;
+
+  return {
+    checkInFrequency,
+    quietHours,
+    lastCheckInAt,
+    snoozedUntil,
+    dueAt: new Date(checkInDueAt({ lastCheckInAt, snoozedUntil, checkInFrequency })),
+  };
+};
+
+/** @param {CoreRequest} req */
+const getCheckInStatus = async (req) => {
+  const profile = await findOrCreateProfile(req.userId);
+  return { status: 200, body: await cadenceStatus(profile) };
+};
+
+/**
+ * Change how often check-ins are prompted and the quiet hours
+ * @param {CoreRequest} req
+ */
+const updateCheckInSettings = async (req) => {
+  const { checkInFrequency, quietHours } = req.body;
+  const profile = await findOrCreateProfile(req.userId);
+
+  if (checkInFrequency !== undefined) {
+    profile.preferences.checkInFrequency = checkInFrequency;
+  }
+  if (quietHours !== undefined) {
+    if (!quietHours || typeof quietHours !== 'object') {
+      throw new HttpError(400, 'quietHours must have a start and an end');
+    }
+    ['start', 'end'].forEach(field => {
+      if (quietHours[field] !== undefined) profile.preferences.quietHours[field] = quietHours[field];
+    });
+  }
+  await profile.save();
+
+  return { status: 200, body: await cadenceStatus(profile) };
+};
+
+/**
+ * Hold check-in prompts for `minutes` on every device; 0 ends a snooze
+ * @param {CoreRequest} req
+ */
+const snoozeCheckIns = async (req) => {
+  const { minutes } = req.body;
+  if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_SNOOZE_MINUTES) {
+    throw new HttpError(400, `minutes must be a whole number from 0 to ${MAX_SNOOZE_MINUTES}`);
+  }
+
+  const profile = await findOrCreateProfile(req.userId);
+  profile.checkInSnoozedUntil = minutes > 0 ? new Date(Date.now() + minutes * 60 * 1000) : undefined;
+  await profile.save();
+
+  return { status: 200, body: await cadenceStatus(profile) };
+};
+
+/**
+ * Delete a check-in and take back the goal progress it applied. Goals that
+ * were deleted since are skipped. Like createCheckIn, goals already saved
+ * are restored if a later write fails.
+ * @param {CoreRequest} req
+ */
+const deleteCheckIn = async (req) => {
+  const checkIn = await CheckIn.findOne({ _id: req.params.id, userId: req.userId });
+  if (!checkIn) {
+    throw new HttpError(404, 'Check-in not found');
+  }
+
+  const { date } = checkIn;
+  const applied = checkIn.goalProgress.filter(progress => progress.amount > 0);
+  const goals = await Goal.find({
+    _id: { $in: applied.map(progress => progress.goalId) },
+    userId: req.userId,
+  });
+  const goalsById = new Map(goals.map(goal => [String(goal._id), goal]));
+
+  const changed = applied
+    .filter(progress => goalsById.has(String(progress.goalId)))
+    .map(progress => {
+      const goal = goalsById.get(String(progress.goalId));
+      const snapshot = goal.toObject();
+      const previousValue = trackedValue(goal);
+      revertProgress(goal, progress, date);
+      return { goal, snapshot, previousValue };
+    });
+
+  await Promise.all(changed.map(({ goal }) => goal.validate()));
+
+  const saved = [];
+  try {
+    for (const change of changed) {
+      await change.goal.save();
+      saved.push(change);
+    }
+    await CheckIn.deleteOne({ _id: checkIn._id, userId: req.userId });
+  } catch (error) {
+    await Promise.all(saved.map(({ goal, snapshot }) => Goal.replaceOne({ _id: goal._id }, snapshot)));
+    throw error;
+  }
+
+  await Promise.all(changed.map(({ goal, previousValue }) => recordProgress(goal, previousValue, {
+    source: 'check-in',
+    note: `Check-in on ${date} deleted`,
+  })));
+
+  return {
+    status: 200,
+    body: {
+      message: 'Check-in deleted',
+      goals: changed.map(({ goal }) => withHabitStats(goal, toDateKey(new Date()))),
+    },
+  };
+};
+
+module.exports = {
+  listCheckIns,
+  createCheckIn,
+  deleteCheckIn,
+  getCheckInStatus,
+  updateCheckInSettings,
+  snoozeCheckIns,
+};
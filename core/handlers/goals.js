@@ -0,0 +1,323 @@
+const Goal = require('../models/Goal.js');
+const ProgressEntry = require('../models/ProgressEntry.js');
+const HttpError = require('../lib/http-error.js');
+const { trackedValue, recordProgress } = require('../lib/progress-history.js');
+const { toDateKey, isDateKey, computeHabitStats, withHabitStats } = require('../lib/habits.js');
+
+/** @typedef {import('../types.js').CoreRequest} CoreRequest */
+
+const ACTION_ITEM_FIELDS = ['title', 'completed', 'dueDate', 'priority'];
+
+// Clients send their local calendar day; undefined falls back to the server's
+const requestToday = (req) => (isDateKey(req.query.today) ? req.query.today : undefined);
+
+// Load a goal owned by the current user
+const findGoal = async (req) => {
+  const goal = await Goal.findOne({ _id: req.params.id, userId: req.userId });
+  if (!goal) {
+    throw new HttpError(404, 'Goal not found');
+  }
+  return goal;
+};
+
+const findActionItem = (goal, itemId) => {
+  const item = goal.actionItems.id(itemId);
+  if (!item) {
+    throw new HttpError(404, 'Action item not found');
+  }
+  return item;
+};
+
+/** @param {CoreRequest} req */
+const listGoals = async (req) => {
+  const { category, completed } = req.query;
+  const filter = { userId: req.userId };
+
+  if (category) {
+    filter.category = category;
+  }
+
+  if (completed !== undefined) {
+    filter.completed = completed === 'true';
+  }
+
+  const goals = await Goal.find(filter).sort({ createdAt: -1 });
+  return {
+    status: 200,
+    body: { goals: goals.map(goal => withHabitStats(goal, requestToday(req))) },
+  };
+};
+
+/** @param {CoreRequest} req */
+const createGoal = async (req) => {
+  const { clientId } = req.body;
+  if (clientId) {
+    const existing = await Goal.findOne({ userId: req.userId, clientId });
+    if (existing) {
+      return {
+        status: 200,
+        body: { message: 'Goal already created', goal: withHabitStats(existing, requestToday(req)) },
+      };
+    }
+  }
+
+  const goal = new Goal({ ...req.body, userId: req.userId });
+  await goal.save();
+
+  return {
+    status: 201,
+    body: { message: 'Goal created successfully', goal },
+  };
+};
+
+/** @param {CoreRequest} req */
+const getGoal = async (req) => {
+  const goal = await findGoal(req);
+  return { status: 200, body: { goal: withHabitStats(goal, requestToday(req)) } };
+};
+
+/** @param {CoreRequest} req */
+const updateGoal = async (req) => {
+  const goal = await findGoal(req);
+
+  const updates = { ...req.body };
+  delete updates._id;
+  delete updates.userId;
+  delete updates.clientId;
+  // Habit completions and action items have their own routes
+  delete updates.completions;
+  delete updates.actionItems;
+
+  const previousValue = trackedValue(goal);
+  // A goal that changes type starts over, so the check-offs of a former
+  // habit do not come back if it becomes a habit again
+  if (updates.type !== undefined && updates.type !== goal.type) {
+    goal.completions = [];
+  }
+  // Fields cleared in an edit arrive as null and are removed
+  Object.entries(updates).forEach(([field, value]) => goal.set(field, value === null ? undefined : value));
+  await goal.save();
+  await recordProgress(goal, previousValue, { source: 'edit' });
+
+  return {
+    status: 200,
+    body: {
+      message: 'Goal updated successfully',
+      goal: withHabitStats(goal, requestToday(req)),
+    },
+  };
+};
+
+/** @param {CoreRequest} req */
+const deleteGoal = async (req) => {
+  const goal = await findGoal(req);
+
+  await Goal.deleteOne({ _id: goal._id, userId: req.userId });
+  await ProgressEntry.deleteMany({ goalId: goal._id, userId: req.userId });
+
+  return { status: 200, body: { message: 'Goal deleted successfully' } };
+};
+
+/**
+ * Progress history, newest first
+ * @param {CoreRequest} req
+ */
+const getProgress = async (req) => {
+  const goal = await findGoal(req);
+
+  const limit = Math.min(parseInt(req.query.limit, 10) || 50, 200);
+  const entries = await ProgressEntry.find({ goalId: goal._id, userId: req.userId })
+    .sort({ timestamp: -1 })
+    .limit(limit);
+
+  return { status: 200, body: { entries } };
+};
+
+/** @param {CoreRequest} req */
+const updateProgress = async (req) => {
+  const goal = await findGoal(req);
+
+  const { currentValue, progress, note } = req.body;
+  const previousValue = trackedValue(goal);
+
+  if (goal.type === 'numeric' || goal.type === 'habit') {
+    if (currentValue !== undefined) {
+      goal.currentValue = currentValue;
+    }
+  } else if (goal.type === 'milestone') {
+    if (progress !== undefined && goal.actionItems.length > 0) {
+      throw new HttpError(400, 'Progress of this goal is derived from its action items');
+    }
+    if (progress !== undefined) {
+      goal.progress = Math.min(Math.max(progress, 0), 100);
+    }
+  }
+
+  // Save will automatically recalculate progress for numeric/habit goals
+  await goal.save();
+
+  const entry = await recordProgress(goal, previousValue, { note });
+
+  return {
+    status: 200,
+    body: { message: 'Progress updated successfully', goal, entry },
+  };
+};
+
+const findHabit = async (req) => {
+  const goal = await findGoal(req);
+  if (goal.type !== 'habit') {
+    throw new HttpError(400, 'Only habit goals can be checked off');
+  }
+  return goal;
+};
+
+/** @param {CoreRequest} req */
+const getCheckOffs = async (req) => {
+  const goal = await findHabit(req);
+
+  return {
+    status: 200,
+    body: {
+      completions: goal.completions,
+      stats: computeHabitStats(goal, requestToday(req) || toDateKey(new Date())),
+    },
+  };
+};
+
+// Check-offs are idempotent: checking off a done day or unchecking an open
+// one leaves the goal as it is.
+const setCheckOff = (done) => async (req) => {
+  const today = requestToday(req) || toDateKey(new Date());
+  const date = req.body.date || req.query.date || today;
+
+  if (!isDateKey(date)) {
+    throw new HttpError(400, 'Invalid date format. Use YYYY-MM-DD');
+  }
+
+  const goal = await findHabit(req);
+  const alreadyDone = goal.completions.includes(date);
+  const previousValue = trackedValue(goal);
+  let entry = null;
+
+  if (done !== alreadyDone) {
+    if (done) {
+      // Check-offs count towards the habit's target
+      goal.completions.push(date);
+      goal.currentValue = (goal.currentValue || 0) + 1;
+    } else {
+      goal.completions = goal.completions.filter((day) => day !== date);
+      goal.currentValue = Math.max((goal.currentValue || 0) - 1, 0);
+    }
+
+    await goal.save();
+
+    entry = await recordProgress(goal, previousValue, {
+      source: 'check-off',
+      note: done ? `Checked off ${date}` : `Unchecked ${date}`,
+    });
+  }
+
+  const stats = computeHabitStats(goal, today);
+  return {
+    status: 200,
+    body: {
+      message: done ? 'Habit checked off' : 'Check-off removed',
+      goal: { ...goal.toJSON(), habitStats: stats },
+      stats,
+      entry,
+    },
+  };
+};
+
+/** @param {CoreRequest} req */
+const listActionItems = async (req) => {
+  const goal = await findGoal(req);
+  return { status: 200, body: { actionItems: goal.actionItems } };
+};
+
+/** @param {CoreRequest} req */
+const createActionItem = async (req) => {
+  const { title, dueDate, priority } = req.body;
+
+  if (!title || !title.trim()) {
+    throw new HttpError(400, 'Title is required');
+  }
+
+  const goal = await findGoal(req);
+  const previousValue = trackedValue(goal);
+  goal.actionItems.push({ title, dueDate, priority });
+  await goal.save();
+  await recordProgress(goal, previousValue, { source: 'action-items' });
+
+  return {
+    status: 201,
+    body: {
+      message: 'Action item created successfully',
+      actionItem: goal.actionItems[goal.actionItems.length - 1],
+      goal,
+    },
+  };
+};
+
+/** @param {CoreRequest} req */
+const updateActionItem = async (req) => {
+  const goal = await findGoal(req);
+  const item = findActionItem(goal, req.params.itemId);
+  const previousValue = trackedValue(goal);
+
+  ACTION_ITEM_FIELDS.forEach(field => {
+    if (req.body[field] !== undefined) {
+      item[field] = req.body[field];
+    }
+  });
+
+  if (req.body.title !== undefined && !item.title.trim()) {
+    throw new HttpError(400, 'Title is required');
+  }
+
+  if (item.isModified('completed')) {
+    item.completedAt = item.completed ? new Date() : undefined;
+  }
+
+  await goal.save();
+  await recordProgress(goal, previousValue, { source: 'action-items' });
+
+  return {
+    status: 200,
+    body: { message: 'Action item updated successfully', actionItem: item, goal },
+  };
+};
+
+/** @param {CoreRequest} req */
+const deleteActionItem = async (req) => {
+  const goal = await findGoal(req);
+  const item = findActionItem(goal, req.params.itemId);
+  const previousValue = trackedValue(goal);
+
+  item.deleteOne();
+  await goal.save();
+  await recordProgress(goal, previousValue, { source: 'action-items' });
+
+  return {
+    status: 200,
+    body: { message: 'Action item deleted successfully', goal },
+  };
+};
+
+module.exports = {
+  listGoals,
+  createGoal,
+  getGoal,
+  updateGoal,
+  deleteGoal,
+  getProgress,
+  updateProgress,
+  getCheckOffs,
+  checkOff: setCheckOff(true),
+  uncheckOff: setCheckOff(false),
+  listActionItems,
+  createActionItem,
+  updateActionItem,
+  deleteActionItem,
+};
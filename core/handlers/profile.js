@@ -0,0 +1,60 @@
+const HttpError = require('../lib/http-error.js');
+const { findOrCreateProfile } = require('../lib/user-profile.js');
+
+/** @typedef {import('../types.js').CoreRequest} CoreRequest */
+
+const PROFILE_FIELDS = ['goals', 'achievements'];
+const PREFERENCE_FIELDS = ['wakeUpTime', 'sleepTime', 'checkInFrequency', 'theme'];
+// Preferences that are objects; their fields are changed one at a time
+const NESTED_PREFERENCES = {
+  quietHours: ['start', 'end'],
+  notifications: ['enabled', 'checkInReminders', 'goalDeadlines', 'dailyProgress'],
+};
+
+const isObject = (value) => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/** @param {CoreRequest} req */
+const getProfile = async (req) => {
+  const profile = await findOrCreateProfile(req.userId);
+  return { status: 200, body: { profile } };
+};
+
+/**
+ * Change the profile text and preferences. Only the given fields change;
+ * the model's validators reject bad values.
+ * @param {CoreRequest} req
+ */
+const updateProfile = async (req) => {
+  const { preferences } = req.body;
+  if (preferences !== undefined && !isObject(preferences)) {
+    throw new HttpError(400, 'preferences must be an object');
+  }
+
+  const profile = await findOrCreateProfile(req.userId);
+
+  PROFILE_FIELDS.forEach(field => {
+    if (req.body[field] !== undefined) profile.set(field, req.body[field]);
+  });
+
+  if (preferences) {
+    PREFERENCE_FIELDS.forEach(field => {
+      if (preferences[field] !== undefined) profile.set(`preferences.${field}`, preferences[field]);
+    });
+    Object.entries(NESTED_PREFERENCES).forEach(([group, fields]) => {
+      const values = preferences[group];
+      if (values === undefined) return;
+      if (!isObject(values)) {
+        throw new HttpError(400, `preferences.${group} must be an object`);
+      }
+      fields.forEach(field => {
+        if (values[field] !== undefined) profile.set(`preferences.${group}.${field}`, values[field]);
+      });
+    });
+  }
+
+  await profile.save();
+
+  return { status: 200, body: { message: 'Profile updated successfully', profile } };
+};
+
+module.exports = { getProfile, updateProfile };
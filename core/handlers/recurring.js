@@ -0,0 +1,208 @@
+const RecurringBlock = require('../models/RecurringBlock.js');
+const HttpError = require('../lib/http-error.js');
+const { syncBlockProgress, undoBlockProgress, removeBlocksWithProgress } = require('../lib/schedule-progress.js');
+const { OCCURRENCE_FIELDS, occursOn, timeErrors, expandRecurringBlocks } = require('@lifesync/scheduling');
+
+/** @typedef {import('../types.js').CoreRequest} CoreRequest */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SERIES_FIELDS = ['title', 'category', 'startTime', 'endTime', 'goalId', 'rule'];
+
+const pick = (source, fields) => fields.reduce((picked, field) => {
+  if (source[field] !== undefined) {
+    picked[field] = source[field];
+  }
+  return picked;
+}, {});
+
+const findSeries = async (req) => {
+  const series = await RecurringBlock.findOne({ _id: req.params.id, userId: req.userId });
+  if (!series) {
+    throw new HttpError(404, 'Recurring block not found');
+  }
+  return series;
+};
+
+const assertValidTimes = (block) => {
+  const errors = timeErrors(block);
+  if (errors.length > 0) {
+    throw new HttpError(400, 'Invalid block times', { errors });
+  }
+};
+
+// An occurrence as a block, carrying the progress its override applied
+const occurrenceBlock = (series, override) => {
+  // Skipped days expand to nothing but may still have an override
+  const [occurrence = { title: series.title, goalId: series.goalId && String(series.goalId) }] =
+    expandRecurringBlocks([series], override.date);
+  return {
+    block: { ...occurrence, progressApplied: override.progressApplied },
+    date: override.date,
+  };
+};
+
+// The occurrence a request addresses, which must be a day the rule matches
+const occurrenceDate = (req, series) => {
+  const { date } = req.params;
+
+  if (!DATE_PATTERN.test(date)) {
+    throw new HttpError(400, 'Invalid date format. Use YYYY-MM-DD');
+  }
+  if (!occursOn(series.rule, date)) {
+    throw new HttpError(404, 'No occurrence on this date');
+  }
+  return date;
+};
+
+/** @param {CoreRequest} req */
+const listRecurringBlocks = async (req) => {
+  const recurringBlocks = await RecurringBlock.find({ userId: req.userId }).sort({ startTime: 1 });
+  return { status: 200, body: { recurringBlocks } };
+};
+
+/** @param {CoreRequest} req */
+const createRecurringBlock = async (req) => {
+  const series = new RecurringBlock({ ...pick(req.body, SERIES_FIELDS), userId: req.userId });
+  assertValidTimes(series);
+  await series.save();
+
+  return {
+    status: 201,
+    body: { message: 'Recurring block created successfully', recurringBlock: series },
+  };
+};
+
+/**
+ * Edit the whole series. Skipped days and per-day overrides are kept. The
+ * goal cannot change while occurrences hold progress they gave the old one.
+ * @param {CoreRequest} req
+ */
+const updateRecurringBlock = async (req) => {
+  const series = await findSeries(req);
+  const goalChanged = req.body.goalId !== undefined && String(req.body.goalId || '') !== String(series.goalId || '');
+  if (goalChanged && series.overrides.some(override => override.progressApplied)) {
+    throw new HttpError(409, 'Reopen the completed occurrences before linking this block to another goal');
+  }
+
+  series.set(pick(req.body, SERIES_FIELDS));
+  assertValidTimes(series);
+  await series.save();
+
+  return {
+    status: 200,
+    body: { message: 'Recurring block updated successfully', recurringBlock: series },
+  };
+};
+
+/**
+ * Delete the series. Progress its completed occurrences gave goals is taken
+ * back, and the changed goals are returned as `goals`.
+ * @param {CoreRequest} req
+ */
+const deleteRecurringBlock = async (req) => {
+  const series = await findSeries(req);
+  const removed = series.overrides.map(override => occurrenceBlock(series, override));
+  const { goals } = await removeBlocksWithProgress(req.userId, removed, () =>
+    RecurringBlock.deleteOne({ _id: series._id, userId: req.userId })
+  );
+
+  return { status: 200, body: { message: 'Recurring block deleted successfully', goals } };
+};
+
+/**
+ * Edit one occurrence. `{ reset: true }` drops its changes and un-skips it.
+ * Completing an occurrence of a block linked to a goal updates the goal's
+ * progress like completing a day's block does.
+ * @param {CoreRequest} req
+ */
+const updateOccurrence = async (req) => {
+  const series = await findSeries(req);
+  const date = occurrenceDate(req, series);
+  const others = series.overrides.filter(override => override.date !== date);
+  const existing = series.overrides.find(override => override.date === date);
+  let synced = null;
+
+  // Progress follows the occurrence's completed state, so a reset that
+  // reopens it takes the progress back too
+  const syncProgress = async (completed) => {
+    const [occurrence] = expandRecurringBlocks([series], date);
+    synced = await syncBlockProgress(
+      req.userId,
+      { ...occurrence, progressApplied: existing && existing.progressApplied },
+      date,
+      completed
+    );
+    return synced.progressApplied;
+  };
+
+  if (req.body.reset) {
+    await syncProgress(false);
+    series.overrides = others;
+    series.exceptions = series.exceptions.filter(day => day !== date);
+  } else {
+    const changes = pick(req.body, OCCURRENCE_FIELDS);
+
+    if (Object.keys(changes).length === 0) {
+      throw new HttpError(400, `Nothing to change. Editable fields: ${OCCURRENCE_FIELDS.join(', ')}`);
+    }
+
+    const override = { ...(existing ? existing.toObject() : {}), ...changes, date };
+    assertValidTimes({
+      startTime: override.startTime || series.startTime,
+      endTime: override.endTime || series.endTime,
+    });
+    if (changes.completed !== undefined) {
+      override.progressApplied = await syncProgress(Boolean(changes.completed));
+    }
+    series.overrides = [...others, override];
+  }
+
+  try {
+    await series.save();
+  } catch (error) {
+    if (synced) {
+      await undoBlockProgress(synced);
+    }
+    throw error;
+  }
+
+  return {
+    status: 200,
+    body: { message: 'Occurrence updated successfully', recurringBlock: series, goal: synced ? synced.goal : null },
+  };
+};
+
+/**
+ * Skip one occurrence; the rest of the series is unaffected. A completed
+ * occurrence takes back the progress it gave its goal, returned as `goal`.
+ * @param {CoreRequest} req
+ */
+const skipOccurrence = async (req) => {
+  const series = await findSeries(req);
+  const date = occurrenceDate(req, series);
+  const removed = series.overrides
+    .filter(override => override.date === date)
+    .map(override => occurrenceBlock(series, override));
+
+  const { goals } = await removeBlocksWithProgress(req.userId, removed, () => {
+    if (!series.exceptions.includes(date)) {
+      series.exceptions.push(date);
+    }
+    series.overrides = series.overrides.filter(override => override.date !== date);
+    return series.save();
+  });
+
+  return {
+    status: 200,
+    body: { message: 'Occurrence skipped', recurringBlock: series, goal: goals[0] || null },
+  };
+};
+
+module.exports = {
+  listRecurringBlocks,
+  createRecurringBlock,
+  updateRecurringBlock,
+  deleteRecurringBlock,
+  updateOccurrence,
+  skipOccurrence,
+};
@@ -0,0 +1,349 @@
+const Schedule = require('../models/Schedule.js');
+const Goal = require('../models/Goal.js');
+const RecurringBlock = require('../models/RecurringBlock.js');
+const HttpError = require('../lib/http-error.js');
+const { syncBlockProgress, undoBlockProgress, removeBlocksWithProgress } = require('../lib/schedule-progress.js');
+const { findOrCreateProfile } = require('../lib/user-profile.js');
+const {
+  generateSchedule: planDay,
+  expandRecurringBlocks,
+  isValidTime,
+  timeErrors,
+  findOverlaps,
+  dateRange,
+  summarizeBlocks,
+} = require('@lifesync/scheduling');
+
+/** @typedef {import('../types.js').CoreRequest} CoreRequest */
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Longest range GET /schedule?from&to serves in one call
+const MAX_RANGE_DAYS = 62;
+
+const findSchedule = async (scheduleId, userId) => {
+  const schedule = await Schedule.findOne({ _id: scheduleId, userId });
+  if (!schedule) {
+    throw new HttpError(404, 'Schedule not found');
+  }
+  return schedule;
+};
+
+// Occurrences of recurring blocks are computed per day and never stored in
+// the day's schedule; they are edited through /schedule/recurring instead.
+const withoutOccurrences = (blocks) => blocks.filter(block => !block.recurringId);
+
+// A day's stored blocks with its recurring occurrences merged in
+const mergeOccurrences = (blocks, recurringBlocks, date) =>
+  [...blocks, ...expandRecurringBlocks(recurringBlocks, date)]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+const occurrencesOn = async (userId, date) =>
+  expandRecurringBlocks(await RecurringBlock.find({ userId }), date);
+
+const invalidTimes = (blocks) => blocks
+  .map(block => ({ id: block.id, title: block.title, errors: timeErrors(block) }))
+  .filter(({ errors }) => errors.length > 0);
+
+const assertValidTimes = (blocks) => {
+  const invalidBlocks = invalidTimes(blocks);
+  if (invalidBlocks.length > 0) {
+    throw new HttpError(400, 'Invalid block times', { invalidBlocks });
+  }
+};
+
+// The planner expects well-formed times in what clients send it
+const assertValidPlanInput = (preferences, commitments) => {
+  if (preferences !== undefined) {
+    if (!preferences || typeof preferences !== 'object') {
+      throw new HttpError(400, 'preferences must be an object');
+    }
+    const invalid = ['wakeTime', 'sleepTime']
+      .filter(field => preferences[field] !== undefined && !isValidTime(preferences[field]));
+    if (invalid.length > 0) {
+      throw new HttpError(400, `${invalid.join(' and ')} must be a 24-hour HH:mm time`);
+    }
+  }
+
+  if (commitments !== undefined) {
+    if (!Array.isArray(commitments)) {
+      throw new HttpError(400, 'commitments must be an array');
+    }
+    const invalidCommitments = invalidTimes(commitments);
+    if (invalidCommitments.length > 0) {
+      throw new HttpError(400, 'Invalid commitment times', { invalidCommitments });
+    }
+  }
+};
+
+/**
+ * Rejects `blocks` that overlap each other or any of `others` with a 409
+ * listing the conflicting pairs. Overlaps only among `others` were already
+ * there and are not reported.
+ */
+const assertNoOverlaps = (blocks, others) => {
+  const written = new Set(blocks.map(block => block.id));
+  const conflicts = findOverlaps([...blocks, ...others])
+    .filter(({ first, second }) => written.has(first.id) || written.has(second.id));
+
+  if (conflicts.length > 0) {
+    throw new HttpError(409, 'Blocks overlap. Send allowOverlap: true to save anyway', { conflicts });
+  }
+};
+
+/**
+ * The day's own blocks plus the occurrences of the user's recurring blocks
+ * @param {CoreRequest} req
+ */
+const getSchedule = async (req) => {
+  const { date } = req.params;
+
+  if (!date || !DATE_PATTERN.test(date)) {
+    throw new HttpError(400, 'Invalid date format. Use YYYY-MM-DD');
+  }
+
+  const [schedule, recurringBlocks] = await Promise.all([
+    Schedule.findOne({ userId: req.userId, date }),
+    RecurringBlock.find({ userId: req.userId }),
+  ]);
+  const day = schedule ? schedule.toJSON() : { userId: req.userId, date, blocks: [] };
+
+  return {
+    status: 200,
+    body: { ...day, blocks: mergeOccurrences(day.blocks, recurringBlocks, date) },
+  };
+};
+
+/**
+ * Every day from `from` to `to` (inclusive), with its blocks and a summary.
+ * Days without a stored schedule are included with their recurring blocks.
+ * @param {CoreRequest} req
+ */
+const listSchedules = async (req) => {
+  const { from, to } = req.query;
+
+  if (!DATE_PATTERN.test(from || '') || !DATE_PATTERN.test(to || '')) {
+    throw new HttpError(400, 'from and to are required. Use YYYY-MM-DD');
+  }
+
+  const dates = dateRange(from, to);
+  if (dates.length === 0) {
+    throw new HttpError(400, 'from must not be after to');
+  }
+  if (dates.length > MAX_RANGE_DAYS) {
+    throw new HttpError(400, `Ranges are limited to ${MAX_RANGE_DAYS} days`);
+  }
+
+  const [schedules, recurringBlocks] = await Promise.all([
+    Schedule.find({ userId: req.userId, date: { $gte: from, $lte: to } }),
+    RecurringBlock.find({ userId: req.userId }),
+  ]);
+  const byDate = new Map(schedules.map(schedule => [schedule.date, schedule.toJSON()]));
+
+  const days = dates.map(date => {
+    const stored = byDate.get(date);
+    const blocks = mergeOccurrences(stored ? stored.blocks : [], recurringBlocks, date);
+    return {
+      date,
+      scheduleId: stored ? String(stored._id) : null,
+      blocks,
+      summary: summarizeBlocks(blocks),
+    };
+  });
+
+  return { status: 200, body: { from, to, days } };
+};
+
+/**
+ * Replace the day's blocks. Times must be valid, and blocks may not overlap
+ * each other or the day's recurring blocks unless `allowOverlap` is set.
+ * @param {CoreRequest} req
+ */
+const saveSchedule = async (req) => {
+  const { date, blocks, allowOverlap } = req.body;
+
+  if (!date || !Array.isArray(blocks)) {
+    throw new HttpError(400, 'Date and blocks are required');
+  }
+  if (!DATE_PATTERN.test(date)) {
+    throw new HttpError(400, 'Invalid date format. Use YYYY-MM-DD');
+  }
+
+  const stored = withoutOccurrences(blocks);
+  assertValidTimes(stored);
+  if (!allowOverlap) {
+    assertNoOverlaps(stored, await occurrencesOn(req.userId, date));
+  }
+
+  // Blocks left out of the new day take back the progress they applied
+  const existing = await Schedule.findOne({ userId: req.userId, date });
+  const keptIds = new Set(stored.map(block => block.id));
+  const removed = existing
+    ? existing.blocks.filter(block => !keptIds.has(block.id)).map(block => ({ block: block.toObject(), date }))
+    : [];
+
+  const { result: schedule } = await removeBlocksWithProgress(req.userId, removed, () =>
+    Schedule.findOneAndUpdate(
+      { userId: req.userId, date },
+      { userId: req.userId, date, blocks: stored },
+      { new: true, upsert: true }
+    )
+  );
+
+  return { status: 200, body: schedule };
+};
+
+/**
+ * Change one block, with the same time and overlap checks as saveSchedule.
+ * Completing or reopening a block linked to a goal updates the goal's
+ * progress, which is returned as `goal`.
+ * @param {CoreRequest} req
+ */
+const updateBlock = async (req) => {
+  const { scheduleId, blockId, updates, allowOverlap } = req.body;
+
+  if (!scheduleId || !blockId || !updates) {
+    throw new HttpError(400, 'scheduleId, blockId and updates are required');
+  }
+
+  const schedule = await findSchedule(scheduleId, req.userId);
+  const blockIndex = schedule.blocks.findIndex(block => block.id === blockId);
+
+  if (blockIndex === -1) {
+    throw new HttpError(404, 'Block not found');
+  }
+
+  const previous = schedule.blocks[blockIndex].toObject();
+  const { progressApplied, ...changes } = updates;
+  const block = { ...previous, ...changes };
+  assertValidTimes([block]);
+  // Only moving a block can create an overlap; completing one must not fail
+  // because of overlaps that were allowed earlier
+  const moved = changes.startTime !== undefined || changes.endTime !== undefined;
+  if (moved && !allowOverlap) {
+    const others = schedule.blocks.filter((_, index) => index !== blockIndex).map(other => other.toObject());
+    assertNoOverlaps([block], [...others, ...await occurrencesOn(req.userId, schedule.date)]);
+  }
+
+  let synced = null;
+  if (changes.completed !== undefined) {
+    synced = await syncBlockProgress(req.userId, previous, schedule.date, Boolean(changes.completed));
+    block.progressApplied = synced.progressApplied;
+  }
+
+  schedule.blocks[blockIndex] = block;
+  try {
+    await schedule.save();
+  } catch (error) {
+    // The goal must not keep progress the block does not record
+    if (synced) {
+      await undoBlockProgress(synced);
+    }
+    throw error;
+  }
+
+  return { status: 200, body: { ...schedule.toJSON(), goal: synced ? synced.goal : null } };
+};
+
+/** @param {CoreRequest} req */
+const deleteBlock = async (req) => {
+  const { scheduleId, blockId } = req.body;
+
+  if (!scheduleId || !blockId) {
+    throw new HttpError(400, 'scheduleId and blockId are required');
+  }
+
+  const schedule = await findSchedule(scheduleId, req.userId);
+  const removed = schedule.blocks
+    .filter(block => block.id === blockId)
+    .map(block => ({ block: block.toObject(), date: schedule.date }));
+
+  await removeBlocksWithProgress(req.userId, removed, () => {
+    schedule.blocks = schedule.blocks.filter(block => block.id !== blockId);
+    return schedule.save();
+  });
+
+  return { status: 200, body: schedule };
+};
+
+/**
+ * Plan a day from the user's goals. Clients may pass the goals to plan;
+ * otherwise all open goals of the user are used. Goal blocks only go into
+ * time that imported calendar events, completed blocks, the day's recurring
+ * blocks and the given commitments leave free. The day runs from the wake-up to the sleep
+ * time in the user's profile unless `preferences` says otherwise.
+ * @param {CoreRequest} req
+ */
+const generateSchedule = async (req) => {
+  const { date, preferences, commitments } = req.body;
+
+  if (!date || !DATE_PATTERN.test(date)) {
+    throw new HttpError(400, 'Invalid date format. Use YYYY-MM-DD');
+  }
+  assertValidPlanInput(preferences, commitments);
+
+  const goals = Array.isArray(req.body.goals)
+    ? req.body.goals
+    : await Goal.find({ userId: req.userId, completed: false });
+
+  const [existing, recurringBlocks, profile] = await Promise.all([
+    Schedule.findOne({ userId: req.userId, date }),
+    RecurringBlock.find({ userId: req.userId }),
+    findOrCreateProfile(req.userId),
+  ]);
+  // Imported events and blocks already completed, whose progress the goals
+  // have, stay as they are; the planner works around them
+  const kept = existing
+    ? existing.blocks.filter(block => block.externalUid || block.completed).map(block => block.toObject())
+    : [];
+  const occurrences = expandRecurringBlocks(recurringBlocks, date);
+  // A goal with a kept or completed block that day is not planned again
+  const coveredGoalIds = new Set([...kept, ...occurrences.filter(occurrence => occurrence.completed)]
+    .filter(block => block.goalId)
+    .map(block => String(block.goalId)));
+  const openGoals = goals.filter(goal => !coveredGoalIds.has(String(goal.id || goal._id)));
+
+  const { blocks, unscheduled } = planDay(openGoals, {
+    date,
+    preferences: {
+      wakeTime: profile.preferences.wakeUpTime,
+      sleepTime: profile.preferences.sleepTime,
+      ...preferences,
+    },
+    commitments: [...kept, ...occurrences, ...(commitments || [])],
+  });
+
+  // The planner returns busy time as plain fixed blocks: kept blocks get
+  // their stored fields back and occurrences are merged in again on reads.
+  // A day holds each block id once.
+  const keptById = new Map(kept.map(block => [block.id, block]));
+  const occurrenceIds = new Set(occurrences.map(occurrence => occurrence.id));
+  const storedById = new Map();
+  blocks
+    .filter(block => !occurrenceIds.has(block.id))
+    .forEach(block => {
+      if (!storedById.has(block.id)) storedById.set(block.id, keptById.get(block.id) || block);
+    });
+  const stored = [...storedById.values()];
+
+  const schedule = await Schedule.findOneAndUpdate(
+    { userId: req.userId, date },
+    { userId: req.userId, date, blocks: stored },
+    { new: true, upsert: true }
+  );
+  const day = schedule.toJSON();
+
+  return {
+    status: 200,
+    body: { ...day, blocks: mergeOccurrences(day.blocks, recurringBlocks, date), unscheduled },
+  };
+};
+
+module.exports = {
+  listSchedules,
+  getSchedule,
+  saveSchedule,
+  updateBlock,
+  deleteBlock,
+  generateSchedule,
+};
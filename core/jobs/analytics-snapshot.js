@@ -0,0 +1,28 @@
+// Write every user's analytics snapshot for a day, outside the scheduler:
+//   MONGODB_URI=... node core/jobs/analytics-snapshot.js [YYYY-MM-DD]
+// The day defaults to today (UTC).
+const mongoose = require('mongoose');
+const connectDB = require('../lib/db.js');
+const { toDateKey, isDateKey } = require('../lib/habits.js');
+const { snapshotAllUsers } = require('../lib/analytics.js');
+
+const main = async () => {
+  const date = process.argv[2] || toDateKey(new Date());
+  if (!isDateKey(date)) {
+    throw new Error(`Invalid date "${date}". Use YYYY-MM-DD`);
+  }
+
+  await connectDB();
+  try {
+    const { written, failed } = await snapshotAllUsers(date);
+    console.log(`Analytics snapshots for ${date}: ${written} written, ${failed.length} failed`);
+    if (failed.length > 0) process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
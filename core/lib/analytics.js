@@ -0,0 +1,80 @@
+const Analytics = require('../models/Analytics.js');
+const CheckIn = require('../models/CheckIn.js');
+const Goal = require('../models/Goal.js');
+const RecurringBlock = require('../models/RecurringBlock.js');
+const Schedule = require('../models/Schedule.js');
+const User = require('../models/User.js');
+const { expandRecurringBlocks, summarizeBlocks } = require('@lifesync/scheduling');
+
+const GOAL_CATEGORIES = ['physical', 'mental', 'financial', 'social'];
+const MOOD_SCORES = { struggling: 1, okay: 2, good: 3, great: 4 };
+
+const average = (values) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * A user's figures for one day. Goal figures are the goals as they are when
+ * this runs, so snapshots are taken on the day they are for.
+ * @param {string} userId
+ * @param {string} date - 'YYYY-MM-DD'
+ */
+const computeSnapshot = async (userId, date) => {
+  const [goals, schedule, recurringBlocks, checkIns] = await Promise.all([
+    Goal.find({ userId }).select('category progress completed'),
+    Schedule.findOne({ userId, date }),
+    RecurringBlock.find({ userId }),
+    CheckIn.find({ userId, date }).select('mood'),
+  ]);
+
+  const categoryProgress = Object.fromEntries(GOAL_CATEGORIES.map(category => {
+    const progress = goals.filter(goal => goal.category === category).map(goal => goal.progress || 0);
+    return [category, progress.length > 0 ? Math.round(average(progress)) : 0];
+  }));
+
+  // Occurrences of recurring blocks are not stored with the day
+  const blocks = [...(schedule ? schedule.blocks : []), ...expandRecurringBlocks(recurringBlocks, date)];
+  const { total, completed, plannedMinutes, completedMinutes } = summarizeBlocks(blocks);
+
+  return {
+    userId,
+    date,
+    categoryProgress,
+    completedGoals: goals.filter(goal => goal.completed).length,
+    totalGoals: goals.length,
+    moodScore: checkIns.length > 0
+      ? Math.round(average(checkIns.map(checkIn => MOOD_SCORES[checkIn.mood])) * 100) / 100
+      : null,
+    checkIns: checkIns.length,
+    schedule: { total, completed, plannedMinutes, completedMinutes },
+  };
+};
+
+// Running the job again for a day replaces that day's snapshot
+const writeSnapshot = async (userId, date) => Analytics.findOneAndUpdate(
+  { userId, date },
+  await computeSnapshot(userId, date),
+  { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+);
+
+/**
+ * Snapshot every user for `date`, one user at a time. Users whose snapshot
+ * fails are logged and reported; the others are still written.
+ * @param {string} date - 'YYYY-MM-DD'
+ */
+const snapshotAllUsers = async (date) => {
+  let written = 0;
+  const failed = [];
+
+  for await (const user of User.find().select('_id').cursor()) {
+    try {
+      await writeSnapshot(user._id, date);
+      written++;
+    } catch (error) {
+      console.error(`Analytics snapshot for user ${user._id} failed:`, error);
+      failed.push(String(user._id));
+    }
+  }
+
+  return { date, written, failed };
+};
+
+module.exports = { computeSnapshot, writeSnapshot, snapshotAllUsers };
@@ -0,0 +1,47 @@
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const Session = require('../models/Session.js');
+const HttpError = require('./http-error.js');
+
+const jwtSecret = () => process.env.JWT_SECRET || 'your-secret-key';
+
+// Access tokens are short-lived; clients get new ones from /auth/refresh
+const ACCESS_TOKEN_TTL = '15m';
+
+const signToken = (user, sessionId) => jwt.sign(
+  { userId: user._id, email: user.email, sessionId },
+  jwtSecret(),
+  { expiresIn: ACCESS_TOKEN_TTL }
+);
+
+// Resolve the user of a request from its bearer token. The token's session
+// must still be live, so signing out or revoking a device takes effect
+// right away instead of when the access token expires.
+const authenticate = async (req) => {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+
+  if (!token) {
+    throw new HttpError(401, 'Please authenticate');
+  }
+
+  let decoded;
+  try {
+    decoded = jwt.verify(token, jwtSecret());
+  } catch (error) {
+    throw new HttpError(401, 'Please authenticate');
+  }
+
+  // Tokens from before sessions existed cannot be revoked, so they are refused
+  if (!mongoose.isValidObjectId(decoded.sessionId) || !mongoose.isValidObjectId(decoded.userId)) {
+    throw new HttpError(401, 'Please authenticate');
+  }
+
+  const session = await Session.findOne({ _id: decoded.sessionId, userId: decoded.userId });
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    throw new HttpError(401, 'Please authenticate');
+  }
+
+  return { userId: decoded.userId, userEmail: decoded.email, sessionId: decoded.sessionId };
+};
+
+module.exports = { signToken, authenticate };
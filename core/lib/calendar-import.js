@@ -0,0 +1,432 @@
+// Turns other calendars' events into busy blocks on the user's own clock.
+//
+// Schedules are wall-clock 'HH:mm' per 'YYYY-MM-DD' day, so every event time
+// is converted to the user's time zone first. UTC times and times with a
+// known TZID are converted; floating times and unknown TZIDs (e.g. Windows
+// zone names) are taken as already being the user's wall-clock time.
+
+const crypto = require('crypto');
+const dns = require('dns');
+const fs = require('fs/promises');
+const http = require('http');
+const https = require('https');
+const net = require('net');
+const path = require('path');
+const HttpError = require('./http-error.js');
+const { parseCalendar } = require('./ical.js');
+const { toTime } = require('@lifesync/scheduling');
+
+const MINUTES_PER_DAY = 24 * 60;
+const MAX_SOURCE_BYTES = 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+// Rules with COUNT are followed from DTSTART to count their instances, for
+// at most this many days; other rules are only checked inside the window
+const MAX_COUNTED_DAYS = 366 * 10;
+
+// Calendar URLs are fetched by the server, so they may not point at it, at
+// private networks or at link-local addresses such as cloud metadata
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 127],
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+const isTimeZone = (zone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Wall-clock time `zone` shows at an instant, in minutes since 1970-01-01 00:00
+const wallMinutesAt = (instant, zone) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).formatToParts(new Date(instant)).map(part => [part.type, part.value])
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) / 60000;
+};
+
+// The instant at which `zone` shows the given wall-clock minutes. Two passes
+// settle the zone's offset, including around DST changes.
+const instantOfWallMinutes = (wall, zone) => {
+  let instant = wall * 60000;
+  for (let pass = 0; pass < 2; pass++) {
+    instant += (wall - wallMinutesAt(instant, zone)) * 60000;
+  }
+  return instant;
+};
+
+/**
+ * @param {import('./ical.js').CalendarTime} value
+ * @param {string} timeZone - The user's IANA zone
+ * @returns {number} Minutes since 1970-01-01 00:00 on the user's clock
+ */
+const toUserWallMinutes = (value, timeZone) => {
+  const [hours, minutes] = value.time.split(':').map(Number);
+  const wall = Date.parse(`${value.date}T00:00:00.000Z`) / 60000 + hours * 60 + minutes;
+
+  if (value.utc) {
+    return wallMinutesAt(wall * 60000, timeZone);
+  }
+  if (value.tzid && value.tzid !== timeZone && isTimeZone(value.tzid)) {
+    return wallMinutesAt(instantOfWallMinutes(wall, value.tzid), timeZone);
+  }
+  return wall;
+};
+
+const toDateKey = (wallMinutes) =>
+  new Date(Math.floor(wallMinutes / MINUTES_PER_DAY) * MINUTES_PER_DAY * 60000).toISOString().slice(0, 10);
+
+// Blocks cannot end at 24:00, so a segment running to midnight ends at 23:59
+const toEndTime = (minuteOfDay) => toTime(Math.min(minuteOfDay, MINUTES_PER_DAY - 1));
+
+const shortHash = (value) => crypto.createHash('sha1').update(value).digest('hex').slice(0, 16);
+
+// Stable per event and day, so importing the same file again replaces blocks
+const blockId = (key, date) => `ics-${shortHash(`${key}|${date}`)}`;
+
+// Events without a UID get one from when and what they are, so importing
+// the calendar again finds the same event
+const fallbackUid = (event) => {
+  const { date, time = '', utc, tzid = '' } = event.start || {};
+  return `event-${shortHash(`${date}T${time}${utc ? 'Z' : ''}${tzid}|${event.summary || ''}`)}`;
+};
+
+const dayNumber = (dateKey) => Date.parse(`${dateKey}T00:00:00.000Z`) / (MINUTES_PER_DAY * 60000);
+
+const dateOfDay = (day) => toDateKey(day * MINUTES_PER_DAY);
+
+// 0 = Sunday
+const weekdayOf = (day) => (((day + 4) % 7) + 7) % 7;
+
+const monthDayOf = (day) => {
+  const date = new Date(day * MINUTES_PER_DAY * 60000);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), date: date.getUTCDate() };
+};
+
+const daysInMonth = ({ year, month }) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Whether a repeating event has an instance on `day`, for the rule parts
+ * parseRecurrenceRule understands. Days are counted from 1970-01-01.
+ * @param {import('./ical.js').RecurrenceRule} rule
+ */
+const matchesRule = (rule, day, startDay) => {
+  const weekday = weekdayOf(day);
+  const onWeekday = (days) => days.some(entry => entry.weekday === weekday);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return (day - startDay) % rule.interval === 0 && (!rule.byDay || onWeekday(rule.byDay));
+    case 'WEEKLY': {
+      const weekStartOf = (of) => of - ((weekdayOf(of) - rule.weekStart + 7) % 7);
+      const weeks = (weekStartOf(day) - weekStartOf(startDay)) / 7;
+      return weeks % rule.interval === 0 && onWeekday(rule.byDay || [{ weekday: weekdayOf(startDay) }]);
+    }
+    case 'MONTHLY': {
+      const current = monthDayOf(day);
+      const start = monthDayOf(startDay);
+      if (((current.year - start.year) * 12 + current.month - start.month) % rule.interval !== 0) return false;
+
+      const length = daysInMonth(current);
+      const dayMatches = rule.byMonthDay
+        ? rule.byMonthDay.some(n => (n > 0 ? n : length + n + 1) === current.date)
+        : Boolean(rule.byDay) || current.date === start.date;
+      const weekdayMatches = !rule.byDay || rule.byDay.some(({ weekday: ruleDay, ordinal }) =>
+        ruleDay === weekday && (!ordinal || (ordinal > 0
+          ? Math.ceil(current.date / 7) === ordinal
+          : Math.ceil((length - current.date + 1) / 7) === -ordinal)));
+      return dayMatches && weekdayMatches;
+    }
+    case 'YEARLY': {
+      const current = monthDayOf(day);
+      const start = monthDayOf(startDay);
+      return (current.year - start.year) % rule.interval === 0
+        && current.month === start.month
+        && current.date === start.date;
+    }
+    default:
+      return false;
+  }
+};
+
+// UNTIL is the last moment an instance may start; a date allows the whole day
+const lastInstanceStart = ({ until }, timeZone) => {
+  if (!until) return Infinity;
+  return toUserWallMinutes(until.time ? until : { ...until, time: '23:59' }, timeZone);
+};
+
+/**
+ * Dates of the instances of a repeating event that start from `firstDay` to
+ * `lastDay`. The first instance is DTSTART; COUNT counts from there, and
+ * excluded dates still count. Only rules with COUNT are walked from DTSTART,
+ * so an old start date costs nothing for the others.
+ * @param {import('./ical.js').ParsedEvent} event
+ */
+const instanceDates = (event, firstDay, lastDay) => {
+  const { rrule } = event;
+  const startDay = dayNumber(event.start.date);
+  const untilDay = rrule.until ? dayNumber(rrule.until.date) : Infinity;
+  const excluded = new Set((event.exdates || []).map(exdate => exdate.date));
+
+  const scanFrom = rrule.count ? startDay : Math.max(startDay, firstDay);
+  const scanTo = Math.min(lastDay, untilDay, rrule.count ? startDay + MAX_COUNTED_DAYS : Infinity);
+
+  const dates = [];
+  let count = 0;
+  for (let day = scanFrom; day <= scanTo; day++) {
+    if (day !== startDay && !matchesRule(rrule, day, startDay)) continue;
+    count++;
+    if (rrule.count && count > rrule.count) break;
+    if (day >= firstDay && !excluded.has(dateOfDay(day))) dates.push(dateOfDay(day));
+  }
+  return dates;
+};
+
+const isBlockedAddress = (address) =>
+  BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+const notPublic = () => new HttpError(400, 'Calendar URLs must point to a public address');
+
+// dns.lookup that refuses blocked addresses. Requests connect to the address
+// it checked, so a host cannot resolve differently between check and fetch.
+const publicLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+    if (addresses.some(({ address }) => isBlockedAddress(address))) return callback(notPublic());
+    if (options.all) return callback(null, addresses);
+    return callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const parseCalendarUrl = (url) => {
+  let parsed;
+  try {
+    parsed = new URL(url.replace(/^webcal:/i, 'https:'));
+  } catch (error) {
+    throw new HttpError(400, 'Invalid calendar URL');
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    throw new HttpError(400, 'Calendar URLs must use http or https');
+  }
+  // Literal addresses are connected to without a lookup
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw notPublic();
+  }
+  return parsed;
+};
+
+const tooLarge = () => new HttpError(413, 'Calendar is larger than 1 MB');
+
+// GET a calendar URL, following redirects to public addresses only and
+// giving up as soon as the body passes MAX_SOURCE_BYTES
+const download = (url, signal, redirects = 0) => new Promise((resolve, reject) => {
+  const client = url.protocol === 'https:' ? https : http;
+  const request = client.get(url, { lookup: publicLookup, signal }, (response) => {
+    const { statusCode, headers } = response;
+
+    if (statusCode >= 300 && statusCode < 400 && headers.location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        reject(new HttpError(502, 'Calendar URL redirected too often'));
+        return;
+      }
+      try {
+        resolve(download(parseCalendarUrl(new URL(headers.location, url).href), signal, redirects + 1));
+      } catch (error) {
+        reject(error);
+      }
+      return;
+    }
+    if (statusCode < 200 || statusCode >= 300) {
+      response.resume();
+      reject(new HttpError(502, `Calendar URL responded with ${statusCode}`));
+      return;
+    }
+    if (Number(headers['content-length']) > MAX_SOURCE_BYTES) {
+      request.destroy();
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks = [];
+    let size = 0;
+    response.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_SOURCE_BYTES) {
+        request.destroy();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    response.on('error', () => reject(new HttpError(502, 'Could not reach the calendar URL')));
+  });
+
+  request.on('error', (error) => {
+    reject(error instanceof HttpError ? error : new HttpError(502, 'Could not reach the calendar URL'));
+  });
+});
+
+/**
+ * Read the calendar a request points at: `ics` text in the body, an http(s)
+ * `url` on a public address, or a `path` inside the ICS_IMPORT_DIR directory.
+ * @param {{ ics?: string, url?: string, path?: string }} source
+ * @returns {Promise<string>}
+ */
+const loadCalendarSource = async ({ ics, url, path: filePath }) => {
+  if (typeof ics === 'string' && ics.trim()) {
+    if (Buffer.byteLength(ics) > MAX_SOURCE_BYTES) {
+      throw tooLarge();
+    }
+    return ics;
+  }
+
+  if (url) {
+    return download(parseCalendarUrl(String(url)), AbortSignal.timeout(FETCH_TIMEOUT_MS));
+  }
+
+  if (filePath) {
+    const root = process.env.ICS_IMPORT_DIR;
+    if (!root) {
+      throw new HttpError(400, 'Importing from a path is not enabled on this server');
+    }
+
+    const resolved = path.resolve(root, filePath);
+    if (!resolved.startsWith(path.resolve(root) + path.sep)) {
+      throw new HttpError(400, 'Path must be inside the import directory');
+    }
+
+    try {
+      const { size } = await fs.stat(resolved);
+      if (size > MAX_SOURCE_BYTES) {
+        throw tooLarge();
+      }
+      return await fs.readFile(resolved, 'utf8');
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      throw new HttpError(404, 'Calendar file not found');
+    }
+  }
+
+  throw new HttpError(400, 'Send the calendar as ics text, a url or a path');
+};
+
+/**
+ * Busy blocks for the timed events of a calendar, split per day, keeping
+ * only days from `from` to `to`. Repeating events get a block for every
+ * instance in that range. Events that cannot block time are listed in
+ * `skipped` with the reason.
+ * @param {string} text
+ * @param {{ timeZone: string, from: string, to: string }} options
+ */
+const busyBlocksFrom = (text, { timeZone, from, to }) => {
+  const blocks = [];
+  const skipped = [];
+  const events = parseCalendar(text);
+
+  // Instances changed on their own replace that date of their series
+  const changedInstances = new Set(events
+    .filter(event => event.uid && event.recurrenceId)
+    .map(event => `${event.uid}|${event.recurrenceId.date}`));
+
+  events.forEach(event => {
+    const uid = event.uid || fallbackUid(event);
+    const summary = event.summary || 'Busy';
+    const skip = (reason) => skipped.push({ uid, summary, reason });
+
+    if (!event.start) return skip('No start time');
+    if (!event.start.time) return skip('All-day event');
+    if (event.status === 'CANCELLED') return skip('Cancelled');
+    if (event.free) return skip('Marked as free');
+
+    const start = toUserWallMinutes(event.start, timeZone);
+    let end = start;
+    if (event.end && event.end.time) {
+      end = toUserWallMinutes(event.end, timeZone);
+    } else if (event.durationMinutes) {
+      end = start + event.durationMinutes;
+    }
+    if (end <= start) return skip('Ends before it starts');
+
+    const duration = end - start;
+    const expand = event.rrule && event.rrule.unsupported.length === 0 && !event.recurrenceId;
+    // Instances starting a day early in the event's zone, or running over
+    // from earlier days, may still reach into the range
+    // Block ids of instances include the instance's date: a changed instance
+    // may move onto a day its series also has one, and long instances run
+    // into the days of the next
+    const instances = expand
+      ? instanceDates(event, dayNumber(from) - Math.ceil(duration / MINUTES_PER_DAY) - 1, dayNumber(to) + 1)
+        .filter(date => !changedInstances.has(`${uid}|${date}`))
+        .map(date => ({ key: `${uid}|${date}`, start: toUserWallMinutes({ ...event.start, date }, timeZone) }))
+        .filter(instance => instance.start <= lastInstanceStart(event.rrule, timeZone))
+      : [{ key: event.recurrenceId ? `${uid}|${event.recurrenceId.date}` : uid, start }];
+    const reason = event.rrule && !expand && !event.recurrenceId
+      ? 'Imported from your calendar (first occurrence of a repeating event)'
+      : 'Imported from your calendar';
+
+    instances.forEach(({ key, start: instanceStart }) => {
+      const instanceEnd = instanceStart + duration;
+
+      // One block per day the instance touches
+      for (let dayStart = Math.floor(instanceStart / MINUTES_PER_DAY) * MINUTES_PER_DAY; dayStart < instanceEnd; dayStart += MINUTES_PER_DAY) {
+        const date = toDateKey(dayStart);
+        const segmentStart = Math.max(instanceStart, dayStart) - dayStart;
+        const segmentEnd = Math.min(instanceEnd, dayStart + MINUTES_PER_DAY) - dayStart;
+
+        if (date < from || date > to || segmentEnd - segmentStart < 1 || segmentStart >= MINUTES_PER_DAY - 1) {
+          continue;
+        }
+
+        blocks.push({
+          date,
+          block: {
+            id: blockId(key, date),
+            title: summary,
+            category: 'personal',
+            startTime: toTime(segmentStart),
+            endTime: toEndTime(segmentEnd),
+            completed: false,
+            fixed: true,
+            reason,
+            externalUid: uid,
+          },
+        });
+      }
+    });
+  });
+
+  return { blocks, skipped };
+};
+
+module.exports = { isTimeZone, loadCalendarSource, busyBlocksFrom };
@@ -1,22 +1,24 @@
 const mongoose = require('mongoose');
 
-const MONGODB_URI = process.env.MONGODB_URI;
-
-if (!MONGODB_URI) {
-  throw new Error('Please define the MONGODB_URI environment variable');
-}
-
 let cached = global.mongoose;
 
 if (!cached) {
   cached = global.mongoose = { conn: null, promise: null };
 }
 
+// Connections are cached on `global` so warm serverless invocations and the
+// long-running Express server share one connection per process.
 async function connectDB() {
   if (cached.conn) {
     return cached.conn;
   }
 
+  const MONGODB_URI = process.env.MONGODB_URI;
+
+  if (!MONGODB_URI) {
+    throw new Error('Please define the MONGODB_URI environment variable');
+  }
+
   if (!cached.promise) {
     const opts = {
       bufferCommands: false,
@@ -37,4 +39,4 @@ async function connectDB() {
   return cached.conn;
 }
 
-module.exports = connectDB;
\ No newline at end of file
+module.exports = connectDB;
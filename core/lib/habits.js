@@ -0,0 +1,128 @@
+// Streak and completion-rate calculations for habit goals.
+//
+// Completions are stored as 'YYYY-MM-DD' day keys in the user's local
+// calendar, so all date math here works on UTC midnights of those keys and
+// never on the server's clock directly.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDateKey = (date) => date.toISOString().slice(0, 10);
+
+const fromDateKey = (key) => new Date(`${key}T00:00:00.000Z`);
+
+const isDateKey = (value) =>
+  typeof value === 'string' && DATE_KEY_PATTERN.test(value) && !isNaN(fromDateKey(value).getTime());
+
+const addDays = (key, days) => toDateKey(new Date(fromDateKey(key).getTime() + days * DAY_MS));
+
+const isWeekday = (key) => {
+  const day = fromDateKey(key).getUTCDay();
+  return day !== 0 && day !== 6;
+};
+
+// Monday of the week containing the given day
+const weekStart = (key) => {
+  const day = fromDateKey(key).getUTCDay();
+  return addDays(key, -((day + 6) % 7));
+};
+
+const getFrequency = (goal) => ({
+  period: (goal.frequency && goal.frequency.period) || 'daily',
+  timesPerWeek: (goal.frequency && goal.frequency.timesPerWeek) || 1,
+});
+
+// Walk the periods from start to the current one. A period that is still
+// open (today / this week) only counts once it has been met, so an
+// unfinished today never breaks a streak.
+const summarize = (periods, isMet, currentPeriod) => {
+  let run = 0;
+  let longest = 0;
+  let due = 0;
+  let met = 0;
+
+  periods.forEach((period) => {
+    if (isMet(period)) {
+      run += 1;
+      met += 1;
+      due += 1;
+      longest = Math.max(longest, run);
+    } else if (period !== currentPeriod) {
+      run = 0;
+      due += 1;
+    }
+  });
+
+  return {
+    currentStreak: run,
+    longestStreak: longest,
+    completionRate: due > 0 ? Math.round((met / due) * 100) : 0,
+  };
+};
+
+const computeHabitStats = (goal, today = toDateKey(new Date())) => {
+  const frequency = getFrequency(goal);
+  const completions = Array.from(new Set(goal.completions || []))
+    .filter((key) => key <= today)
+    .sort();
+  const done = new Set(completions);
+
+  const createdKey = goal.createdAt ? toDateKey(new Date(goal.createdAt)) : today;
+  let start = completions.length > 0 && completions[0] < createdKey ? completions[0] : createdKey;
+  if (start > today) {
+    start = today;
+  }
+
+  const currentWeek = weekStart(today);
+  const thisWeekCount = completions.filter((key) => weekStart(key) === currentWeek).length;
+
+  let summary;
+  if (frequency.period === 'weekly') {
+    const counts = new Map();
+    completions.forEach((key) => {
+      const week = weekStart(key);
+      counts.set(week, (counts.get(week) || 0) + 1);
+    });
+
+    const weeks = [];
+    for (let week = weekStart(start); week <= currentWeek; week = addDays(week, 7)) {
+      weeks.push(week);
+    }
+    summary = summarize(weeks, (week) => (counts.get(week) || 0) >= frequency.timesPerWeek, currentWeek);
+  } else {
+    const days = [];
+    for (let day = start; day <= today; day = addDays(day, 1)) {
+      if (frequency.period !== 'weekdays' || isWeekday(day)) {
+        days.push(day);
+      }
+    }
+    summary = summarize(days, (day) => done.has(day), today);
+  }
+
+  return {
+    ...frequency,
+    ...summary,
+    streakUnit: frequency.period === 'weekly' ? 'weeks' : 'days',
+    completedToday: done.has(today),
+    completedThisWeek: thisWeekCount,
+    lastCompletedOn: completions.length > 0 ? completions[completions.length - 1] : null,
+    totalCompletions: completions.length,
+  };
+};
+
+// Goal JSON with habit stats attached for habit goals
+const withHabitStats = (goal, today) => {
+  const json = goal.toJSON ? goal.toJSON() : goal;
+  if (goal.type !== 'habit') {
+    return json;
+  }
+  return { ...json, habitStats: computeHabitStats(goal, today) };
+};
+
+module.exports = {
+  toDateKey,
+  isDateKey,
+  addDays,
+  computeHabitStats,
+  withHabitStats,
+};
@@ -0,0 +1,12 @@
+// Thrown by handlers to end a request with a specific status. Adapters turn
+// it into `{ error: message, ...details }`.
+class HttpError extends Error {
+  constructor(status, message, details = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+module.exports = HttpError;
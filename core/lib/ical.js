@@ -0,0 +1,286 @@
+// RFC 5545 iCalendar rendering for schedule exports and feeds, and the
+// subset of parsing needed to import other calendars' events as busy time.
+//
+// Schedule times are wall-clock 'HH:mm' without a time zone, so timed events
+// are written as floating local times: calendar apps show 09:00 as 09:00
+// wherever the user is. Goal deadlines are all-day events.
+
+const PRODUCT_ID = '-//LifeSync//Schedule//EN';
+const MAX_LINE_OCTETS = 75;
+
+// TEXT values escape backslashes, semicolons, commas and newlines
+const escapeText = (value) => String(value)
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space.
+// Splits never cut a UTF-8 character in half.
+const foldLine = (line) => {
+  const parts = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+// '2026-10-19' -> '20261019'
+const formatDate = (dateKey) => dateKey.replace(/-/g, '');
+
+// '2026-10-19', '09:30' -> '20261019T093000'
+const formatLocalDateTime = (dateKey, time) => `${formatDate(dateKey)}T${time.replace(':', '')}00`;
+
+// Date -> '20261019T073000Z'
+const formatUtc = (date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * @typedef {Object} CalendarEvent
+ * @property {string} uid - Stable across exports so re-imports update the event
+ * @property {string} summary
+ * @property {string} [description]
+ * @property {string} [categories]
+ * @property {string} date - 'YYYY-MM-DD'
+ * @property {string} [startTime] - 'HH:mm'; without it the event is all-day
+ * @property {string} [endTime] - 'HH:mm'
+ * @property {Date} stamp - When the event last changed
+ */
+
+const renderEvent = (event) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(event.stamp)}`,
+  ];
+
+  if (event.startTime) {
+    lines.push(`DTSTART:${formatLocalDateTime(event.date, event.startTime)}`);
+    lines.push(`DTEND:${formatLocalDateTime(event.date, event.endTime)}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.categories) lines.push(`CATEGORIES:${escapeText(event.categories)}`);
+  // Deadlines should not show the whole day as busy
+  lines.push(`TRANSP:${event.startTime ? 'OPAQUE' : 'TRANSPARENT'}`, 'END:VEVENT');
+
+  return lines;
+};
+
+/**
+ * A complete VCALENDAR document with CRLF line endings.
+ * @param {{ name: string, events: CalendarEvent[] }} calendar
+ * @returns {string}
+ */
+const renderCalendar = ({ name, events }) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(renderEvent),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+// Joins folded lines back together
+const unfold = (text) => text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(Boolean);
+
+const unescapeText = (value) => value.replace(/\\([\\;,nN])/g, (_, char) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+// 'DTSTART;TZID="Europe/Berlin":20261019T090000' -> name, params and value.
+// The value starts at the first colon outside a quoted parameter.
+const parseLine = (line) => {
+  let inQuotes = false;
+  let index = 0;
+  for (; index < line.length; index++) {
+    if (line[index] === '"') inQuotes = !inQuotes;
+    else if (line[index] === ':' && !inQuotes) break;
+  }
+
+  const [name, ...params] = line.slice(0, index).split(';');
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map(param => {
+      const [key, ...value] = param.split('=');
+      return [key.toUpperCase(), value.join('=').replace(/^"|"$/g, '')];
+    })),
+    value: line.slice(index + 1),
+  };
+};
+
+/**
+ * @typedef {Object} CalendarTime
+ * @property {string} date - 'YYYY-MM-DD'
+ * @property {string} [time] - 'HH:mm'; missing for all-day values
+ * @property {boolean} utc - Whether the value ended in Z
+ * @property {string} [tzid]
+ */
+
+/** @returns {CalendarTime|null} */
+const parseDateValue = ({ params, value }) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, utc] = match;
+  return {
+    date: `${year}-${month}-${day}`,
+    ...(hours && { time: `${hours}:${minutes}` }),
+    utc: Boolean(utc),
+    ...(params.TZID && { tzid: params.TZID }),
+  };
+};
+
+// 'PT1H30M' -> 90
+const parseDuration = (value) => {
+  const match = value.match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/);
+  if (!match) return null;
+  const [weeks, days, hours, minutes] = match.slice(1).map(part => Number(part) || 0);
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes;
+};
+
+const RULE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const RULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * @typedef {Object} RecurrenceRule
+ * @property {'DAILY'|'WEEKLY'|'MONTHLY'|'YEARLY'} freq
+ * @property {number} interval
+ * @property {number} [count]
+ * @property {CalendarTime} [until]
+ * @property {{ weekday: number, ordinal?: number }[]} [byDay] - 0 = Sunday; ordinal -1 is the last in the month
+ * @property {number[]} [byMonthDay] - Negative days count from the end of the month
+ * @property {number} weekStart - 0 = Sunday
+ * @property {string[]} unsupported - Parts of the rule that cannot be expanded
+ */
+
+/**
+ * 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10' -> RecurrenceRule. Only the parts
+ * calendar apps commonly write are understood; anything else is listed in
+ * `unsupported`.
+ * @returns {RecurrenceRule}
+ */
+const parseRecurrenceRule = (value) => {
+  const parts = Object.fromEntries(value.split(';').filter(Boolean).map(part => {
+    const [key, ...rest] = part.split('=');
+    return [key.toUpperCase(), rest.join('=').toUpperCase()];
+  }));
+  const unsupported = Object.keys(parts)
+    .filter(key => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'WKST'].includes(key));
+
+  const freq = parts.FREQ;
+  if (!RULE_FREQUENCIES.includes(freq)) unsupported.push(`FREQ=${freq}`);
+
+  const byDay = parts.BYDAY && parts.BYDAY.split(',').map(day => {
+    const match = day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return match && { weekday: RULE_WEEKDAYS.indexOf(match[2]), ...(match[1] && { ordinal: Number(match[1]) }) };
+  });
+  if (byDay && (byDay.includes(null) || (freq !== 'MONTHLY' && byDay.some(day => day.ordinal)))) {
+    unsupported.push('BYDAY');
+  }
+
+  const byMonthDay = parts.BYMONTHDAY && parts.BYMONTHDAY.split(',').map(Number);
+  if (byMonthDay && (freq !== 'MONTHLY' || byMonthDay.some(day => !Number.isInteger(day) || day === 0))) {
+    unsupported.push('BYMONTHDAY');
+  }
+  if (freq === 'YEARLY' && byDay) unsupported.push('BYDAY');
+
+  return {
+    freq,
+    interval: Math.max(parseInt(parts.INTERVAL, 10) || 1, 1),
+    ...(parts.COUNT && { count: parseInt(parts.COUNT, 10) }),
+    ...(parts.UNTIL && { until: parseDateValue({ params: {}, value: parts.UNTIL }) || undefined }),
+    ...(byDay && !byDay.includes(null) && { byDay }),
+    ...(byMonthDay && { byMonthDay }),
+    weekStart: parts.WKST ? Math.max(RULE_WEEKDAYS.indexOf(parts.WKST), 0) : 1,
+    unsupported,
+  };
+};
+
+/**
+ * @typedef {Object} ParsedEvent
+ * @property {string} [uid]
+ * @property {string} [summary]
+ * @property {CalendarTime} [start]
+ * @property {CalendarTime} [end]
+ * @property {number} [durationMinutes]
+ * @property {string} [status] - e.g. CANCELLED
+ * @property {boolean} [free] - TRANSP:TRANSPARENT, the event does not block time
+ * @property {RecurrenceRule} [rrule] - DTSTART is the first instance
+ * @property {CalendarTime[]} [exdates] - Instances left out of the rule
+ * @property {CalendarTime} [recurrenceId] - Set on a changed instance of a repeating event
+ */
+
+/**
+ * The VEVENTs of an iCalendar document. Components nested in events, such
+ * as VALARM, are ignored.
+ * @param {string} text
+ * @returns {ParsedEvent[]}
+ */
+const parseCalendar = (text) => {
+  const events = [];
+  let event = null;
+  let nested = 0;
+
+  unfold(text).forEach(line => {
+    const property = parseLine(line);
+    const component = property.value.toUpperCase();
+
+    if (property.name === 'BEGIN') {
+      if (event) nested++;
+      else if (component === 'VEVENT') event = {};
+      return;
+    }
+    if (property.name === 'END') {
+      if (event && nested > 0) nested--;
+      else if (event && component === 'VEVENT') {
+        events.push(event);
+        event = null;
+      }
+      return;
+    }
+    if (!event || nested > 0) return;
+
+    switch (property.name) {
+      case 'UID': event.uid = property.value; break;
+      case 'SUMMARY': event.summary = unescapeText(property.value); break;
+      case 'DTSTART': event.start = parseDateValue(property); break;
+      case 'DTEND': event.end = parseDateValue(property); break;
+      case 'DURATION': event.durationMinutes = parseDuration(property.value); break;
+      case 'STATUS': event.status = component; break;
+      case 'TRANSP': event.free = component === 'TRANSPARENT'; break;
+      case 'RRULE': event.rrule = parseRecurrenceRule(property.value); break;
+      case 'EXDATE':
+        event.exdates = [
+          ...(event.exdates || []),
+          ...property.value.split(',').map(value => parseDateValue({ ...property, value })).filter(Boolean),
+        ];
+        break;
+      case 'RECURRENCE-ID': event.recurrenceId = parseDateValue(property); break;
+      default: break;
+    }
+  });
+
+  return events;
+};
+
+module.exports = { escapeText, foldLine, renderCalendar, parseCalendar };
@@ -0,0 +1,97 @@
+// Outgoing mail goes through a transport, any object with
+// `send(message)` resolving once the message has been handed off.
+// MAIL_TRANSPORT picks one of the transports below; others are plugged in
+// with setMailTransport.
+
+const SEND_TIMEOUT_MS = 10000;
+
+/**
+ * @typedef {Object} MailMessage
+ * @property {string} to
+ * @property {string} subject
+ * @property {string} text - Plain-text body
+ */
+
+/**
+ * @typedef {Object} MailTransport
+ * @property {(message: MailMessage) => Promise<void>} send
+ */
+
+/**
+ * Prints messages to the server log. For development only: the log then
+ * holds whatever the messages contain.
+ * @type {MailTransport}
+ */
+const consoleTransport = {
+  send: async ({ to, subject, text }) => {
+    console.log(`Mail to ${to}: ${subject}\n${text}`);
+  },
+};
+
+/**
+ * Posts each message as JSON to a mail service, e.g. a provider's send API
+ * or a function in front of one.
+ * @param {string} url
+ * @param {string} [token] - Sent as a bearer token
+ * @returns {MailTransport}
+ */
+const httpTransport = (url, token) => ({
+  send: async (message) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+      body: JSON.stringify({ ...message, from: process.env.MAIL_FROM }),
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Mail service responded with ${response.status}`);
+    }
+  },
+});
+
+// Outside production mail falls back to the log; production must choose
+const transportFromEnv = () => {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV !== 'production' ? 'console' : null);
+  switch (kind) {
+    case null:
+      throw new Error('MAIL_TRANSPORT is required in production');
+    case 'console':
+      return consoleTransport;
+    case 'http':
+      if (!process.env.MAIL_HTTP_URL) {
+        throw new Error('MAIL_HTTP_URL is required for the http mail transport');
+      }
+      return httpTransport(process.env.MAIL_HTTP_URL, process.env.MAIL_HTTP_TOKEN);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+};
+
+/** @type {MailTransport | null} */
+let transport = null;
+
+/**
+ * Use `next` for all mail from now on; null goes back to MAIL_TRANSPORT.
+ * @param {MailTransport | null} next
+ */
+const setMailTransport = (next) => {
+  transport = next;
+};
+
+/**
+ * The transport mail goes through. Throws when MAIL_TRANSPORT is missing in
+ * production or names no transport.
+ * @returns {MailTransport}
+ */
+const mailTransport = () => {
+  transport = transport || transportFromEnv();
+  return transport;
+};
+
+/** @param {MailMessage} message */
+const sendMail = (message) => mailTransport().send(message);
+
+module.exports = { sendMail, mailTransport, setMailTransport, consoleTransport, httpTransport };
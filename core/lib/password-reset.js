@@ -0,0 +1,87 @@
+const bcrypt = require('bcryptjs');
+const crypto = require('crypto');
+const PasswordReset = require('../models/PasswordReset.js');
+const User = require('../models/User.js');
+const HttpError = require('./http-error.js');
+const { sendMail, mailTransport } = require('./mail.js');
+const { revokeAllSessions } = require('./sessions.js');
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 6;
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+// Short enough to paste into the app, which has no reset links
+const newResetToken = () => crypto.randomBytes(24).toString('base64url');
+
+const resetMessage = (email, token, appUrl) => ({
+  to: email,
+  subject: 'Reset your LifeSync password',
+  text: [
+    'Someone asked to reset the password of your LifeSync account.',
+    '',
+    `To choose a new password, open ${appUrl}/auth?reset=${encodeURIComponent(token)}`,
+    `or enter this code in the app: ${token}`,
+    '',
+    'The link works once and expires in an hour. If you did not ask for it, you can ignore this mail.',
+  ].join('\n'),
+});
+
+/**
+ * Mail a reset link to the account with this email, if there is one. Any
+ * earlier link that was not used stops working. Callers cannot tell
+ * whether the account exists.
+ * @param {string} email
+ * @param {string} appUrl - Origin of the web app the link opens
+ */
+const requestPasswordReset = async (email, appUrl) => {
+  // Mail that is not set up fails every request alike, before the lookup
+  mailTransport();
+
+  const user = await User.findOne({ email: email.trim().toLowerCase() });
+  if (!user) {
+    return;
+  }
+
+  await PasswordReset.deleteMany({ userId: user._id, usedAt: null });
+  const token = newResetToken();
+  await PasswordReset.create({
+    userId: user._id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+  });
+
+  try {
+    await sendMail(resetMessage(user.email, token, appUrl));
+  } catch (error) {
+    // Failing the request would tell that the account exists
+    console.error('Error sending password reset mail:', error);
+  }
+};
+
+/**
+ * Set a new password with the token of a reset link. Every session of the
+ * account is revoked, so devices have to sign in with the new password.
+ * @param {string} token
+ * @param {string} password
+ */
+const resetPassword = async (token, password) => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new HttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+  }
+
+  const reset = await PasswordReset.findOneAndUpdate(
+    { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: new Date() } },
+    { usedAt: new Date() },
+    { new: true }
+  );
+  const user = reset && await User.findById(reset.userId);
+  if (!user) {
+    throw new HttpError(400, 'This reset link is invalid or has expired');
+  }
+
+  user.password = await bcrypt.hash(password, 10);
+  await user.save();
+  await revokeAllSessions(user._id);
+};
+
+module.exports = { requestPasswordReset, resetPassword };
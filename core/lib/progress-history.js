@@ -0,0 +1,31 @@
+const ProgressEntry = require('../models/ProgressEntry.js');
+
+// The number a goal's history is tracked in: the counter for numeric and
+// habit goals, the percentage for milestones.
+const trackedValue = (goal) => {
+  if (goal.type === 'milestone') {
+    return goal.progress || 0;
+  }
+  return goal.currentValue || 0;
+};
+
+// Record a history entry after a goal has been saved. Nothing is written
+// when the value did not change and there is no note to keep.
+const recordProgress = async (goal, previousValue, { note = '', source = 'manual' } = {}) => {
+  const value = trackedValue(goal);
+  if (value === previousValue && !note) {
+    return null;
+  }
+
+  return ProgressEntry.create({
+    goalId: goal._id,
+    userId: goal.userId,
+    value,
+    delta: value - previousValue,
+    progress: goal.progress,
+    note,
+    source,
+  });
+};
+
+module.exports = { trackedValue, recordProgress };
@@ -0,0 +1,144 @@
+// Goal progress from completed schedule blocks.
+//
+// Completing a block linked to a goal checks off a habit for the block's
+// day, adds the goal's increment to a numeric goal, or adds the block's
+// minutes to a milestone's time invested. The block remembers what it
+// applied, so un-completing it takes back exactly that and never undoes a
+// check-off or change the user made themselves.
+
+const mongoose = require('mongoose');
+const Goal = require('../models/Goal.js');
+const ProgressEntry = require('../models/ProgressEntry.js');
+const { trackedValue, recordProgress } = require('./progress-history.js');
+const { toMinutes } = require('@lifesync/scheduling');
+
+const minutesOf = (block) => Math.max(toMinutes(block.endTime) - toMinutes(block.startTime), 0);
+
+const apply = (goal, block, date) => {
+  switch (goal.type) {
+    case 'habit':
+      if (goal.completions.includes(date)) return null;
+      goal.completions.push(date);
+      goal.currentValue = (goal.currentValue || 0) + 1;
+      return { kind: 'check-off', amount: 1 };
+    case 'numeric': {
+      const amount = goal.scheduleIncrement ?? 1;
+      if (amount === 0) return null;
+      goal.currentValue = (goal.currentValue || 0) + amount;
+      return { kind: 'increment', amount };
+    }
+    case 'milestone': {
+      const amount = minutesOf(block);
+      goal.minutesInvested = (goal.minutesInvested || 0) + amount;
+      return { kind: 'minutes', amount };
+    }
+    default:
+      return null;
+  }
+};
+
+const revert = (goal, applied, date) => {
+  switch (applied.kind) {
+    case 'check-off':
+      goal.completions = goal.completions.filter(day => day !== date);
+      goal.currentValue = Math.max((goal.currentValue || 0) - applied.amount, 0);
+      break;
+    case 'increment':
+      goal.currentValue = Math.max((goal.currentValue || 0) - applied.amount, 0);
+      break;
+    case 'minutes':
+      goal.minutesInvested = Math.max((goal.minutesInvested || 0) - applied.amount, 0);
+      break;
+    default:
+      break;
+  }
+};
+
+const describe = (applied, goal) => {
+  switch (applied.kind) {
+    case 'check-off': return 'checked off';
+    case 'increment': return `+${applied.amount}${goal.unit ? ` ${goal.unit}` : ''}`;
+    default: return `+${applied.amount} min invested`;
+  }
+};
+
+/**
+ * Apply or take back the goal progress of a block whose completion changed.
+ * Blocks without a goal, or whose goal no longer exists, change nothing.
+ * @param {string} userId
+ * @param {Object} block - The block before the change, with `progressApplied` if any
+ * @param {string} date - 'YYYY-MM-DD' day of the block
+ * @param {boolean} completed - The block's new state
+ * @returns {Promise<{ progressApplied: Object|undefined, goal: Object|null, entry: Object|null, snapshot: Object|null }>}
+ */
+const syncBlockProgress = async (userId, block, date, completed) => {
+  const unchanged = { progressApplied: block.progressApplied || undefined, goal: null, entry: null, snapshot: null };
+  if (!block.goalId || !mongoose.isValidObjectId(block.goalId)) return unchanged;
+  if (completed === Boolean(block.progressApplied)) return unchanged;
+
+  const goal = await Goal.findOne({ _id: block.goalId, userId });
+  if (!goal) return unchanged;
+
+  const snapshot = goal.toObject();
+  const previousValue = trackedValue(goal);
+  let progressApplied;
+  let note;
+
+  if (completed) {
+    progressApplied = apply(goal, block, date);
+    if (!progressApplied) return { ...unchanged, goal };
+    note = `Completed "${block.title}" on ${date}: ${describe(progressApplied, goal)}`;
+  } else {
+    revert(goal, block.progressApplied, date);
+    note = `Reopened "${block.title}" on ${date}`;
+  }
+
+  await goal.save();
+  const entry = await recordProgress(goal, previousValue, { source: 'schedule', note });
+
+  return { progressApplied, goal, entry, snapshot };
+};
+
+/**
+ * Put back the goal a syncBlockProgress call changed, for when the block
+ * change it was made for could not be saved.
+ * @param {{ snapshot: Object|null, entry: Object|null }} synced
+ */
+const undoBlockProgress = async ({ snapshot, entry }) => {
+  if (!snapshot) return;
+  await Goal.replaceOne({ _id: snapshot._id }, snapshot);
+  if (entry) {
+    await ProgressEntry.deleteOne({ _id: entry._id });
+  }
+};
+
+/**
+ * Take back the progress of blocks that are about to go away, then run
+ * `remove`. If anything fails the goals are put back, so progress is only
+ * taken back for blocks that are really gone.
+ * @param {string} userId
+ * @param {{ block: Object, date: string }[]} removed - Blocks with their day
+ * @param {() => Promise<*>} remove
+ * @returns {Promise<{ result: *, goals: Object[] }>} What `remove` returned and the goals changed
+ */
+const removeBlocksWithProgress = async (userId, removed, remove) => {
+  const reverted = [];
+
+  try {
+    // One at a time: several blocks can share a goal
+    for (const { block, date } of removed.filter(({ block }) => block.progressApplied)) {
+      reverted.push(await syncBlockProgress(userId, block, date, false));
+    }
+    const result = await remove();
+    // The last save of a goal shared by several blocks is the current one
+    const goals = new Map(reverted.filter(synced => synced.goal).map(synced => [String(synced.goal._id), synced.goal]));
+    return { result, goals: [...goals.values()] };
+  } catch (error) {
+    for (const synced of reverted.reverse()) {
+      await undoBlockProgress(synced);
+    }
+    throw error;
+  }
+};
+
+module.exports = { syncBlockProgress, undoBlockProgress, removeBlocksWithProgress };
@@ -0,0 +1,92 @@
+const crypto = require('crypto');
+const Session = require('../models/Session.js');
+const User = require('../models/User.js');
+const HttpError = require('./http-error.js');
+const { signToken } = require('./auth.js');
+
+// Every refresh pushes the end of the session back by this much
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Tabs or requests refreshing at the same moment may send the token a
+// refresh just replaced; only later reuse counts as a leak
+const REUSE_GRACE_MS = 30 * 1000;
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+const newRefreshToken = () => crypto.randomBytes(32).toString('hex');
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+
+const sessionEnded = () => new HttpError(401, 'Session expired. Please sign in again');
+
+/**
+ * Start a session for a user who just signed in.
+ * @param {Object} user
+ * @param {import('../types.js').CoreRequest} req
+ * @returns {Promise<{ token: string, refreshToken: string }>}
+ */
+const createSession = async (user, req) => {
+  const refreshToken = newRefreshToken();
+  const session = await Session.create({
+    userId: user._id,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: req.headers['user-agent'] || '',
+    expiresAt: refreshExpiry(),
+  });
+
+  return { token: signToken(user, session._id), refreshToken };
+};
+
+/**
+ * Trade a refresh token for a new access token and a new refresh token.
+ * The old refresh token stops working; sending it again later revokes the
+ * session, since then someone else has a copy.
+ * @param {string} refreshToken
+ */
+const rotateSession = async (refreshToken) => {
+  const hash = hashToken(refreshToken);
+  const nextToken = newRefreshToken();
+
+  const session = await Session.findOneAndUpdate(
+    { refreshTokenHash: hash, revokedAt: null, expiresAt: { $gt: new Date() } },
+    {
+      refreshTokenHash: hashToken(nextToken),
+      previousTokenHash: hash,
+      rotatedAt: new Date(),
+      expiresAt: refreshExpiry(),
+    },
+    { new: true }
+  );
+
+  if (!session) {
+    const replaced = await Session.findOne({ previousTokenHash: hash, revokedAt: null });
+    if (replaced && Date.now() - replaced.rotatedAt.getTime() > REUSE_GRACE_MS) {
+      replaced.revokedAt = new Date();
+      await replaced.save();
+    }
+    throw sessionEnded();
+  }
+
+  const user = await User.findById(session.userId);
+  if (!user) {
+    throw sessionEnded();
+  }
+
+  return { token: signToken(user, session._id), refreshToken: nextToken };
+};
+
+// Unknown or already revoked tokens are ignored, so signing out twice is fine
+const revokeSession = (refreshToken) => Session.updateOne(
+  { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+  { revokedAt: new Date() }
+);
+
+/**
+ * Sign a user out on every device. Access tokens already handed out stop
+ * working at once, since authenticate checks their session.
+ * @param {string} userId
+ * @returns {Promise<number>} How many sessions were revoked
+ */
+const revokeAllSessions = async (userId) => {
+  const result = await Session.updateMany({ userId, revokedAt: null }, { revokedAt: new Date() });
+  return result.modifiedCount;
+};
+
+module.exports = { createSession, rotateSession, revokeSession, revokeAllSessions };
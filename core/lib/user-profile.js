@@ -0,0 +1,14 @@
+const UserProfile = require('../models/UserProfile.js');
+
+/**
+ * The user's profile, created with default preferences the first time it
+ * is needed.
+ * @param {string} userId
+ */
+const findOrCreateProfile = (userId) => UserProfile.findOneAndUpdate(
+  { userId },
+  { $setOnInsert: { userId } },
+  { upsert: true, new: true, setDefaultsOnInsert: true }
+);
+
+module.exports = { findOrCreateProfile };
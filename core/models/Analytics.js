@@ -0,0 +1,72 @@
+const mongoose = require('mongoose');
+
+const percent = { type: Number, min: 0, max: 100, default: 0 };
+
+// Average progress of the user's goals in each category
+const categoryProgressSchema = new mongoose.Schema({
+  physical: percent,
+  mental: percent,
+  financial: percent,
+  social: percent,
+}, {
+  _id: false,
+});
+
+// The day's schedule as summarizeBlocks counts it, recurring blocks included
+const scheduleSummarySchema = new mongoose.Schema({
+  total: { type: Number, default: 0 },
+  completed: { type: Number, default: 0 },
+  plannedMinutes: { type: Number, default: 0 },
+  completedMinutes: { type: Number, default: 0 },
+}, {
+  _id: false,
+});
+
+// One user's figures for one day, written by the analytics snapshot job
+const analyticsSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  date: {
+    type: String,
+    required: true,
+    match: /^\d{4}-\d{2}-\d{2}$/,
+  },
+  categoryProgress: {
+    type: categoryProgressSchema,
+    default: () => ({}),
+  },
+  completedGoals: {
+    type: Number,
+    default: 0,
+  },
+  totalGoals: {
+    type: Number,
+    default: 0,
+  },
+  // Average mood of the day's check-ins from 1 (struggling) to 4 (great);
+  // null without check-ins
+  moodScore: {
+    type: Number,
+    min: 1,
+    max: 4,
+    default: null,
+  },
+  checkIns: {
+    type: Number,
+    default: 0,
+  },
+  schedule: {
+    type: scheduleSummarySchema,
+    default: () => ({}),
+  },
+}, {
+  timestamps: true,
+});
+
+analyticsSchema.index({ userId: 1, date: 1 }, { unique: true });
+
+module.exports = mongoose.models.Analytics
+  || mongoose.model('Analytics', analyticsSchema, 'analytics');
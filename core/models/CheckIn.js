@@ -0,0 +1,81 @@
+const mongoose = require('mongoose');
+
+// Goals ticked in a check-in, with the title they had at the time so the
+// history still reads well after a goal is renamed or deleted
+const checkInGoalSchema = new mongoose.Schema({
+  goalId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Goal',
+    required: true,
+  },
+  title: {
+    type: String,
+    required: true,
+  },
+  category: String,
+}, {
+  _id: false,
+});
+
+// Progress a check-in applied to a goal: a check-off for habits, an amount
+// added for numeric goals, percentage points for milestones
+const checkInProgressSchema = new mongoose.Schema({
+  goalId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Goal',
+    required: true,
+  },
+  kind: {
+    type: String,
+    enum: ['check-off', 'increment', 'percent'],
+    required: true,
+  },
+  // What was actually added, after clamping and skipping done check-offs
+  amount: {
+    type: Number,
+    required: true,
+  },
+  // The goal's progress percentage afterwards
+  progress: Number,
+}, {
+  _id: false,
+});
+
+const checkInSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  // The user's local day, used for date range queries
+  date: {
+    type: String,
+    required: true,
+    match: /^\d{4}-\d{2}-\d{2}$/,
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now,
+  },
+  mood: {
+    type: String,
+    enum: ['great', 'good', 'okay', 'struggling'],
+    required: true,
+  },
+  notes: {
+    type: String,
+    default: '',
+    trim: true,
+  },
+  // Ids of the goals the user made progress on
+  completedTasks: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Goal',
+  }],
+  goals: [checkInGoalSchema],
+  goalProgress: [checkInProgressSchema],
+});
+
+checkInSchema.index({ userId: 1, date: -1, timestamp: -1 });
+
+module.exports = mongoose.models.CheckIn || mongoose.model('CheckIn', checkInSchema);
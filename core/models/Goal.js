@@ -0,0 +1,183 @@
+const mongoose = require('mongoose');
+
+const actionItemSchema = new mongoose.Schema({
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  completed: {
+    type: Boolean,
+    default: false,
+  },
+  completedAt: {
+    type: Date,
+  },
+  dueDate: {
+    type: Date,
+  },
+  priority: {
+    type: String,
+    enum: ['high', 'medium', 'low'],
+    default: 'medium',
+  },
+}, {
+  timestamps: true,
+});
+
+// Expose `id` alongside `_id` so clients can use the ActionItem type as-is
+actionItemSchema.set('toJSON', { virtuals: true });
+
+const goalSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  // Set by clients that create goals offline, so replaying the create
+  // returns the goal made the first time
+  clientId: {
+    type: String,
+    trim: true,
+  },
+  category: {
+    type: String,
+    enum: ['physical', 'mental', 'financial', 'social'],
+    required: true,
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+    default: '',
+    trim: true,
+  },
+  type: {
+    type: String,
+    enum: ['milestone', 'numeric', 'habit'],
+    required: true,
+  },
+  priority: {
+    type: String,
+    enum: ['high', 'medium', 'low'],
+    default: 'medium',
+  },
+  progress: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 100,
+  },
+  targetValue: {
+    type: Number,
+    required: function() {
+      return this.type === 'numeric' || this.type === 'habit';
+    },
+  },
+  currentValue: {
+    type: Number,
+    default: 0,
+  },
+  unit: {
+    type: String,
+    default: '',
+  },
+  // Numeric goals: added to currentValue for each completed schedule block
+  scheduleIncrement: {
+    type: Number,
+    min: 0,
+    default: 1,
+  },
+  // Milestones: minutes of completed schedule blocks spent on the goal
+  minutesInvested: {
+    type: Number,
+    min: 0,
+    default: 0,
+  },
+  // Habit goals only: how often the habit should be done and the days it was
+  frequency: {
+    period: {
+      type: String,
+      enum: ['daily', 'weekdays', 'weekly'],
+      default: 'daily',
+    },
+    timesPerWeek: {
+      type: Number,
+      min: 1,
+      max: 7,
+      default: 1,
+    },
+  },
+  completions: [{
+    type: String,
+    match: /^\d{4}-\d{2}-\d{2}$/,
+  }],
+  dueDate: {
+    type: Date,
+  },
+  actionItems: [actionItemSchema],
+  completed: {
+    type: Boolean,
+    default: false,
+  },
+  completedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Update progress automatically for numeric and habit goals
+goalSchema.pre('save', function(next) {
+  if (this.type === 'numeric' || this.type === 'habit') {
+    if (this.targetValue && this.targetValue > 0) {
+      this.progress = Math.min(Math.round((this.currentValue / this.targetValue) * 100), 100);
+
+      // Taking progress back below the target reopens the goal
+      if (this.progress < 100 && this.completed) {
+        this.completed = false;
+        this.completedAt = undefined;
+      }
+    }
+  }
+
+  // Milestones with action items progress by the share of items done
+  if (this.type === 'milestone' && this.actionItems.length > 0) {
+    const done = this.actionItems.filter(item => item.completed).length;
+    this.progress = Math.round((done / this.actionItems.length) * 100);
+
+    // Reopening an item reopens the goal
+    if (this.progress < 100 && this.completed) {
+      this.completed = false;
+      this.completedAt = undefined;
+    }
+  }
+  
+  // Mark as completed if progress reaches 100
+  if (this.progress >= 100 && !this.completed) {
+    this.completed = true;
+    this.completedAt = new Date();
+  }
+  
+  this.updatedAt = new Date();
+  next();
+});
+
+// Add index for efficient queries
+goalSchema.index({ userId: 1, category: 1 });
+goalSchema.index({ userId: 1, completed: 1 });
+goalSchema.index(
+  { userId: 1, clientId: 1 },
+  { unique: true, partialFilterExpression: { clientId: { $type: 'string' } } }
+);
+
+module.exports = mongoose.models.Goal || mongoose.model('Goal', goalSchema);
\ No newline at end of file
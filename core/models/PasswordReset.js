@@ -0,0 +1,33 @@
+const mongoose = require('mongoose');
+
+// A password reset link sent by mail. Only the hash of its token is
+// stored, and a token works once.
+const passwordResetSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  usedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+passwordResetSchema.index({ userId: 1 });
+// MongoDB removes resets once they have expired
+passwordResetSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.models.PasswordReset || mongoose.model('PasswordReset', passwordResetSchema);
@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+
+const progressEntrySchema = new mongoose.Schema({
+  goalId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Goal',
+    required: true,
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  // currentValue for numeric/habit goals, progress percentage for milestones
+  value: {
+    type: Number,
+    required: true,
+  },
+  delta: {
+    type: Number,
+    default: 0,
+  },
+  progress: {
+    type: Number,
+    min: 0,
+    max: 100,
+  },
+  note: {
+    type: String,
+    default: '',
+    trim: true,
+  },
+  source: {
+    type: String,
+    enum: ['manual', 'edit', 'check-off', 'action-items', 'schedule', 'check-in'],
+    default: 'manual',
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+progressEntrySchema.index({ goalId: 1, timestamp: -1 });
+
+module.exports = mongoose.models.ProgressEntry || mongoose.model('ProgressEntry', progressEntrySchema);
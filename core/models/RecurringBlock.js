@@ -0,0 +1,96 @@
+const mongoose = require('mongoose');
+const { CATEGORIES, RECURRENCE_FREQUENCIES } = require('@lifesync/scheduling');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Changes to a single occurrence, keyed by its day
+const occurrenceOverrideSchema = new mongoose.Schema({
+  date: {
+    type: String,
+    required: true,
+    match: DATE_PATTERN,
+  },
+  title: String,
+  category: {
+    type: String,
+    enum: CATEGORIES,
+  },
+  startTime: String,
+  endTime: String,
+  completed: Boolean,
+  // Goal progress this occurrence applied when it was completed
+  progressApplied: {
+    type: new mongoose.Schema({
+      kind: String,
+      amount: Number,
+    }, { _id: false }),
+  },
+}, {
+  _id: false,
+});
+
+// A block stored once and expanded into every day its rule matches
+const recurringBlockSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  category: {
+    type: String,
+    enum: CATEGORIES,
+    required: true,
+  },
+  startTime: {
+    type: String,
+    required: true,
+  },
+  endTime: {
+    type: String,
+    required: true,
+  },
+  goalId: {
+    type: String,
+  },
+  rule: {
+    frequency: {
+      type: String,
+      enum: RECURRENCE_FREQUENCIES,
+      required: true,
+    },
+    daysOfWeek: [{
+      type: Number,
+      min: 0,
+      max: 6,
+    }],
+    interval: {
+      type: Number,
+      min: 1,
+      default: 1,
+    },
+    startDate: {
+      type: String,
+      required: true,
+      match: DATE_PATTERN,
+    },
+    until: {
+      type: String,
+      match: DATE_PATTERN,
+    },
+  },
+  // Days whose occurrence was skipped
+  exceptions: [{
+    type: String,
+    match: DATE_PATTERN,
+  }],
+  overrides: [occurrenceOverrideSchema],
+}, {
+  timestamps: true,
+});
+
+module.exports = mongoose.models.RecurringBlock || mongoose.model('RecurringBlock', recurringBlockSchema);
@@ -1,5 +1,18 @@
 const mongoose = require('mongoose');
 
+// Goal progress a completed block applied, so un-completing can take it back
+const progressAppliedSchema = new mongoose.Schema({
+  kind: {
+    type: String,
+    enum: ['check-off', 'increment', 'minutes'],
+    required: true,
+  },
+  amount: {
+    type: Number,
+    required: true,
+  },
+}, { _id: false });
+
 const scheduleBlockSchema = new mongoose.Schema({
   id: {
     type: String,
@@ -34,6 +47,22 @@ const scheduleBlockSchema = new mongoose.Schema({
     type: Boolean,
     default: false,
   },
+  // Set by the generator: commitments it planned around, and why it placed
+  // a goal's block where it did
+  fixed: {
+    type: Boolean,
+    default: false,
+  },
+  reason: {
+    type: String,
+  },
+  progressApplied: {
+    type: progressAppliedSchema,
+  },
+  // UID of the calendar event an imported busy block came from
+  externalUid: {
+    type: String,
+  },
 });
 
 const scheduleSchema = new mongoose.Schema({
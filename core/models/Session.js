@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+
+// A signed-in device. Only hashes of its refresh token are stored; the
+// token changes on every refresh.
+const sessionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  // The token replaced by the last refresh. Presenting it again means it
+  // leaked, so the session is revoked.
+  previousTokenHash: {
+    type: String,
+  },
+  rotatedAt: {
+    type: Date,
+  },
+  userAgent: {
+    type: String,
+    default: '',
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  revokedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+sessionSchema.index({ userId: 1 });
+sessionSchema.index({ previousTokenHash: 1 }, { sparse: true });
+// MongoDB removes sessions once they have expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.models.Session || mongoose.model('Session', sessionSchema);
@@ -16,6 +16,12 @@ const userSchema = new mongoose.Schema({
     type: Date,
     default: Date.now,
   },
+  // Secret part of the user's calendar subscription URL
+  calendarFeedToken: {
+    type: String,
+    unique: true,
+    sparse: true,
+  },
 });
 
-module.exports = mongoose.model('User', userSchema);
\ No newline at end of file
+module.exports = mongoose.models.User || mongoose.model('User', userSchema);
\ No newline at end of file
@@ -0,0 +1,83 @@
+const mongoose = require('mongoose');
+const { DEFAULT_CHECK_IN_SETTINGS, DEFAULT_PREFERENCES, isValidTime } = require('@lifesync/scheduling');
+
+const timeField = (defaultValue) => ({
+  type: String,
+  default: defaultValue,
+  validate: {
+    validator: isValidTime,
+    message: '{PATH} must be a 24-hour HH:mm time',
+  },
+});
+
+const THEMES = ['light', 'dark', 'system'];
+
+const enabledByDefault = { type: Boolean, default: true };
+
+const preferencesSchema = new mongoose.Schema({
+  // The planner fills the day between these times
+  wakeUpTime: timeField(DEFAULT_PREFERENCES.wakeTime),
+  sleepTime: timeField(DEFAULT_PREFERENCES.sleepTime),
+  // Minutes between check-in prompts
+  checkInFrequency: {
+    type: Number,
+    min: 15,
+    max: 24 * 60,
+    default: DEFAULT_CHECK_IN_SETTINGS.checkInFrequency,
+  },
+  // No check-in prompts from start to end, which may run past midnight
+  quietHours: {
+    start: timeField(DEFAULT_CHECK_IN_SETTINGS.quietHours.start),
+    end: timeField(DEFAULT_CHECK_IN_SETTINGS.quietHours.end),
+  },
+  notifications: {
+    enabled: enabledByDefault,
+    checkInReminders: enabledByDefault,
+    goalDeadlines: enabledByDefault,
+    dailyProgress: enabledByDefault,
+  },
+  theme: {
+    type: String,
+    enum: THEMES,
+    default: 'system',
+  },
+}, {
+  _id: false,
+});
+
+const userProfileSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true,
+  },
+  // What the user wrote when signing up about where they want to go and
+  // what they have already done
+  goals: {
+    type: String,
+    trim: true,
+    maxlength: 2000,
+    default: '',
+  },
+  achievements: {
+    type: String,
+    trim: true,
+    maxlength: 2000,
+    default: '',
+  },
+  preferences: {
+    type: preferencesSchema,
+    default: () => ({}),
+  },
+  // Check-in prompts wait until then on every device
+  checkInSnoozedUntil: {
+    type: Date,
+  },
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+});
+
+module.exports = mongoose.models.UserProfile
+  || mongoose.model('UserProfile', userProfileSchema, 'userProfiles');
@@ -0,0 +1,75 @@
+const auth = require('./handlers/auth.js');
+const schedule = require('./handlers/schedule.js');
+const goals = require('./handlers/goals.js');
+const recurring = require('./handlers/recurring.js');
+const calendar = require('./handlers/calendar.js');
+const checkins = require('./handlers/checkins.js');
+const profile = require('./handlers/profile.js');
+const analytics = require('./handlers/analytics.js');
+
+/**
+ * Every API endpoint, mounted below /api by both adapters.
+ * @type {import('./types.js').Route[]}
+ */
+const routes = [
+  { method: 'POST', path: '/auth/register', handler: auth.register },
+  { method: 'POST', path: '/auth/login', handler: auth.login },
+  { method: 'GET', path: '/auth/user', handler: auth.getUser, auth: true },
+  // Identified by the refresh token, so they work after the access token expired
+  { method: 'POST', path: '/auth/refresh', handler: auth.refresh },
+  { method: 'POST', path: '/auth/logout', handler: auth.logout },
+  { method: 'POST', path: '/auth/logout-all', handler: auth.logoutAll, auth: true },
+  { method: 'POST', path: '/auth/forgot-password', handler: auth.forgotPassword },
+  { method: 'POST', path: '/auth/reset-password', handler: auth.resetPassword },
+
+  { method: 'GET', path: '/profile', handler: profile.getProfile, auth: true },
+  { method: 'PUT', path: '/profile', handler: profile.updateProfile, auth: true },
+
+  { method: 'GET', path: '/schedule', handler: schedule.listSchedules, auth: true },
+  { method: 'POST', path: '/schedule', handler: schedule.saveSchedule, auth: true },
+  { method: 'PUT', path: '/schedule', handler: schedule.updateBlock, auth: true },
+  { method: 'DELETE', path: '/schedule', handler: schedule.deleteBlock, auth: true },
+  { method: 'POST', path: '/schedule/generate', handler: schedule.generateSchedule, auth: true },
+  { method: 'GET', path: '/schedule/recurring', handler: recurring.listRecurringBlocks, auth: true },
+  { method: 'POST', path: '/schedule/recurring', handler: recurring.createRecurringBlock, auth: true },
+  { method: 'PUT', path: '/schedule/recurring/:id', handler: recurring.updateRecurringBlock, auth: true },
+  { method: 'DELETE', path: '/schedule/recurring/:id', handler: recurring.deleteRecurringBlock, auth: true },
+  { method: 'PUT', path: '/schedule/recurring/:id/occurrences/:date', handler: recurring.updateOccurrence, auth: true },
+  { method: 'DELETE', path: '/schedule/recurring/:id/occurrences/:date', handler: recurring.skipOccurrence, auth: true },
+  // After the static /schedule/* paths so Express does not read them as dates
+  { method: 'GET', path: '/schedule/:date', handler: schedule.getSchedule, auth: true },
+
+  { method: 'GET', path: '/calendar/export', handler: calendar.exportCalendar, auth: true },
+  { method: 'POST', path: '/calendar/import', handler: calendar.importCalendar, auth: true },
+  { method: 'GET', path: '/calendar/feed', handler: calendar.getFeed, auth: true },
+  { method: 'POST', path: '/calendar/feed', handler: calendar.resetFeed, auth: true },
+  { method: 'GET', path: '/calendar/feed/:token', handler: calendar.getFeedCalendar },
+
+  { method: 'GET', path: '/checkins', handler: checkins.listCheckIns, auth: true },
+  { method: 'POST', path: '/checkins', handler: checkins.createCheckIn, auth: true },
+  { method: 'GET', path: '/checkins/status', handler: checkins.getCheckInStatus, auth: true },
+  { method: 'PUT', path: '/checkins/settings', handler: checkins.updateCheckInSettings, auth: true },
+  { method: 'POST', path: '/checkins/snooze', handler: checkins.snoozeCheckIns, auth: true },
+  { method: 'DELETE', path: '/checkins/:id', handler: checkins.deleteCheckIn, auth: true },
+
+  { method: 'GET', path: '/analytics', handler: analytics.getAnalytics, auth: true },
+  // Called by the scheduler, which authenticates with CRON_SECRET instead
+  { method: 'GET', path: '/analytics/snapshot', handler: analytics.runSnapshots },
+
+  { method: 'GET', path: '/goals', handler: goals.listGoals, auth: true },
+  { method: 'POST', path: '/goals', handler: goals.createGoal, auth: true },
+  { method: 'GET', path: '/goals/:id', handler: goals.getGoal, auth: true },
+  { method: 'PUT', path: '/goals/:id', handler: goals.updateGoal, auth: true },
+  { method: 'DELETE', path: '/goals/:id', handler: goals.deleteGoal, auth: true },
+  { method: 'GET', path: '/goals/:id/progress', handler: goals.getProgress, auth: true },
+  { method: 'PUT', path: '/goals/:id/progress', handler: goals.updateProgress, auth: true },
+  { method: 'GET', path: '/goals/:id/check-off', handler: goals.getCheckOffs, auth: true },
+  { method: 'POST', path: '/goals/:id/check-off', handler: goals.checkOff, auth: true },
+  { method: 'DELETE', path: '/goals/:id/check-off', handler: goals.uncheckOff, auth: true },
+  { method: 'GET', path: '/goals/:id/action-items', handler: goals.listActionItems, auth: true },
+  { method: 'POST', path: '/goals/:id/action-items', handler: goals.createActionItem, auth: true },
+  { method: 'PUT', path: '/goals/:id/action-items/:itemId', handler: goals.updateActionItem, auth: true },
+  { method: 'DELETE', path: '/goals/:id/action-items/:itemId', handler: goals.deleteActionItem, auth: true },
+];
+
+module.exports = routes;
@@ -0,0 +1,39 @@
+const connectDB = require('./lib/db.js');
+const HttpError = require('./lib/http-error.js');
+const { authenticate } = require('./lib/auth.js');
+
+/** @typedef {import('./types.js').CoreRequest} CoreRequest */
+/** @typedef {import('./types.js').CoreResponse} CoreResponse */
+
+/**
+ * Run a route's handler for a request both adapters have normalised.
+ * Never throws: errors become error responses.
+ * @param {import('./types.js').Route} route
+ * @param {CoreRequest} req
+ * @returns {Promise<CoreResponse>}
+ */
+const runRoute = async (route, req) => {
+  try {
+    await connectDB();
+    // Checking a token looks up its session
+    if (route.auth) {
+      Object.assign(req, await authenticate(req));
+    }
+
+    return await route.handler(req);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return { status: error.status, body: { error: error.message, ...error.details } };
+    }
+
+    // Bad input that only the model catches, e.g. a missing required field
+    if (error.name === 'ValidationError' || error.name === 'CastError') {
+      return { status: 400, body: { error: error.message } };
+    }
+
+    console.error(`${req.method} ${route.path} error:`, error);
+    return { status: 500, body: { error: 'Server error' } };
+  }
+};
+
+module.exports = runRoute;
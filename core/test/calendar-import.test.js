@@ -0,0 +1,38 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { busyBlocksFrom } = require('../lib/calendar-import.js');
+
+const calendar = (...events) => [
+  'BEGIN:VCALENDAR',
+  ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+  'END:VCALENDAR',
+].join('\r\n');
+
+const datesOf = (text, window) =>
+  busyBlocksFrom(text, { timeZone: 'UTC', from: '2026-10-19', to: '2026-11-01', ...window }).blocks
+    .map(({ date }) => date);
+
+test('a rule that started decades ago finds its instances in the window', () => {
+  const text = calendar([
+    'UID:standup',
+    'SUMMARY:Standup',
+    'DTSTART:19700105T090000Z',
+    'DTEND:19700105T091500Z',
+    'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH',
+  ]);
+
+  // 1970-01-05 and 2026-10-26 are both Mondays, 2964 weeks apart
+  assert.deepEqual(datesOf(text), ['2026-10-26', '2026-10-29']);
+});
+
+test('COUNT still counts from DTSTART', () => {
+  const text = calendar([
+    'UID:course',
+    'SUMMARY:Course',
+    'DTSTART:20261012T180000Z',
+    'DTEND:20261012T190000Z',
+    'RRULE:FREQ=DAILY;COUNT=10',
+  ]);
+
+  assert.deepEqual(datesOf(text), ['2026-10-19', '2026-10-20', '2026-10-21']);
+});
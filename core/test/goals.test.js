@@ -0,0 +1,61 @@
+const { test, mock, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const Goal = require('../models/Goal.js');
+const ProgressEntry = require('../models/ProgressEntry.js');
+const { updateGoal } = require('../handlers/goals.js');
+
+const userId = new mongoose.Types.ObjectId();
+
+// A stored goal the handlers load and save in memory
+const storedGoal = (fields) => {
+  const goal = Goal.hydrate({
+    _id: new mongoose.Types.ObjectId(),
+    userId,
+    category: 'physical',
+    title: 'Stretch',
+    completed: false,
+    actionItems: [],
+    completions: [],
+    ...fields,
+  });
+  mock.method(Goal, 'findOne', async () => goal);
+  mock.method(goal, 'save', async () => goal);
+  mock.method(ProgressEntry, 'create', async (entry) => entry);
+  return goal;
+};
+
+const edit = (goal, body) => updateGoal({ userId, params: { id: String(goal._id) }, query: {}, body });
+
+afterEach(() => mock.restoreAll());
+
+test('a habit changed to numeric and back does not get its old check-offs back', async () => {
+  const goal = storedGoal({
+    type: 'habit',
+    targetValue: 10,
+    currentValue: 2,
+    completions: ['2026-10-17', '2026-10-18'],
+  });
+
+  await edit(goal, { type: 'numeric', currentValue: 0, unit: 'km', completions: ['2026-10-17'] });
+  assert.deepEqual([...goal.completions], []);
+
+  const { body } = await edit(goal, { type: 'habit', currentValue: 0, unit: null });
+  assert.deepEqual([...goal.completions], []);
+  assert.equal(body.goal.habitStats.totalCompletions, 0);
+  assert.equal(goal.currentValue, 0);
+  assert.equal(goal.unit, undefined);
+});
+
+test('an edit that keeps the type keeps the check-offs', async () => {
+  const goal = storedGoal({
+    type: 'habit',
+    targetValue: 10,
+    currentValue: 1,
+    completions: ['2026-10-18'],
+  });
+
+  await edit(goal, { type: 'habit', title: 'Stretch daily' });
+  assert.deepEqual([...goal.completions], ['2026-10-18']);
+  assert.equal(goal.title, 'Stretch daily');
+});
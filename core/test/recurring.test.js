@@ -0,0 +1,52 @@
+const { test, mock, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const RecurringBlock = require('../models/RecurringBlock.js');
+const { updateRecurringBlock } = require('../handlers/recurring.js');
+
+const userId = new mongoose.Types.ObjectId();
+const goalId = new mongoose.Types.ObjectId();
+
+// A stored series linked to a goal, loaded and saved in memory
+const storedSeries = (overrides) => {
+  const series = RecurringBlock.hydrate({
+    _id: new mongoose.Types.ObjectId(),
+    userId,
+    title: 'Run',
+    category: 'physical',
+    startTime: '07:00',
+    endTime: '07:30',
+    goalId,
+    rule: { frequency: 'daily' },
+    exceptions: [],
+    overrides,
+  });
+  mock.method(RecurringBlock, 'findOne', async () => series);
+  mock.method(series, 'save', async () => series);
+  return series;
+};
+
+const edit = (series, body) => updateRecurringBlock({ userId, params: { id: String(series._id) }, body });
+
+afterEach(() => mock.restoreAll());
+
+test('a series whose occurrences gave progress keeps its goal', async () => {
+  const series = storedSeries([
+    { date: '2026-10-18', completed: true, progressApplied: { kind: 'increment', amount: 1 } },
+  ]);
+
+  await assert.rejects(edit(series, { goalId: String(new mongoose.Types.ObjectId()) }), { status: 409 });
+  await assert.rejects(edit(series, { goalId: null }), { status: 409 });
+  assert.equal(String(series.goalId), String(goalId));
+
+  await edit(series, { goalId: String(goalId), title: 'Morning run' });
+  assert.equal(series.title, 'Morning run');
+});
+
+test('a series without completed occurrences can move to another goal', async () => {
+  const series = storedSeries([{ date: '2026-10-18', title: 'Long run' }]);
+  const otherGoalId = new mongoose.Types.ObjectId();
+
+  await edit(series, { goalId: String(otherGoalId) });
+  assert.equal(String(series.goalId), String(otherGoalId));
+});
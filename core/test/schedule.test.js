@@ -0,0 +1,72 @@
+const { test, mock, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const Schedule = require('../models/Schedule.js');
+const RecurringBlock = require('../models/RecurringBlock.js');
+const UserProfile = require('../models/UserProfile.js');
+const { generateSchedule } = require('../handlers/schedule.js');
+
+const userId = new mongoose.Types.ObjectId();
+const date = '2026-10-20';
+
+const goals = [
+  { id: 'run', title: 'Run 5K', category: 'physical', priority: 'high' },
+  { id: 'read', title: 'Read', category: 'mental', priority: 'medium' },
+];
+
+// A stored day; saving it again hands back what was written
+const storedDay = (blocks) => {
+  const schedule = Schedule.hydrate({ _id: new mongoose.Types.ObjectId(), userId, date, blocks });
+  const saved = [];
+  mock.method(Schedule, 'findOne', async () => schedule);
+  mock.method(Schedule, 'findOneAndUpdate', async (filter, update) => {
+    saved.push(update);
+    return new Schedule(update);
+  });
+  mock.method(RecurringBlock, 'find', async () => []);
+  mock.method(UserProfile, 'findOneAndUpdate', async () => ({
+    preferences: { wakeUpTime: '07:00', sleepTime: '22:00' },
+  }));
+  return saved;
+};
+
+afterEach(() => mock.restoreAll());
+
+test('regenerating a day keeps a completed goal block and does not plan its goal again', async () => {
+  const completed = {
+    id: 'goal-run',
+    title: 'Run 5K',
+    category: 'physical',
+    startTime: '07:30',
+    endTime: '08:30',
+    completed: true,
+    goalId: 'run',
+    progressApplied: { kind: 'increment', amount: 1 },
+  };
+  const saved = storedDay([completed]);
+
+  const { body } = await generateSchedule({ userId, body: { date, goals } });
+
+  const { blocks } = saved[0];
+  const ids = blocks.map(block => block.id);
+  assert.deepEqual(ids, [...new Set(ids)]);
+  const runs = blocks.filter(block => block.goalId === 'run');
+  assert.equal(runs.length, 1);
+  assert.equal(runs[0].startTime, '07:30');
+  assert.equal(runs[0].completed, true);
+  assert.deepEqual(runs[0].progressApplied, completed.progressApplied);
+  assert.equal(blocks.filter(block => block.goalId === 'read').length, 1);
+  assert.deepEqual(body.unscheduled, []);
+});
+
+test('regenerating a day replans goals whose blocks are still open', async () => {
+  const saved = storedDay([
+    { id: 'goal-run', title: 'Run 5K', category: 'physical', startTime: '12:00', endTime: '13:00', completed: false, goalId: 'run' },
+  ]);
+
+  await generateSchedule({ userId, body: { date, goals } });
+
+  const runs = saved[0].blocks.filter(block => block.goalId === 'run');
+  assert.equal(runs.length, 1);
+  assert.equal(runs[0].completed, false);
+});
@@ -0,0 +1,37 @@
+// Shapes shared by the handlers and the adapters. Handlers never see the
+// transport's own request/response objects, only these.
+
+/**
+ * @typedef {Object} CoreRequest
+ * @property {string} method - Upper-case HTTP method
+ * @property {Object<string, string>} params - Path parameters, e.g. `id` in /goals/:id
+ * @property {Object<string, string>} query - Query string values
+ * @property {Object<string, string>} headers - Lower-case request headers
+ * @property {any} body - Parsed JSON body, `{}` when there is none
+ * @property {string} [userId] - Set by the adapter on routes that require auth
+ * @property {string} [userEmail]
+ * @property {string} [sessionId] - Session the request's access token belongs to
+ */
+
+/**
+ * @typedef {Object} CoreResponse
+ * @property {number} status
+ * @property {any} body - Sent as JSON, or as is when it is a string
+ * @property {Object<string, string>} [headers] - Extra response headers, e.g. Content-Type for string bodies
+ */
+
+/**
+ * @callback Handler
+ * @param {CoreRequest} req
+ * @returns {Promise<CoreResponse>}
+ */
+
+/**
+ * @typedef {Object} Route
+ * @property {'GET'|'POST'|'PUT'|'DELETE'} method
+ * @property {string} path - Express-style path below /api, e.g. /goals/:id
+ * @property {Handler} handler
+ * @property {boolean} [auth] - Whether the request needs a valid token
+ */
+
+module.exports = {};
@@ -1,13 +1,16 @@
 import React from 'react';
 import { AuthProvider } from './app/contexts/AuthContext-mongodb';
+import { SyncProvider } from './app/contexts/SyncContext';
 import { AppNavigator } from './app/navigation/AppNavigator';
 import { StatusBar } from 'expo-status-bar';
 
 export default function App() {
   return (
     <AuthProvider>
-      <StatusBar style="auto" />
-      <AppNavigator />
+      <SyncProvider>
+        <StatusBar style="auto" />
+        <AppNavigator />
+      </SyncProvider>
     </AuthProvider>
   );
 }
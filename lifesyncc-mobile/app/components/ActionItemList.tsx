@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ActionItem } from '../../shared/types';
+
+interface ActionItemListProps {
+  items: ActionItem[];
+  color: string;
+  onAdd: (title: string) => Promise<void>;
+  onUpdate: (itemId: string, updates: Partial<ActionItem>) => Promise<void>;
+  onDelete: (itemId: string) => Promise<void>;
+}
+
+export const ActionItemList: React.FC<ActionItemListProps> = ({
+  items,
+  color,
+  onAdd,
+  onUpdate,
+  onDelete,
+}) => {
+  const [newTitle, setNewTitle] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const handleAdd = async () => {
+    if (!newTitle.trim()) return;
+    await onAdd(newTitle.trim());
+    setNewTitle('');
+  };
+
+  const saveEditing = async () => {
+    const item = items.find(i => i.id === editingId);
+    setEditingId(null);
+    if (item && editingTitle.trim() && editingTitle.trim() !== item.title) {
+      await onUpdate(item.id, { title: editingTitle.trim() });
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {items.map((item) => (
+        <View key={item.id} style={styles.item}>
+          <TouchableOpacity onPress={() => onUpdate(item.id, { completed: !item.completed })}>
+            <Ionicons
+              name={item.completed ? 'checkbox' : 'square-outline'}
+              size={20}
+              color={item.completed ? color : '#9ca3af'}
+            />
+          </TouchableOpacity>
+          {editingId === item.id ? (
+            <TextInput
+              style={[styles.title, styles.editInput]}
+              value={editingTitle}
+              onChangeText={setEditingTitle}
+              onSubmitEditing={saveEditing}
+              onBlur={saveEditing}
+              autoFocus
+            />
+          ) : (
+            <Text
+              style={[styles.title, item.completed && styles.completedTitle]}
+              onPress={() => {
+                setEditingId(item.id);
+                setEditingTitle(item.title);
+              }}
+            >
+              {item.title}
+            </Text>
+          )}
+          <TouchableOpacity onPress={() => onDelete(item.id)} style={styles.deleteButton}>
+            <Ionicons name="close" size={16} color="#9ca3af" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.item}>
+        <Ionicons name="add" size={20} color="#9ca3af" />
+        <TextInput
+          style={[styles.title, styles.addInput]}
+          value={newTitle}
+          onChangeText={setNewTitle}
+          onSubmitEditing={handleAdd}
+          placeholder="Add an action item"
+          placeholderTextColor="#9ca3af"
+          returnKeyType="done"
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  title: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+    marginLeft: 8,
+  },
+  completedTitle: {
+    textDecorationLine: 'line-through',
+    color: '#9ca3af',
+  },
+  editInput: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#d1d5db',
+    paddingVertical: 2,
+  },
+  addInput: {
+    paddingVertical: 2,
+  },
+  deleteButton: {
+    padding: 4,
+  },
+});
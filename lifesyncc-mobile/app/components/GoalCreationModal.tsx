@@ -15,6 +15,7 @@ import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { Picker } from '@react-native-picker/picker';
 import { Goal } from '../services/goalService';
+import { HabitFrequency } from '../../shared/types';
 
 interface GoalCreationModalProps {
   visible: boolean;
@@ -41,6 +42,8 @@ export const GoalCreationModal: React.FC<GoalCreationModalProps> = ({
   const [dueDate, setDueDate] = useState<Date | undefined>(undefined);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [frequencyPeriod, setFrequencyPeriod] = useState<HabitFrequency['period']>('daily');
+  const [timesPerWeek, setTimesPerWeek] = useState(3);
 
   const resetForm = () => {
     setTitle('');
@@ -52,6 +55,8 @@ export const GoalCreationModal: React.FC<GoalCreationModalProps> = ({
     setUnit('');
     setDueDate(undefined);
     setShowDatePicker(false);
+    setFrequencyPeriod('daily');
+    setTimesPerWeek(3);
   };
 
   const handleSave = async () => {
@@ -82,6 +87,13 @@ export const GoalCreationModal: React.FC<GoalCreationModalProps> = ({
         currentValue: currentValue ? parseFloat(currentValue) : 0,
         unit: unit.trim(),
         dueDate,
+        ...(type === 'habit' && {
+          currentValue: 0,
+          frequency: {
+            period: frequencyPeriod,
+            ...(frequencyPeriod === 'weekly' && { timesPerWeek }),
+          },
+        }),
       };
 
       await onSave(goal);
@@ -225,16 +237,72 @@ export const GoalCreationModal: React.FC<GoalCreationModalProps> = ({
                   </View>
                 </View>
 
-                <View style={styles.formGroup}>
-                  <Text style={styles.label}>Current Value</Text>
-                  <TextInput
-                    style={styles.input}
-                    placeholder="0"
-                    value={currentValue}
-                    onChangeText={setCurrentValue}
-                    keyboardType="numeric"
-                  />
-                </View>
+                {type === 'habit' && (
+                  <View style={styles.formGroup}>
+                    <Text style={styles.label}>Frequency</Text>
+                    <View style={styles.priorityContainer}>
+                      {([
+                        { value: 'daily', label: 'Daily' },
+                        { value: 'weekdays', label: 'Weekdays' },
+                        { value: 'weekly', label: 'Per week' },
+                      ] as const).map((option) => (
+                        <TouchableOpacity
+                          key={option.value}
+                          style={[
+                            styles.priorityButton,
+                            frequencyPeriod === option.value && styles.priorityButtonActive,
+                          ]}
+                          onPress={() => setFrequencyPeriod(option.value)}
+                        >
+                          <Text
+                            style={[
+                              styles.priorityText,
+                              frequencyPeriod === option.value && styles.priorityTextActive,
+                            ]}
+                          >
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    {frequencyPeriod === 'weekly' && (
+                      <View style={styles.unitSuggestions}>
+                        {[1, 2, 3, 4, 5, 6, 7].map((times) => (
+                          <TouchableOpacity
+                            key={times}
+                            style={[
+                              styles.unitChip,
+                              timesPerWeek === times && { backgroundColor: categoryColor },
+                            ]}
+                            onPress={() => setTimesPerWeek(times)}
+                          >
+                            <Text
+                              style={[
+                                styles.unitChipText,
+                                timesPerWeek === times && { color: '#fff' },
+                              ]}
+                            >
+                              {times}x
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    )}
+                  </View>
+                )}
+
+                {type === 'numeric' && (
+                  <View style={styles.formGroup}>
+                    <Text style={styles.label}>Current Value</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0"
+                      value={currentValue}
+                      onChangeText={setCurrentValue}
+                      keyboardType="numeric"
+                    />
+                  </View>
+                )}
               </>
             )}
 
@@ -9,17 +9,21 @@ import {
   KeyboardAvoidingView,
   Platform,
   Alert,
+  ScrollView,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import Slider from '@react-native-community/slider';
-import { Goal } from '../services/goalService';
+import goalService, { getGoalId, Goal } from '../services/goalService';
+import { isLocalId } from '../services/sync';
+import { ProgressEntry } from '../../shared/types';
 
 interface GoalProgressModalProps {
   visible: boolean;
   goal: Goal | null;
   categoryColor: string;
   onClose: () => void;
-  onUpdate: (goalId: string, newValue: number) => Promise<void>;
+  onUpdate: (goalId: string, newValue: number, note?: string) => Promise<void>;
 }
 
 export const GoalProgressModal: React.FC<GoalProgressModalProps> = ({
@@ -31,7 +35,10 @@ export const GoalProgressModal: React.FC<GoalProgressModalProps> = ({
 }) => {
   const [value, setValue] = useState('');
   const [sliderValue, setSliderValue] = useState(0);
+  const [note, setNote] = useState('');
   const [updating, setUpdating] = useState(false);
+  const [history, setHistory] = useState<ProgressEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
 
   React.useEffect(() => {
     if (goal) {
@@ -40,9 +47,36 @@ export const GoalProgressModal: React.FC<GoalProgressModalProps> = ({
       } else {
         setValue((goal.currentValue || 0).toString());
       }
+      setNote('');
     }
   }, [goal]);
 
+  React.useEffect(() => {
+    const goalId = goal && getGoalId(goal);
+    // Goals created offline have no history on the server yet
+    if (!visible || !goalId || isLocalId(goalId)) {
+      setHistory([]);
+      return;
+    }
+
+    let cancelled = false;
+    setHistoryLoading(true);
+    goalService.getProgressHistory(goalId)
+      .then(entries => {
+        if (!cancelled) setHistory(entries);
+      })
+      .catch(error => {
+        console.error('Error fetching progress history:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, goal]);
+
   const handleUpdate = async () => {
     if (!goal) return;
 
@@ -60,7 +94,7 @@ export const GoalProgressModal: React.FC<GoalProgressModalProps> = ({
 
     setUpdating(true);
     try {
-      await onUpdate(goal._id || goal.id || '', updateValue);
+      await onUpdate(getGoalId(goal), updateValue, note.trim() || undefined);
       onClose();
     } catch (error) {
       Alert.alert('Error', 'Failed to update progress');
@@ -81,6 +115,18 @@ export const GoalProgressModal: React.FC<GoalProgressModalProps> = ({
     return 0;
   };
 
+  const formatEntryValue = (entry: ProgressEntry) => {
+    if (goal.type === 'milestone') {
+      return `${entry.value}%`;
+    }
+    return `${entry.value} ${goal.unit || ''}`.trim();
+  };
+
+  const formatDelta = (delta: number) => {
+    const sign = delta > 0 ? '+' : '';
+    return goal.type === 'milestone' ? `${sign}${delta}%` : `${sign}${delta}`;
+  };
+
   return (
     <Modal
       visible={visible}
@@ -163,6 +209,47 @@ export const GoalProgressModal: React.FC<GoalProgressModalProps> = ({
             <Text style={styles.progressText}>
               {getProgressPercentage()}% Complete
             </Text>
+
+            <TextInput
+              style={styles.noteInput}
+              value={note}
+              onChangeText={setNote}
+              placeholder="Add a note (optional)"
+              placeholderTextColor="#9ca3af"
+            />
+          </View>
+
+          <View style={styles.historySection}>
+            <Text style={styles.historyTitle}>History</Text>
+            {historyLoading ? (
+              <ActivityIndicator color={categoryColor} />
+            ) : history.length === 0 ? (
+              <Text style={styles.historyEmpty}>No progress recorded yet</Text>
+            ) : (
+              <ScrollView style={styles.historyList} nestedScrollEnabled>
+                {history.map((entry) => (
+                  <View key={entry._id} style={styles.historyItem}>
+                    <View style={[styles.historyDot, { backgroundColor: categoryColor }]} />
+                    <View style={styles.historyDetails}>
+                      <View style={styles.historyRow}>
+                        <Text style={styles.historyValue}>{formatEntryValue(entry)}</Text>
+                        <Text style={[
+                          styles.historyDelta,
+                          { color: entry.delta >= 0 ? '#10B981' : '#EF4444' },
+                        ]}>
+                          {formatDelta(entry.delta)}
+                        </Text>
+                      </View>
+                      <Text style={styles.historyDate}>
+                        {new Date(entry.timestamp).toLocaleString()}
+                        {entry.source !== 'manual' ? ` • ${entry.source}` : ''}
+                      </Text>
+                      {!!entry.note && <Text style={styles.historyNote}>{entry.note}</Text>}
+                    </View>
+                  </View>
+                ))}
+              </ScrollView>
+            )}
           </View>
 
           <View style={styles.modalFooter}>
@@ -294,6 +381,70 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 8,
   },
+  noteInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#1f2937',
+    marginTop: 16,
+  },
+  historySection: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  historyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 12,
+  },
+  historyEmpty: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  historyList: {
+    maxHeight: 160,
+  },
+  historyItem: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  historyDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 6,
+    marginRight: 12,
+  },
+  historyDetails: {
+    flex: 1,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  historyValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  historyDelta: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  historyDate: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  historyNote: {
+    fontSize: 13,
+    color: '#4b5563',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
   modalFooter: {
     flexDirection: 'row',
     padding: 20,
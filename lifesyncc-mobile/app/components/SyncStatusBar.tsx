@@ -0,0 +1,90 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSync } from '../contexts/SyncContext';
+
+interface SyncStatusBarProps {
+  // Set when the screen shows data saved on this device
+  showingCached?: boolean;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Shows changes waiting to sync and the ones the server turned down;
+// renders nothing when everything is in sync
+export const SyncStatusBar: React.FC<SyncStatusBarProps> = ({ showingCached = false }) => {
+  const { pending, conflicts, syncing, syncNow, dismissConflicts } = useSync();
+
+  const showConflicts = () => {
+    Alert.alert(
+      'Changes not synced',
+      conflicts.map(({ change, message }) => `${change.label}: ${message}`).join('\n'),
+      [{ text: 'OK', onPress: () => dismissConflicts() }]
+    );
+  };
+
+  if (pending.length === 0 && conflicts.length === 0 && !showingCached) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      {(pending.length > 0 || showingCached) && (
+        <TouchableOpacity style={styles.pending} onPress={() => syncNow()} disabled={syncing}>
+          {syncing
+            ? <ActivityIndicator size="small" color="#92400e" />
+            : <Ionicons name="cloud-offline-outline" size={18} color="#92400e" />}
+          <Text style={styles.pendingText}>
+            {pending.length > 0
+              ? `${plural(pending.length, 'change')} waiting to sync${syncing ? '…' : '. Tap to retry.'}`
+              : 'Offline. Showing what was last loaded on this device.'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {conflicts.length > 0 && (
+        <TouchableOpacity style={styles.conflicts} onPress={showConflicts}>
+          <Ionicons name="alert-circle-outline" size={18} color="#b91c1c" />
+          <Text style={styles.conflictText}>
+            {plural(conflicts.length, 'change')} could not be synced. Tap for details.
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  pending: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fffbeb',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  pendingText: {
+    flex: 1,
+    color: '#92400e',
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  conflicts: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  conflictText: {
+    flex: 1,
+    color: '#b91c1c',
+    fontSize: 14,
+    marginLeft: 8,
+  },
+});
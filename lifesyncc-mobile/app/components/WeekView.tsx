@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import scheduleService from '../services/schedule.service';
+import type { Category, ScheduleDay } from '@lifesync/scheduling';
+
+interface WeekViewProps {
+  weekStart: Date;
+  categoryColors: Record<Category, string>;
+  onSelectDay: (date: Date) => void;
+}
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Monday of the week `date` falls in
+export const startOfWeek = (date: Date) => {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return addDays(result, -((result.getDay() + 6) % 7));
+};
+
+const formatHours = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+};
+
+export const WeekView: React.FC<WeekViewProps> = ({ weekStart, categoryColors, onSelectDay }) => {
+  const [days, setDays] = useState<ScheduleDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+
+  // Keyed by day so a new Date for the same week does not refetch
+  const from = scheduleService.formatDateForAPI(weekStart);
+  const to = scheduleService.formatDateForAPI(addDays(weekStart, 6));
+
+  const fetchWeek = useCallback(async () => {
+    try {
+      setError('');
+      setDays(await scheduleService.getScheduleRange(from, to));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the week');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchWeek();
+  }, [fetchWeek]);
+
+  if (loading) {
+    return (
+      <View style={styles.centerContent}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </View>
+    );
+  }
+
+  const today = scheduleService.formatDateForAPI(new Date());
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={() => {
+            setRefreshing(true);
+            fetchWeek();
+          }}
+        />
+      }
+    >
+      {error ? (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={fetchWeek}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        days.map(day => {
+          const date = new Date(`${day.date}T00:00:00`);
+          const { summary } = day;
+
+          return (
+            <TouchableOpacity
+              key={day.date}
+              style={[styles.dayCard, day.date === today && styles.todayCard]}
+              onPress={() => onSelectDay(date)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.dayHeader}>
+                <Text style={styles.dayName}>
+                  {date.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+                </Text>
+                <Ionicons name="chevron-forward" size={18} color="#9ca3af" />
+              </View>
+
+              {summary.total === 0 ? (
+                <Text style={styles.emptyText}>Nothing planned</Text>
+              ) : (
+                <>
+                  <Text style={styles.summaryText}>
+                    {summary.completed}/{summary.total} done • {formatHours(summary.plannedMinutes)} planned
+                  </Text>
+                  <View style={styles.categoryBar}>
+                    {(Object.keys(categoryColors) as Category[])
+                      .filter(category => summary.minutesByCategory[category] > 0)
+                      .map(category => (
+                        <View
+                          key={category}
+                          style={{
+                            flex: summary.minutesByCategory[category],
+                            backgroundColor: categoryColors[category],
+                          }}
+                        />
+                      ))}
+                  </View>
+                  <Text style={styles.blockTitles} numberOfLines={1}>
+                    {day.blocks.map(block => block.title).join(' • ')}
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          );
+        })
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  dayCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  todayCard: {
+    borderWidth: 2,
+    borderColor: '#4F46E5',
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  dayName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#4b5563',
+    marginBottom: 8,
+  },
+  categoryBar: {
+    flexDirection: 'row',
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    backgroundColor: '#e5e7eb',
+    marginBottom: 8,
+  },
+  blockTitles: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  errorBox: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  errorText: {
+    color: '#b91c1c',
+    marginBottom: 8,
+  },
+  retryText: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+});
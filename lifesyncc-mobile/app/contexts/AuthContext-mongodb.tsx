@@ -1,12 +1,6 @@
 import React, { createContext, useState, useContext, useEffect } from 'react';
 import authService from '../services/auth.service';
-import apiService from '../services/api.service';
-
-interface User {
-  id: string;
-  email: string;
-  createdAt: string;
-}
+import { User } from '../../shared/types';
 
 interface AuthContextType {
   user: User | null;
@@ -15,6 +9,10 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
+  signOutEverywhere: () => Promise<void>;
+  // Both resolve to the server's message for the user
+  requestPasswordReset: (email: string) => Promise<string>;
+  resetPassword: (token: string, password: string) => Promise<string>;
   clearError: () => void;
 }
 
@@ -38,6 +36,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     checkAuthStatus();
   }, []);
 
+  // Back to sign-in when the session ends on the server
+  useEffect(() => authService.onSessionEnd(() => setUser(null)), []);
+
   const checkAuthStatus = async () => {
     console.log('Checking auth status...');
     try {
@@ -104,6 +105,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Unlike signOut this needs the server, so failures are passed on
+  const signOutEverywhere = async () => {
+    await authService.logoutEverywhere();
+    setUser(null);
+  };
+
+  const requestPasswordReset = (email: string) => authService.forgotPassword(email);
+
+  const resetPassword = (token: string, password: string) => authService.resetPassword(token, password);
+
   const clearError = () => {
     setError(null);
   };
@@ -115,6 +126,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     signIn,
     signUp,
     signOut,
+    signOutEverywhere,
+    requestPasswordReset,
+    resetPassword,
     clearError,
   };
 
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
+import authService from '../services/auth.service';
 
 interface User {
   id: string;
@@ -103,8 +104,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Mails a reset code; the code is used on the ResetPassword screen
   const resetPassword = async (email: string) => {
-    console.log('Mock reset password for:', email);
+    await authService.forgotPassword(email);
   };
 
   const value = {
@@ -0,0 +1,65 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from './AuthContext-mongodb';
+import syncQueue from '../services/sync';
+import { SyncResult, SyncState } from '../services/syncQueue';
+
+// How often queued changes are retried while the app stays open
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+interface SyncContextType extends SyncState {
+  syncNow: () => Promise<SyncResult>;
+  dismissConflicts: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const useSync = () => {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
+
+// Replays queued changes on sign-in, when the app comes back to the
+// foreground and, while changes wait, every RETRY_INTERVAL_MS
+export const SyncProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [state, setState] = useState<SyncState>({
+    pending: [],
+    conflicts: [],
+    syncing: false,
+    lastSyncedAt: null,
+  });
+
+  useEffect(() => syncQueue.subscribe(setState), []);
+
+  const syncNow = useCallback(() => syncQueue.flush(), []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    syncNow();
+    const subscription = AppState.addEventListener('change', status => {
+      if (status === 'active') syncNow();
+    });
+    return () => subscription.remove();
+  }, [user, syncNow]);
+
+  const waiting = state.pending.length > 0;
+  useEffect(() => {
+    if (!user || !waiting) return;
+
+    const timer = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [user, waiting, syncNow]);
+
+  const value = {
+    ...state,
+    syncNow,
+    dismissConflicts: syncQueue.dismissConflicts,
+  };
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+};
@@ -6,9 +6,12 @@ import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { useAuth } from '../contexts/AuthContext-mongodb';
 import { LoginScreen } from '../screens/auth/LoginScreen';
 import { RegisterScreen } from '../screens/auth/RegisterScreen';
+import { ForgotPasswordScreen } from '../screens/auth/ForgotPasswordScreen';
+import { ResetPasswordScreen } from '../screens/auth/ResetPasswordScreen';
 import { DashboardScreen } from '../screens/main/DashboardScreen';
 import { GoalsScreen } from '../screens/main/GoalsScreen';
 import { ScheduleScreen } from '../screens/main/ScheduleScreen';
+import { CheckInScreen } from '../screens/main/CheckInScreen';
 import { ProfileScreen } from '../screens/main/ProfileScreen';
 import { Ionicons } from '@expo/vector-icons';
 
@@ -19,6 +22,8 @@ const AuthStack = () => (
   <Stack.Navigator screenOptions={{ headerShown: false }}>
     <Stack.Screen name="Login" component={LoginScreen} />
     <Stack.Screen name="Register" component={RegisterScreen} />
+    <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+    <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
   </Stack.Navigator>
 );
 
@@ -34,6 +39,8 @@ const MainTabs = () => (
           iconName = focused ? 'flag' : 'flag-outline';
         } else if (route.name === 'Schedule') {
           iconName = focused ? 'calendar' : 'calendar-outline';
+        } else if (route.name === 'CheckIn') {
+          iconName = focused ? 'checkmark-circle' : 'checkmark-circle-outline';
         } else if (route.name === 'Profile') {
           iconName = focused ? 'person' : 'person-outline';
         } else {
@@ -50,6 +57,7 @@ const MainTabs = () => (
     <Tab.Screen name="Dashboard" component={DashboardScreen} />
     <Tab.Screen name="Goals" component={GoalsScreen} />
     <Tab.Screen name="Schedule" component={ScheduleScreen} />
+    <Tab.Screen name="CheckIn" component={CheckInScreen} options={{ title: 'Check In' }} />
     <Tab.Screen name="Profile" component={ProfileScreen} />
   </Tab.Navigator>
 );
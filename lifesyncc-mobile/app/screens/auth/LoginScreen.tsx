@@ -126,9 +126,7 @@ export const LoginScreen: React.FC = () => {
             </TouchableOpacity>
 
             <TouchableOpacity
-              onPress={() => {
-                Alert.alert('Reset Password', 'Password reset feature coming soon!');
-              }}
+              onPress={() => navigation.navigate('ForgotPassword')}
               disabled={loading}
               style={styles.forgotButton}
             >
@@ -0,0 +1,585 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../../contexts/AuthContext-mongodb';
+import goalService, { Goal } from '../../services/goalService';
+import checkInService from '../../services/checkin.service';
+import scheduleService from '../../services/schedule.service';
+import { CheckIn, CheckInMood, CheckInProgress, CheckInStatus } from '../../../shared/types';
+
+const PAGE_SIZE = 10;
+
+const moods: { value: CheckInMood; icon: keyof typeof Ionicons.glyphMap; color: string }[] = [
+  { value: 'great', icon: 'thumbs-up', color: '#10B981' },
+  { value: 'good', icon: 'happy', color: '#3B82F6' },
+  { value: 'okay', icon: 'remove-circle', color: '#F59E0B' },
+  { value: 'struggling', icon: 'sad', color: '#EF4444' },
+];
+
+// Milestones with action items progress through their items only
+const takesAmount = (goal: Goal) =>
+  goal.type === 'numeric' || (goal.type === 'milestone' && !(goal.actionItems && goal.actionItems.length > 0));
+
+const formatProgress = (progress?: CheckInProgress) => {
+  if (!progress || progress.amount === 0) return '';
+  if (progress.kind === 'check-off') return ' ✓';
+  return progress.kind === 'percent' ? ` +${progress.amount}%` : ` +${progress.amount}`;
+};
+
+const moodColor = (mood: CheckInMood) => moods.find(option => option.value === mood)?.color || '#6b7280';
+
+const formatClock = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const SNOOZE_OPTIONS = [
+  { minutes: 60, label: '1 hour' },
+  { minutes: 180, label: '3 hours' },
+];
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export const CheckInScreen: React.FC = () => {
+  const { user } = useAuth();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [mood, setMood] = useState<CheckInMood | null>(null);
+  const [notes, setNotes] = useState('');
+  const [completedTasks, setCompletedTasks] = useState<string[]>([]);
+  // Amount typed per ticked goal; empty means ticked without progress
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<CheckInStatus | null>(null);
+  const [history, setHistory] = useState<CheckIn[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadHistory = async (pageToLoad: number) => {
+    try {
+      const result = await checkInService.getCheckIns({ page: pageToLoad, limit: PAGE_SIZE });
+      setHistory(previous => (pageToLoad === 1 ? result.checkIns : [...previous, ...result.checkIns]));
+      setPage(result.page);
+      setHasMore(result.hasMore);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load your check-ins');
+    }
+  };
+
+  const fetchData = async () => {
+    try {
+      const fetchedGoals = await goalService.getGoals({ completed: false });
+      setGoals(fetchedGoals);
+    } catch (error) {
+      console.error('Error fetching goals:', error);
+    }
+    try {
+      setStatus(await checkInService.getStatus());
+    } catch (error) {
+      console.error('Error fetching check-in status:', error);
+    }
+    await loadHistory(1);
+    setLoading(false);
+    setRefreshing(false);
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      if (user) {
+        fetchData();
+      }
+    }, [user])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchData();
+  };
+
+  const toggleGoal = (goalId: string) => {
+    setCompletedTasks(completedTasks.includes(goalId)
+      ? completedTasks.filter(id => id !== goalId)
+      : [...completedTasks, goalId]);
+  };
+
+  const submitCheckIn = async () => {
+    const goalProgress: { goalId: string; amount?: number }[] = [];
+    for (const goal of goals) {
+      const goalId = goal._id || goal.id || '';
+      if (!completedTasks.includes(goalId)) continue;
+      if (goal.type === 'habit') {
+        goalProgress.push({ goalId });
+        continue;
+      }
+
+      const entered = (amounts[goalId] || '').trim();
+      if (!takesAmount(goal) || !entered) continue;
+
+      const amount = Number(entered);
+      if (!(amount > 0)) {
+        Alert.alert('Check your amounts', `Enter a positive ${goal.type === 'milestone' ? 'percent' : 'amount'} for "${goal.title}"`);
+        return;
+      }
+      goalProgress.push({ goalId, amount });
+    }
+
+    setSaving(true);
+    try {
+      const result = await checkInService.createCheckIn({
+        mood: mood || 'okay',
+        notes,
+        completedTasks,
+        goalProgress,
+      });
+      const updated = new Map<string | undefined, Goal>(result.goals.map((goal: Goal) => [goal._id || goal.id, goal]));
+      setGoals(goals
+        .map(goal => updated.get(goal._id || goal.id) || goal)
+        .filter(goal => !goal.completed));
+      setHistory([result.checkIn, ...history]);
+      checkInService.getStatus().then(setStatus).catch(() => undefined);
+      setMood(null);
+      setNotes('');
+      setCompletedTasks([]);
+      setAmounts({});
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save your check-in');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const snooze = async (minutes: number) => {
+    try {
+      setStatus(await checkInService.snooze(minutes));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to snooze check-ins');
+    }
+  };
+
+  const deleteCheckIn = (checkInId: string) => {
+    Alert.alert('Delete Check-in', 'Remove this check-in from your history?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await checkInService.deleteCheckIn(checkInId);
+            setHistory(history.filter(checkIn => checkIn._id !== checkInId));
+          } catch (error) {
+            Alert.alert('Error', 'Failed to delete the check-in');
+          }
+        },
+      },
+    ]);
+  };
+
+  const today = scheduleService.formatDateForAPI(new Date());
+
+  if (!user) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.message}>Please log in to check in</Text>
+      </View>
+    );
+  }
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color="#4f46e5" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>Check In</Text>
+        <Text style={styles.subtitle}>Let's see how your day is going</Text>
+      </View>
+
+      {status && (
+        <View style={styles.statusBanner}>
+          <Ionicons name="alarm-outline" size={20} color="#4f46e5" />
+          <Text style={styles.statusText}>
+            {status.snoozedUntil && new Date(status.snoozedUntil).getTime() > Date.now()
+              ? `Snoozed until ${formatClock(status.snoozedUntil)}`
+              : new Date(status.dueAt).getTime() > Date.now()
+                ? `Next check-in at ${formatClock(status.dueAt)}`
+                : 'A check-in is due'}
+          </Text>
+          {new Date(status.dueAt).getTime() <= Date.now() && SNOOZE_OPTIONS.map(option => (
+            <TouchableOpacity key={option.minutes} style={styles.snoozeButton} onPress={() => snooze(option.minutes)}>
+              <Text style={styles.snoozeText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>How are you feeling?</Text>
+        <View style={styles.moodRow}>
+          {moods.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.moodButton,
+                mood === option.value && { borderColor: option.color, backgroundColor: option.color + '20' },
+              ]}
+              onPress={() => setMood(option.value)}
+            >
+              <Ionicons name={option.icon} size={28} color={option.color} />
+              <Text style={styles.moodLabel}>{option.value}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>What goals have you made progress on?</Text>
+        {goals.length === 0 ? (
+          <Text style={styles.emptyText}>No active goals to track progress on.</Text>
+        ) : (
+          goals.map(goal => {
+            const goalId = goal._id || goal.id || '';
+            const ticked = completedTasks.includes(goalId);
+            return (
+              <View key={goalId} style={styles.goalRow}>
+                <TouchableOpacity style={styles.goalToggle} onPress={() => toggleGoal(goalId)}>
+                  <Ionicons
+                    name={ticked ? 'checkbox' : 'square-outline'}
+                    size={22}
+                    color={ticked ? '#4f46e5' : '#9ca3af'}
+                  />
+                  <View style={styles.goalInfo}>
+                    <Text style={styles.goalTitle}>{goal.title}</Text>
+                    <Text style={styles.goalMeta}>{goal.category} • {goal.type} goal</Text>
+                  </View>
+                </TouchableOpacity>
+                {ticked && (
+                  goal.type === 'habit' ? (
+                    <Text style={styles.amountHint}>
+                      {goal.completions?.includes(today) ? 'Already checked off today' : 'Checks off today'}
+                    </Text>
+                  ) : takesAmount(goal) ? (
+                    <View style={styles.amountRow}>
+                      <TextInput
+                        style={styles.amountInput}
+                        value={amounts[goalId] || ''}
+                        onChangeText={(text) => setAmounts({ ...amounts, [goalId]: text })}
+                        placeholder={goal.type === 'milestone' ? 'Progress made' : 'Amount'}
+                        keyboardType="numeric"
+                      />
+                      <Text style={styles.amountHint}>
+                        {goal.type === 'milestone'
+                          ? '%'
+                          : `${goal.unit || ''} (${goal.currentValue || 0} of ${goal.targetValue})`.trim()}
+                      </Text>
+                    </View>
+                  ) : (
+                    <Text style={styles.amountHint}>Progress follows its action items</Text>
+                  )
+                )}
+              </View>
+            );
+          })
+        )}
+
+        <Text style={styles.sectionTitle}>Any notes or reflections?</Text>
+        <TextInput
+          style={styles.notesInput}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="What's working well? What should change?"
+          multiline
+        />
+
+        <TouchableOpacity
+          style={[styles.submitButton, saving && styles.submitButtonDisabled]}
+          onPress={submitCheckIn}
+          disabled={saving}
+        >
+          <Text style={styles.submitButtonText}>{saving ? 'Saving...' : 'Submit Check-in'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>History</Text>
+        {history.length === 0 ? (
+          <Text style={styles.emptyText}>No check-ins yet.</Text>
+        ) : (
+          history.map(checkIn => (
+            <TouchableOpacity
+              key={checkIn._id}
+              style={styles.historyCard}
+              onLongPress={() => deleteCheckIn(checkIn._id)}
+              activeOpacity={0.9}
+            >
+              <View style={styles.historyHeader}>
+                <Text style={[styles.historyMood, { color: moodColor(checkIn.mood) }]}>{checkIn.mood}</Text>
+                <Text style={styles.historyTime}>{formatTimestamp(checkIn.timestamp)}</Text>
+              </View>
+              {!!checkIn.notes && <Text style={styles.historyNotes}>{checkIn.notes}</Text>}
+              {checkIn.goals.length > 0 ? (
+                <View style={styles.goalChips}>
+                  {checkIn.goals.map(goal => (
+                    <Text key={goal.goalId} style={styles.goalChip}>
+                      {goal.title}
+                      {formatProgress(checkIn.goalProgress.find(progress => progress.goalId === goal.goalId))}
+                    </Text>
+                  ))}
+                </View>
+              ) : (
+                <Text style={styles.goalMeta}>No goals ticked</Text>
+              )}
+            </TouchableOpacity>
+          ))
+        )}
+        {hasMore && (
+          <TouchableOpacity style={styles.loadMoreButton} onPress={() => loadHistory(page + 1)}>
+            <Text style={styles.loadMoreText}>Load older check-ins</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  message: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 48,
+  },
+  header: {
+    padding: 24,
+    paddingTop: 48,
+    backgroundColor: '#fff',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  statusBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#eef2ff',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#3730a3',
+    marginLeft: 8,
+  },
+  snoozeButton: {
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginLeft: 6,
+  },
+  snoozeText: {
+    fontSize: 12,
+    color: '#4338ca',
+  },
+  section: {
+    backgroundColor: '#fff',
+    marginTop: 16,
+    padding: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 12,
+    marginTop: 8,
+  },
+  moodRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  moodButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginHorizontal: 4,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+  },
+  moodLabel: {
+    fontSize: 12,
+    color: '#4b5563',
+    marginTop: 4,
+    textTransform: 'capitalize',
+  },
+  goalRow: {
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 8,
+    backgroundColor: '#f9fafb',
+  },
+  goalToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    marginLeft: 34,
+  },
+  amountInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    width: 110,
+    fontSize: 14,
+    marginRight: 8,
+    backgroundColor: '#fff',
+  },
+  amountHint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 8,
+    marginLeft: 34,
+  },
+  goalInfo: {
+    marginLeft: 12,
+    flex: 1,
+  },
+  goalTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  goalMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    textTransform: 'capitalize',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    marginBottom: 16,
+  },
+  notesInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 96,
+    fontSize: 15,
+    textAlignVertical: 'top',
+  },
+  submitButton: {
+    backgroundColor: '#4f46e5',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  historyCard: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  historyMood: {
+    fontSize: 14,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  historyTime: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  historyNotes: {
+    fontSize: 14,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  goalChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  goalChip: {
+    fontSize: 12,
+    color: '#4338ca',
+    backgroundColor: '#e0e7ff',
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginRight: 6,
+    marginBottom: 6,
+    overflow: 'hidden',
+  },
+  loadMoreButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  loadMoreText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+});
@@ -1,29 +1,107 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   TouchableOpacity,
-  RefreshControl
+  RefreshControl,
+  ActivityIndicator,
 } from 'react-native';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import type { ScheduleDay } from '@lifesync/scheduling';
 import { useAuth } from '../../contexts/AuthContext-mongodb';
+import { useSync } from '../../contexts/SyncContext';
+import { SyncStatusBar } from '../../components/SyncStatusBar';
 import { Ionicons } from '@expo/vector-icons';
+import goalService, { Goal } from '../../services/goalService';
+import scheduleService from '../../services/schedule.service';
+import checkInService from '../../services/checkin.service';
+import { CheckIn } from '../../../shared/types';
+
+const categories = [
+  { key: 'physical', label: 'Physical', icon: 'fitness', color: '#10B981' },
+  { key: 'mental', label: 'Mental', icon: 'library', color: '#8B5CF6' },
+  { key: 'financial', label: 'Financial', icon: 'cash', color: '#F59E0B' },
+  { key: 'social', label: 'Social', icon: 'people', color: '#3B82F6' },
+] as const;
+
+const MOOD_LABELS: Record<CheckIn['mood'], string> = {
+  great: 'Great',
+  good: 'Good',
+  okay: 'Okay',
+  struggling: 'Struggling',
+};
+
+const percentOf = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+// Average progress of a category's goals, completed ones included
+const categoryProgress = (goals: Goal[]) =>
+  goals.length > 0 ? Math.round(goals.reduce((sum, goal) => sum + (goal.progress || 0), 0) / goals.length) : 0;
+
+const formatCheckInTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
 
 export const DashboardScreen: React.FC = () => {
   const { user } = useAuth();
+  const navigation = useNavigation<any>();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [today, setToday] = useState<ScheduleDay | null>(null);
+  const [latestCheckIn, setLatestCheckIn] = useState<CheckIn | null>(null);
+  const [failed, setFailed] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [showingCached, setShowingCached] = useState(false);
+  const { lastSyncedAt } = useSync();
+
+  // Each part loads on its own, so one failing request leaves the rest.
+  // Goals come from the device cache when offline, as on the Goals screen.
+  const fetchData = async () => {
+    const date = scheduleService.formatDateForAPI(new Date());
+    const failures: string[] = [];
+
+    await Promise.all([
+      goalService.loadGoals()
+        .then(({ goals: loadedGoals, cached }) => {
+          setGoals(loadedGoals);
+          setShowingCached(cached);
+        })
+        .catch(() => failures.push('goals')),
+      scheduleService.getScheduleRange(date, date)
+        .then((days: ScheduleDay[]) => setToday(days[0] || null))
+        .catch(() => failures.push("today's schedule")),
+      checkInService.getCheckIns({ limit: 1 })
+        .then((page: { checkIns: CheckIn[] }) => setLatestCheckIn(page.checkIns[0] || null))
+        .catch(() => failures.push('check-ins')),
+    ]);
 
-  const categories = [
-    { key: 'physical', label: 'Physical', icon: 'fitness', color: '#10B981', goals: 2, progress: 65 },
-    { key: 'mental', label: 'Mental', icon: 'library', color: '#8B5CF6', goals: 1, progress: 17 },
-    { key: 'financial', label: 'Financial', icon: 'cash', color: '#F59E0B', goals: 1, progress: 25 },
-    { key: 'social', label: 'Social', icon: 'people', color: '#3B82F6', goals: 1, progress: 25 },
-  ];
+    setFailed(failures);
+    setLoading(false);
+    setRefreshing(false);
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      if (user) {
+        fetchData();
+      }
+    }, [user])
+  );
+
+  // Changes made offline have synced; show goals as the server has them
+  useEffect(() => {
+    if (user && lastSyncedAt) {
+      fetchData();
+    }
+  }, [lastSyncedAt]);
 
   const onRefresh = () => {
     setRefreshing(true);
-    setTimeout(() => setRefreshing(false), 1000);
+    fetchData();
   };
 
   if (!user) {
@@ -34,6 +112,10 @@ export const DashboardScreen: React.FC = () => {
     );
   }
 
+  const completedGoals = goals.filter(goal => goal.completed).length;
+  const summary = today?.summary;
+  const completionRate = summary ? percentOf(summary.completed, summary.total) : 0;
+
   return (
     <ScrollView
       style={styles.container}
@@ -44,71 +126,140 @@ export const DashboardScreen: React.FC = () => {
       <View style={styles.header}>
         <Text style={styles.greeting}>Hello, {user?.email?.split('@')[0] || 'there'}!</Text>
         <Text style={styles.subtitle}>Track your progress across all life areas</Text>
-        <View style={styles.demoNotice}>
-          <Text style={styles.demoText}>📱 Demo Mode - Connected to MongoDB</Text>
-        </View>
+        {failed.length > 0 && (
+          <View style={styles.errorNotice}>
+            <Ionicons name="cloud-offline-outline" size={18} color="#b91c1c" />
+            <Text style={styles.errorText}>Couldn't load {failed.join(', ')}. Pull down to retry.</Text>
+          </View>
+        )}
       </View>
 
-      <View style={styles.statsContainer}>
-        <View style={styles.statCard}>
-          <Text style={styles.statValue}>5</Text>
-          <Text style={styles.statLabel}>Total Goals</Text>
-        </View>
-        <View style={styles.statCard}>
-          <Text style={styles.statValue}>1</Text>
-          <Text style={styles.statLabel}>Completed</Text>
-        </View>
-        <View style={styles.statCard}>
-          <Text style={styles.statValue}>4</Text>
-          <Text style={styles.statLabel}>In Progress</Text>
-        </View>
-      </View>
+      <SyncStatusBar showingCached={showingCached} />
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#4F46E5" style={styles.loader} />
+      ) : (
+        <>
+          <View style={styles.statsContainer}>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{goals.length}</Text>
+              <Text style={styles.statLabel}>Total Goals</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{completedGoals}</Text>
+              <Text style={styles.statLabel}>Completed</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{goals.length - completedGoals}</Text>
+              <Text style={styles.statLabel}>In Progress</Text>
+            </View>
+          </View>
 
-      <View style={styles.categoriesGrid}>
-        {categories.map((category) => (
           <TouchableOpacity
-            key={category.key}
-            style={[styles.categoryCard, { borderTopColor: category.color }]}
+            style={styles.card}
             activeOpacity={0.7}
+            onPress={() => navigation.navigate('Schedule')}
           >
-            <View style={[styles.iconContainer, { backgroundColor: category.color + '20' }]}>
-              <Ionicons
-                name={category.icon as any}
-                size={32}
-                color={category.color}
-              />
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>Today</Text>
+              {summary && summary.total > 0 && (
+                <Text style={styles.cardValue}>{completionRate}%</Text>
+              )}
             </View>
-            <Text style={styles.categoryLabel}>{category.label}</Text>
-            <Text style={styles.goalCount}>{category.goals} active goals</Text>
-            <View style={styles.progressBar}>
-              <View
-                style={[
-                  styles.progressFill,
-                  {
-                    width: `${category.progress}%`,
-                    backgroundColor: category.color,
-                  },
-                ]}
-              />
+            {summary && summary.total > 0 ? (
+              <>
+                <View style={styles.progressBar}>
+                  <View style={[styles.progressFill, { width: `${completionRate}%`, backgroundColor: '#4F46E5' }]} />
+                </View>
+                <Text style={styles.cardText}>
+                  {summary.completed} of {summary.total} blocks done
+                  {' · '}{summary.completedMinutes} of {summary.plannedMinutes} min
+                </Text>
+              </>
+            ) : (
+              <Text style={styles.cardText}>Nothing planned yet. Tap to plan your day.</Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.card}
+            activeOpacity={0.7}
+            onPress={() => navigation.navigate('CheckIn')}
+          >
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>Latest Check-in</Text>
+              {latestCheckIn && (
+                <Text style={styles.cardMeta}>{formatCheckInTime(latestCheckIn.timestamp)}</Text>
+              )}
             </View>
-            <Text style={styles.progressText}>{category.progress}% Complete</Text>
+            {latestCheckIn ? (
+              <>
+                <Text style={styles.cardText}>Feeling {MOOD_LABELS[latestCheckIn.mood].toLowerCase()}</Text>
+                {latestCheckIn.notes ? (
+                  <Text style={styles.cardNotes} numberOfLines={2}>{latestCheckIn.notes}</Text>
+                ) : null}
+              </>
+            ) : (
+              <Text style={styles.cardText}>No check-ins yet. Tap to check in.</Text>
+            )}
           </TouchableOpacity>
-        ))}
-      </View>
+
+          <View style={styles.categoriesGrid}>
+            {categories.map((category) => {
+              const inCategory = goals.filter(goal => goal.category === category.key);
+              const active = inCategory.filter(goal => !goal.completed).length;
+              const progress = categoryProgress(inCategory);
+
+              return (
+                <TouchableOpacity
+                  key={category.key}
+                  style={[styles.categoryCard, { borderTopColor: category.color }]}
+                  activeOpacity={0.7}
+                  onPress={() => navigation.navigate('Goals')}
+                >
+                  <View style={[styles.iconContainer, { backgroundColor: category.color + '20' }]}>
+                    <Ionicons
+                      name={category.icon}
+                      size={32}
+                      color={category.color}
+                    />
+                  </View>
+                  <Text style={styles.categoryLabel}>{category.label}</Text>
+                  <Text style={styles.goalCount}>
+                    {active} active {active === 1 ? 'goal' : 'goals'}
+                  </Text>
+                  <View style={styles.progressBar}>
+                    <View
+                      style={[
+                        styles.progressFill,
+                        {
+                          width: `${progress}%`,
+                          backgroundColor: category.color,
+                        },
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.progressText}>{progress}% Complete</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
 
       <View style={styles.quickActions}>
         <Text style={styles.quickActionsTitle}>Quick Actions</Text>
-        <TouchableOpacity style={styles.actionButton}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => navigation.navigate('Goals')}>
           <Ionicons name="add-circle" size={24} color="#4F46E5" />
           <Text style={styles.actionButtonText}>Add New Goal</Text>
         </TouchableOpacity>
-        <TouchableOpacity style={styles.actionButton}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => navigation.navigate('Schedule')}>
           <Ionicons name="calendar" size={24} color="#4F46E5" />
           <Text style={styles.actionButtonText}>View Schedule</Text>
         </TouchableOpacity>
-        <TouchableOpacity style={styles.actionButton}>
-          <Ionicons name="stats-chart" size={24} color="#4F46E5" />
-          <Text style={styles.actionButtonText}>Check Progress</Text>
+        <TouchableOpacity style={styles.actionButton} onPress={() => navigation.navigate('CheckIn')}>
+          <Ionicons name="checkmark-circle" size={24} color="#4F46E5" />
+          <Text style={styles.actionButtonText}>Check In</Text>
         </TouchableOpacity>
       </View>
     </ScrollView>
@@ -136,16 +287,21 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     marginBottom: 16,
   },
-  demoNotice: {
-    backgroundColor: '#4F46E5',
+  errorNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fef2f2',
     padding: 12,
     borderRadius: 8,
-    alignItems: 'center',
   },
-  demoText: {
-    color: '#fff',
+  errorText: {
+    flex: 1,
+    color: '#b91c1c',
     fontSize: 14,
-    fontWeight: '600',
+    marginLeft: 8,
+  },
+  loader: {
+    marginTop: 48,
   },
   statsContainer: {
     flexDirection: 'row',
@@ -176,6 +332,48 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginHorizontal: 20,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  cardValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#4F46E5',
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  cardText: {
+    fontSize: 14,
+    color: '#4b5563',
+  },
+  cardNotes: {
+    fontSize: 14,
+    color: '#6b7280',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
   categoriesGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -11,10 +11,15 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext-mongodb';
-import goalService, { Goal } from '../../services/goalService';
+import goalService, { getGoalId, Goal } from '../../services/goalService';
+import scheduleService from '../../services/schedule.service';
 import { useFocusEffect } from '@react-navigation/native';
 import { GoalCreationModal } from '../../components/GoalCreationModal';
 import { GoalProgressModal } from '../../components/GoalProgressModal';
+import { ActionItemList } from '../../components/ActionItemList';
+import { SyncStatusBar } from '../../components/SyncStatusBar';
+import { useSync } from '../../contexts/SyncContext';
+import { ActionItem } from '../../../shared/types';
 
 const categories = [
   { key: 'physical', label: 'Physical', icon: 'fitness', color: '#10B981' },
@@ -26,29 +31,24 @@ const categories = [
 export const GoalsScreen: React.FC = () => {
   const { user } = useAuth();
   const [goals, setGoals] = useState<Goal[]>([]);
+  const [actionItemsGoalId, setActionItemsGoalId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [modalVisible, setModalVisible] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<typeof categories[0] | null>(null);
   const [progressModalVisible, setProgressModalVisible] = useState(false);
   const [selectedGoal, setSelectedGoal] = useState<Goal | null>(null);
+  const [showingCached, setShowingCached] = useState(false);
+  const { lastSyncedAt } = useSync();
 
   const fetchGoals = async () => {
     try {
-      const fetchedGoals = await goalService.getGoals();
-      setGoals(fetchedGoals);
-      // Save offline for backup
-      await goalService.saveGoalsOffline(fetchedGoals);
+      const { goals: loadedGoals, cached } = await goalService.loadGoals();
+      setGoals(loadedGoals);
+      setShowingCached(cached);
     } catch (error) {
       console.error('Error fetching goals:', error);
-      // Try to load offline goals
-      const offlineGoals = await goalService.getOfflineGoals();
-      if (offlineGoals) {
-        setGoals(offlineGoals);
-        Alert.alert('Offline Mode', 'Showing cached goals. Some features may be limited.');
-      } else {
-        Alert.alert('Error', 'Failed to load goals');
-      }
+      Alert.alert('Error', 'Failed to load goals');
     } finally {
       setLoading(false);
       setRefreshing(false);
@@ -69,6 +69,13 @@ export const GoalsScreen: React.FC = () => {
     }, [user])
   );
 
+  // Goals changed offline have synced; reload them as the server has them
+  useEffect(() => {
+    if (user && lastSyncedAt) {
+      fetchGoals();
+    }
+  }, [lastSyncedAt]);
+
   const onRefresh = () => {
     setRefreshing(true);
     fetchGoals();
@@ -82,7 +89,11 @@ export const GoalsScreen: React.FC = () => {
       });
 
       setGoals(prev => [...prev, newGoal]);
-      Alert.alert('Success!', 'Goal created successfully!');
+      if (newGoal._id) {
+        Alert.alert('Success!', 'Goal created successfully!');
+      } else {
+        Alert.alert('Saved on this device', 'Your goal will sync when you are back online.');
+      }
       await fetchGoals(); // Refresh to ensure sync
     } catch (error) {
       Alert.alert('Error', 'Failed to create goal. Please try again.');
@@ -102,18 +113,18 @@ export const GoalsScreen: React.FC = () => {
     setProgressModalVisible(true);
   };
 
-  const updateGoalProgress = async (goalId: string, newValue: number) => {
+  const updateGoalProgress = async (goalId: string, newValue: number, note?: string) => {
     try {
-      const goal = goals.find(g => (g._id || g.id) === goalId);
+      const goal = goals.find(g => getGoalId(g) === goalId);
       if (!goal) return;
 
       const progressData = goal.type === 'milestone' 
-        ? { progress: newValue }
-        : { currentValue: newValue };
+        ? { progress: newValue, note }
+        : { currentValue: newValue, note };
 
       const updatedGoal = await goalService.updateProgress(goalId, progressData);
       setGoals(prev => prev.map(g => 
-        (g._id || g.id) === goalId ? updatedGoal : g
+        getGoalId(g) === goalId ? updatedGoal : g
       ));
     } catch (error) {
       Alert.alert('Error', 'Failed to update progress');
@@ -121,6 +132,62 @@ export const GoalsScreen: React.FC = () => {
     }
   };
 
+  const toggleHabitCheckOff = async (goal: Goal) => {
+    const goalId = getGoalId(goal);
+    try {
+      const today = scheduleService.formatDateForAPI(new Date());
+      const updatedGoal = await goalService.checkOffHabit(goalId, today, !goal.habitStats?.completedToday);
+      setGoals(prev => prev.map(g =>
+        getGoalId(g) === goalId ? updatedGoal : g
+      ));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update habit');
+      console.error('Error checking off habit:', error);
+    }
+  };
+
+  const replaceGoal = (goalId: string, updatedGoal: Goal) => {
+    setGoals(prev => prev.map(g =>
+      getGoalId(g) === goalId ? updatedGoal : g
+    ));
+  };
+
+  const addActionItem = async (goalId: string, title: string) => {
+    try {
+      replaceGoal(goalId, await goalService.addActionItem(goalId, { title }));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to add action item');
+      console.error('Error adding action item:', error);
+    }
+  };
+
+  const updateActionItem = async (goalId: string, itemId: string, updates: Partial<ActionItem>) => {
+    try {
+      replaceGoal(goalId, await goalService.updateActionItem(goalId, itemId, updates));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update action item');
+      console.error('Error updating action item:', error);
+    }
+  };
+
+  const deleteActionItem = async (goalId: string, itemId: string) => {
+    try {
+      replaceGoal(goalId, await goalService.deleteActionItem(goalId, itemId));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to delete action item');
+      console.error('Error deleting action item:', error);
+    }
+  };
+
+  const formatHabitFrequency = (goal: Goal) => {
+    const stats = goal.habitStats;
+    if (!stats) return '';
+    if (stats.period === 'weekly') {
+      return `${stats.completedThisWeek}/${stats.timesPerWeek} this week`;
+    }
+    return stats.period === 'weekdays' ? 'Every weekday' : 'Daily';
+  };
+
   const deleteGoal = async (goalId: string) => {
     Alert.alert(
       'Delete Goal',
@@ -133,7 +200,7 @@ export const GoalsScreen: React.FC = () => {
           onPress: async () => {
             try {
               await goalService.deleteGoal(goalId);
-              setGoals(prev => prev.filter(g => (g._id || g.id) !== goalId));
+              setGoals(prev => prev.filter(g => getGoalId(g) !== goalId));
               Alert.alert('Success', 'Goal deleted successfully');
             } catch (error) {
               Alert.alert('Error', 'Failed to delete goal');
@@ -178,6 +245,8 @@ export const GoalsScreen: React.FC = () => {
         <Text style={styles.subtitle}>Track your progress across all life areas</Text>
       </View>
 
+      <SyncStatusBar showingCached={showingCached} />
+
       {categories.map((category) => {
         const categoryGoals = getCategoryGoals(category.key);
         
@@ -208,10 +277,10 @@ export const GoalsScreen: React.FC = () => {
             ) : (
               categoryGoals.map((goal) => (
                 <TouchableOpacity
-                  key={goal._id || goal.id}
+                  key={getGoalId(goal)}
                   style={styles.goalCard}
                   onPress={() => !goal.completed && openProgressModal(goal, category)}
-                  onLongPress={() => deleteGoal(goal._id || goal.id || '')}
+                  onLongPress={() => deleteGoal(getGoalId(goal))}
                   activeOpacity={0.9}
                 >
                   <View style={styles.goalHeader}>
@@ -244,14 +313,75 @@ export const GoalsScreen: React.FC = () => {
                     </View>
                   )}
 
+                  {goal.type === 'milestone' && !!goal.minutesInvested && (
+                    <Text style={styles.habitText}>
+                      {Math.floor(goal.minutesInvested / 60)}h {goal.minutesInvested % 60}m invested from your schedule
+                    </Text>
+                  )}
+
                   {goal.type === 'habit' && (
                     <View style={styles.habitContainer}>
-                      <Text style={styles.habitText}>
-                        {goal.currentValue} / {goal.targetValue} days this month
-                      </Text>
+                      <View style={styles.habitStats}>
+                        <Text style={styles.habitStreak}>
+                          🔥 {goal.habitStats?.currentStreak || 0} {goal.habitStats?.streakUnit || 'days'}
+                        </Text>
+                        <Text style={styles.habitText}>
+                          Best {goal.habitStats?.longestStreak || 0} • {goal.habitStats?.completionRate || 0}% • {formatHabitFrequency(goal)}
+                        </Text>
+                        <Text style={styles.habitText}>
+                          {goal.currentValue || 0} / {goal.targetValue} check-offs
+                        </Text>
+                      </View>
+                      {!goal.completed && (
+                        <TouchableOpacity
+                          style={[
+                            styles.checkOffButton,
+                            { borderColor: category.color },
+                            goal.habitStats?.completedToday && { backgroundColor: category.color },
+                          ]}
+                          onPress={() => toggleHabitCheckOff(goal)}
+                        >
+                          <Ionicons
+                            name={goal.habitStats?.completedToday ? 'checkmark' : 'checkmark-outline'}
+                            size={18}
+                            color={goal.habitStats?.completedToday ? '#fff' : category.color}
+                          />
+                          <Text style={[
+                            styles.checkOffText,
+                            { color: goal.habitStats?.completedToday ? '#fff' : category.color },
+                          ]}>
+                            {goal.habitStats?.completedToday ? 'Done today' : 'Check off'}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
                     </View>
                   )}
 
+                  <TouchableOpacity
+                    style={styles.actionItemsToggle}
+                    onPress={() => {
+                      const goalId = getGoalId(goal);
+                      setActionItemsGoalId(actionItemsGoalId === goalId ? null : goalId);
+                    }}
+                  >
+                    <Ionicons name="list" size={16} color="#6b7280" />
+                    <Text style={styles.actionItemsToggleText}>
+                      Action items
+                      {goal.actionItems && goal.actionItems.length > 0 &&
+                        ` ${goal.actionItems.filter(item => item.completed).length}/${goal.actionItems.length}`}
+                    </Text>
+                  </TouchableOpacity>
+
+                  {actionItemsGoalId === getGoalId(goal) && (
+                    <ActionItemList
+                      items={goal.actionItems || []}
+                      color={category.color}
+                      onAdd={(title) => addActionItem(getGoalId(goal), title)}
+                      onUpdate={(itemId, updates) => updateActionItem(getGoalId(goal), itemId, updates)}
+                      onDelete={(itemId) => deleteActionItem(getGoalId(goal), itemId)}
+                    />
+                  )}
+
                   {goal.completed && (
                     <View style={styles.completedBadge}>
                       <Ionicons name="checkmark-circle" size={20} color="#10B981" />
@@ -441,14 +571,50 @@ const styles = StyleSheet.create({
     minWidth: 80,
     textAlign: 'right',
   },
+  actionItemsToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  actionItemsToggleText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginLeft: 6,
+  },
   habitContainer: {
     marginTop: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  habitStats: {
+    flex: 1,
+  },
+  habitStreak: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 2,
   },
   habitText: {
     fontSize: 13,
     color: '#6b7280',
     fontStyle: 'italic',
   },
+  checkOffButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginLeft: 12,
+  },
+  checkOffText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   completedBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,15 +1,102 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ScrollView,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../contexts/AuthContext-mongodb';
+import { useSync } from '../../contexts/SyncContext';
 import { Ionicons } from '@expo/vector-icons';
+import profileService from '../../services/profile.service';
+import { NotificationSettings, UserPreferences, UserProfile } from '../../../shared/types';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const FREQUENCY_OPTIONS = [
+  { minutes: 30, label: '30 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 120, label: '2 hours' },
+  { minutes: 240, label: '4 hours' },
+  { minutes: 1440, label: 'Daily' },
+];
+
+const THEMES: UserPreferences['theme'][] = ['system', 'light', 'dark'];
+
+const NOTIFICATION_LABELS: { key: keyof NotificationSettings; label: string }[] = [
+  { key: 'enabled', label: 'Notifications' },
+  { key: 'checkInReminders', label: 'Check-in reminders' },
+  { key: 'goalDeadlines', label: 'Goal deadlines' },
+  { key: 'dailyProgress', label: 'Daily progress' },
+];
+
+// The fields this screen edits, as typed
+type Draft = Pick<UserProfile, 'goals' | 'achievements'>
+  & Pick<UserPreferences, 'wakeUpTime' | 'sleepTime' | 'checkInFrequency' | 'theme' | 'notifications'>;
+
+const toDraft = (profile: UserProfile): Draft => ({
+  goals: profile.goals,
+  achievements: profile.achievements,
+  wakeUpTime: profile.preferences.wakeUpTime,
+  sleepTime: profile.preferences.sleepTime,
+  checkInFrequency: profile.preferences.checkInFrequency,
+  theme: profile.preferences.theme,
+  notifications: profile.preferences.notifications,
+});
 
 export const ProfileScreen: React.FC = () => {
-  const { user, signOut, loading } = useAuth();
+  const { user, signOut, signOutEverywhere, loading } = useAuth();
+  const { pending } = useSync();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [loadingProfile, setLoadingProfile] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      profileService.getProfile()
+        .then((profile: UserProfile) => setDraft(toDraft(profile)))
+        .catch(() => Alert.alert('Error', 'Failed to load your profile'))
+        .finally(() => setLoadingProfile(false));
+    }, [user])
+  );
+
+  const change = (changes: Partial<Draft>) => {
+    if (draft) setDraft({ ...draft, ...changes });
+  };
+
+  const saveProfile = async () => {
+    if (!draft) return;
+    if (!TIME_PATTERN.test(draft.wakeUpTime) || !TIME_PATTERN.test(draft.sleepTime)) {
+      Alert.alert('Check your times', 'Enter wake-up and sleep times as HH:mm, e.g. 07:00');
+      return;
+    }
+
+    const { goals, achievements, ...preferences } = draft;
+    setSaving(true);
+    try {
+      const profile = await profileService.updateProfile({ goals, achievements, preferences });
+      setDraft(toDraft(profile));
+      Alert.alert('Saved', 'Your profile has been updated');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save your profile');
+    } finally {
+      setSaving(false);
+    }
+  };
 
   const handleSignOut = async () => {
     Alert.alert(
       'Sign Out',
-      'Are you sure you want to sign out?',
+      pending.length > 0
+        ? `${pending.length} change${pending.length === 1 ? ' has' : 's have'} not synced yet and will be lost. Sign out anyway?`
+        : 'Are you sure you want to sign out?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -27,6 +114,27 @@ export const ProfileScreen: React.FC = () => {
     );
   };
 
+  const handleSignOutEverywhere = () => {
+    Alert.alert(
+      'Sign Out Everywhere',
+      'This signs you out on all your devices, including this one.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out Everywhere',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await signOutEverywhere();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to sign out everywhere. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -34,7 +142,7 @@ export const ProfileScreen: React.FC = () => {
         <Text style={styles.subtitle}>User settings</Text>
       </View>
 
-      <View style={styles.content}>
+      <ScrollView contentContainerStyle={styles.content}>
         <View style={styles.profileInfo}>
           <View style={styles.avatarContainer}>
             <Ionicons name="person-circle" size={80} color="#4F46E5" />
@@ -43,6 +151,102 @@ export const ProfileScreen: React.FC = () => {
           <Text style={styles.memberId}>Member ID: {user?.id?.substring(0, 8) || 'N/A'}</Text>
         </View>
 
+        {loadingProfile && <ActivityIndicator color="#4F46E5" style={styles.loader} />}
+
+        {draft && (
+          <View style={styles.section}>
+            <Text style={styles.label}>What do you want to achieve?</Text>
+            <TextInput
+              style={[styles.input, styles.multiline]}
+              value={draft.goals}
+              onChangeText={goals => change({ goals })}
+              multiline
+              maxLength={2000}
+            />
+
+            <Text style={styles.label}>What have you already achieved?</Text>
+            <TextInput
+              style={[styles.input, styles.multiline]}
+              value={draft.achievements}
+              onChangeText={achievements => change({ achievements })}
+              multiline
+              maxLength={2000}
+            />
+
+            <View style={styles.timeRow}>
+              <View style={styles.timeField}>
+                <Text style={styles.label}>Wake up</Text>
+                <TextInput
+                  style={styles.input}
+                  value={draft.wakeUpTime}
+                  onChangeText={wakeUpTime => change({ wakeUpTime })}
+                  placeholder="07:00"
+                  maxLength={5}
+                />
+              </View>
+              <View style={styles.timeField}>
+                <Text style={styles.label}>Sleep</Text>
+                <TextInput
+                  style={styles.input}
+                  value={draft.sleepTime}
+                  onChangeText={sleepTime => change({ sleepTime })}
+                  placeholder="22:00"
+                  maxLength={5}
+                />
+              </View>
+            </View>
+
+            <Text style={styles.label}>Check in every</Text>
+            <View style={styles.chipRow}>
+              {FREQUENCY_OPTIONS.map(({ minutes, label }) => (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.chip, draft.checkInFrequency === minutes && styles.chipSelected]}
+                  onPress={() => change({ checkInFrequency: minutes })}
+                >
+                  <Text style={[styles.chipText, draft.checkInFrequency === minutes && styles.chipTextSelected]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Theme</Text>
+            <View style={styles.chipRow}>
+              {THEMES.map(theme => (
+                <TouchableOpacity
+                  key={theme}
+                  style={[styles.chip, draft.theme === theme && styles.chipSelected]}
+                  onPress={() => change({ theme })}
+                >
+                  <Text style={[styles.chipText, draft.theme === theme && styles.chipTextSelected]}>
+                    {theme}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {NOTIFICATION_LABELS.map(({ key, label }) => (
+              <View key={key} style={styles.switchRow}>
+                <Text style={styles.switchLabel}>{label}</Text>
+                <Switch
+                  value={draft.notifications[key]}
+                  onValueChange={value => change({ notifications: { ...draft.notifications, [key]: value } })}
+                  disabled={key !== 'enabled' && !draft.notifications.enabled}
+                />
+              </View>
+            ))}
+
+            <TouchableOpacity
+              style={[styles.saveButton, saving && styles.buttonDisabled]}
+              onPress={saveProfile}
+              disabled={saving}
+            >
+              <Text style={styles.saveText}>{saving ? 'Saving...' : 'Save Profile'}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         <TouchableOpacity
           style={styles.signOutButton}
           onPress={handleSignOut}
@@ -51,7 +255,15 @@ export const ProfileScreen: React.FC = () => {
           <Ionicons name="log-out-outline" size={24} color="#fff" />
           <Text style={styles.signOutText}>Sign Out</Text>
         </TouchableOpacity>
-      </View>
+
+        <TouchableOpacity
+          style={styles.signOutEverywhereButton}
+          onPress={handleSignOutEverywhere}
+          disabled={loading}
+        >
+          <Text style={styles.signOutEverywhereText}>Sign out on all devices</Text>
+        </TouchableOpacity>
+      </ScrollView>
     </View>
   );
 };
@@ -79,7 +291,6 @@ const styles = StyleSheet.create({
     color: '#6b7280',
   },
   content: {
-    flex: 1,
     padding: 24,
   },
   profileInfo: {
@@ -99,6 +310,92 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  loader: {
+    marginBottom: 24,
+  },
+  section: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  multiline: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  timeRow: {
+    flexDirection: 'row',
+  },
+  timeField: {
+    flex: 1,
+    marginRight: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#4F46E5',
+    borderColor: '#4F46E5',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4b5563',
+    textTransform: 'capitalize',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: '#1f2937',
+  },
+  saveButton: {
+    backgroundColor: '#4f46e5',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
   signOutButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -106,7 +403,6 @@ const styles = StyleSheet.create({
     backgroundColor: '#EF4444',
     padding: 16,
     borderRadius: 12,
-    marginTop: 'auto',
   },
   signOutText: {
     fontSize: 16,
@@ -114,4 +410,14 @@ const styles = StyleSheet.create({
     color: '#fff',
     marginLeft: 8,
   },
-});
\ No newline at end of file
+  signOutEverywhereButton: {
+    alignItems: 'center',
+    padding: 16,
+    marginTop: 8,
+  },
+  signOutEverywhereText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
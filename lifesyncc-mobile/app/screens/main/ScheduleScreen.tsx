@@ -15,27 +15,32 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../../contexts/AuthContext-mongodb';
 import scheduleService from '../../services/schedule.service';
+import { WeekView, startOfWeek } from '../../components/WeekView';
+import { SyncStatusBar } from '../../components/SyncStatusBar';
+import { useSync } from '../../contexts/SyncContext';
 import DateTimePicker from '@react-native-community/datetimepicker';
+import type { BlockOverlap, Category, RecurrenceFrequency, ScheduleBlock } from '@lifesync/scheduling';
 
 interface TimeSlot {
   id: string;
   time: string;
   title: string;
-  category: 'physical' | 'mental' | 'financial' | 'social' | 'personal';
+  category: Category;
   completed: boolean;
+  reason?: string;
+  recurring?: boolean;
 }
 
-interface ScheduleBlock {
-  id: string;
-  title: string;
-  category: 'physical' | 'mental' | 'financial' | 'social' | 'personal';
-  startTime: string;
-  endTime: string;
-  completed: boolean;
-  goalId?: string;
-}
+type Repeat = 'none' | Exclude<RecurrenceFrequency, 'interval'>;
+
+const repeatOptions: { value: Repeat; label: string }[] = [
+  { value: 'none', label: 'Once' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'weekly', label: 'Weekly' },
+];
 
-const categoryColors = {
+const categoryColors: Record<Category, string> = {
   physical: '#10B981',
   mental: '#8B5CF6',
   financial: '#F59E0B',
@@ -53,12 +58,16 @@ export const ScheduleScreen: React.FC = () => {
   const [showAddModal, setShowAddModal] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [editingBlock, setEditingBlock] = useState<ScheduleBlock | null>(null);
+  const [viewMode, setViewMode] = useState<'day' | 'week'>('day');
+  const [showingCached, setShowingCached] = useState(false);
+  const { lastSyncedAt } = useSync();
   
   const [newTask, setNewTask] = useState({
     title: '',
-    category: 'personal' as const,
+    category: 'personal' as Category,
     startTime: '09:00',
     endTime: '10:00',
+    repeat: 'none' as Repeat,
   });
 
   const formatDate = (date: Date) => {
@@ -76,9 +85,10 @@ export const ScheduleScreen: React.FC = () => {
     
     try {
       const dateStr = scheduleService.formatDateForAPI(selectedDate);
-      const data = await scheduleService.getSchedule(dateStr);
+      const { schedule: data, cached } = await scheduleService.loadDay(dateStr);
       setSchedule(data.blocks || []);
       setScheduleId(data._id || '');
+      setShowingCached(cached);
     } catch (error) {
       console.error('Error fetching schedule:', error);
       Alert.alert('Error', 'Failed to load schedule');
@@ -92,16 +102,44 @@ export const ScheduleScreen: React.FC = () => {
     fetchSchedule();
   }, [fetchSchedule]);
 
+  // Blocks changed offline have synced; reload the day as the server has it
+  useEffect(() => {
+    if (lastSyncedAt) {
+      fetchSchedule();
+    }
+  }, [lastSyncedAt]);
+
   const onRefresh = () => {
     setRefreshing(true);
     fetchSchedule();
   };
 
+  // Occurrences of recurring blocks are not part of the stored day, so
+  // responses for the stored day need them added back
+  const withOccurrences = (blocks: ScheduleBlock[]) => [
+    ...blocks,
+    ...schedule.filter(block => block.recurringId),
+  ].sort((a, b) => a.startTime.localeCompare(b.startTime));
+
   const toggleTaskCompletion = async (blockId: string) => {
-    if (!scheduleId) return;
-    
     const block = schedule.find(b => b.id === blockId);
     if (!block) return;
+
+    if (block.recurringId) {
+      try {
+        await scheduleService.updateOccurrence(
+          block.recurringId,
+          scheduleService.formatDateForAPI(selectedDate),
+          { completed: !block.completed }
+        );
+        setSchedule(schedule.map(b => b.id === blockId ? { ...b, completed: !b.completed } : b));
+      } catch (error) {
+        Alert.alert('Error', 'Failed to update task');
+      }
+      return;
+    }
+
+    if (!scheduleId) return;
     
     try {
       const updatedSchedule = await scheduleService.updateScheduleBlock(
@@ -109,18 +147,26 @@ export const ScheduleScreen: React.FC = () => {
         blockId,
         { completed: !block.completed }
       );
-      setSchedule(updatedSchedule.blocks);
+      setSchedule(withOccurrences(updatedSchedule.blocks));
     } catch (error) {
       Alert.alert('Error', 'Failed to update task');
     }
   };
 
-  const addTask = async () => {
+  // The blocks a new block would collide with, one line each
+  const describeConflicts = (conflicts: BlockOverlap[], blockId: string) =>
+    conflicts
+      .map(({ first, second }) => (first.id === blockId ? second : first))
+      .map(block => `${block.title} (${block.startTime}–${block.endTime})`)
+      .join('\n');
+
+  const addTask = async (allowOverlap = false) => {
     if (!newTask.title.trim()) {
       Alert.alert('Error', 'Please enter a task title');
       return;
     }
     
+    const dateStr = scheduleService.formatDateForAPI(selectedDate);
     const newBlock: ScheduleBlock = {
       id: scheduleService.generateBlockId(),
       title: newTask.title,
@@ -131,25 +177,79 @@ export const ScheduleScreen: React.FC = () => {
     };
     
     try {
-      const updatedSchedule = await scheduleService.updateSchedule(
-        scheduleService.formatDateForAPI(selectedDate),
-        [...schedule, newBlock]
-      );
-      setSchedule(updatedSchedule.blocks);
-      setScheduleId(updatedSchedule._id);
+      if (newTask.repeat === 'none') {
+        const updatedSchedule = await scheduleService.updateSchedule(
+          dateStr,
+          [...schedule, newBlock],
+          allowOverlap
+        );
+        setSchedule(withOccurrences(updatedSchedule.blocks));
+        setScheduleId(updatedSchedule._id);
+      } else {
+        // The series starts on the selected day; weekly repeats on its weekday
+        await scheduleService.createRecurringBlock({
+          title: newBlock.title,
+          category: newBlock.category,
+          startTime: newBlock.startTime,
+          endTime: newBlock.endTime,
+          rule: { frequency: newTask.repeat, startDate: dateStr },
+        });
+        await fetchSchedule();
+      }
       setShowAddModal(false);
       setNewTask({
         title: '',
         category: 'personal',
         startTime: '09:00',
         endTime: '10:00',
+        repeat: 'none',
       });
+    } catch (error: any) {
+      if (error.status === 409 && error.data?.conflicts) {
+        Alert.alert(
+          'Overlapping tasks',
+          `"${newBlock.title}" overlaps with:\n${describeConflicts(error.data.conflicts, newBlock.id)}`,
+          [
+            { text: 'Change time', style: 'cancel' },
+            { text: 'Add anyway', onPress: () => addTask(true) },
+          ]
+        );
+      } else if (error.status === 400) {
+        Alert.alert('Invalid time', 'Use 24-hour HH:MM times and end the task after it starts');
+      } else {
+        Alert.alert('Error', 'Failed to add task');
+      }
+    }
+  };
+
+  // The server plans the day from all open goals
+  const planDay = async () => {
+    try {
+      const generated = await scheduleService.generateSchedule(
+        scheduleService.formatDateForAPI(selectedDate)
+      );
+      // The generated day comes back with its occurrences already in it
+      setSchedule(generated.blocks);
+      setScheduleId(generated._id);
+
+      if (generated.unscheduled?.length > 0) {
+        Alert.alert(
+          'Some goals did not fit',
+          generated.unscheduled.map((goal: { title: string }) => goal.title).join('\n')
+        );
+      }
     } catch (error) {
-      Alert.alert('Error', 'Failed to add task');
+      Alert.alert('Error', 'Failed to plan your day');
     }
   };
 
   const deleteTask = async (blockId: string) => {
+    const block = schedule.find(b => b.id === blockId);
+    if (block?.recurringId) {
+      deleteOccurrence(block);
+      return;
+    }
+
     Alert.alert(
       'Delete Task',
       'Are you sure you want to delete this task?',
@@ -166,7 +266,7 @@ export const ScheduleScreen: React.FC = () => {
                 scheduleId,
                 blockId
               );
-              setSchedule(updatedSchedule.blocks);
+              setSchedule(withOccurrences(updatedSchedule.blocks));
             } catch (error) {
               Alert.alert('Error', 'Failed to delete task');
             }
@@ -176,12 +276,55 @@ export const ScheduleScreen: React.FC = () => {
     );
   };
 
+  const deleteOccurrence = (block: ScheduleBlock) => {
+    const recurringId = block.recurringId as string;
+    const dateStr = scheduleService.formatDateForAPI(selectedDate);
+
+    Alert.alert(
+      'Delete Repeating Task',
+      `"${block.title}" repeats. Remove only this day or every occurrence?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'This day',
+          onPress: async () => {
+            try {
+              await scheduleService.skipOccurrence(recurringId, dateStr);
+              setSchedule(schedule.filter(b => b.id !== block.id));
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete task');
+            }
+          },
+        },
+        {
+          text: 'All days',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await scheduleService.deleteRecurringBlock(recurringId);
+              setSchedule(schedule.filter(b => b.recurringId !== recurringId));
+            } catch (error) {
+              Alert.alert('Error', 'Failed to delete task');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Steps a day at a time, or a week at a time in the week view
   const navigateDate = (direction: 'prev' | 'next') => {
+    const step = viewMode === 'week' ? 7 : 1;
     const newDate = new Date(selectedDate);
-    newDate.setDate(newDate.getDate() + (direction === 'next' ? 1 : -1));
+    newDate.setDate(newDate.getDate() + (direction === 'next' ? step : -step));
     setSelectedDate(newDate);
   };
 
+  const openDay = (date: Date) => {
+    setSelectedDate(date);
+    setViewMode('day');
+  };
+
   const convertToTimeSlots = (blocks: ScheduleBlock[]): TimeSlot[] => {
     return blocks.map(block => ({
       id: block.id,
@@ -189,6 +332,8 @@ export const ScheduleScreen: React.FC = () => {
       title: block.title,
       category: block.category,
       completed: block.completed,
+      reason: block.goalId ? block.reason : undefined,
+      recurring: block.recurring,
     }));
   };
 
@@ -209,17 +354,37 @@ export const ScheduleScreen: React.FC = () => {
   }
 
   const timeSlots = convertToTimeSlots(schedule);
+  const weekStart = startOfWeek(selectedDate);
 
   return (
     <View style={styles.container}>
       <View style={styles.header}>
-        <Text style={styles.title}>Daily Schedule</Text>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>{viewMode === 'week' ? 'Weekly Schedule' : 'Daily Schedule'}</Text>
+          <View style={styles.viewToggle}>
+            {(['day', 'week'] as const).map(mode => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.viewToggleButton, viewMode === mode && styles.viewToggleActive]}
+                onPress={() => setViewMode(mode)}
+              >
+                <Text style={[styles.viewToggleText, viewMode === mode && styles.viewToggleTextActive]}>
+                  {mode === 'day' ? 'Day' : 'Week'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
         <View style={styles.dateNavigation}>
           <TouchableOpacity onPress={() => navigateDate('prev')} style={styles.navButton}>
             <Ionicons name="chevron-back" size={24} color="#4F46E5" />
           </TouchableOpacity>
           <TouchableOpacity onPress={() => setShowDatePicker(true)}>
-            <Text style={styles.date}>{formatDate(selectedDate)}</Text>
+            <Text style={styles.date}>
+              {viewMode === 'week'
+                ? `Week of ${weekStart.toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}`
+                : formatDate(selectedDate)}
+            </Text>
           </TouchableOpacity>
           <TouchableOpacity onPress={() => navigateDate('next')} style={styles.navButton}>
             <Ionicons name="chevron-forward" size={24} color="#4F46E5" />
@@ -227,78 +392,101 @@ export const ScheduleScreen: React.FC = () => {
         </View>
       </View>
 
-      <ScrollView 
-        style={styles.scrollView}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-        }
-      >
-        <View style={styles.statsContainer}>
-          <View style={styles.statCard}>
-            <Text style={styles.statValue}>{timeSlots.length}</Text>
-            <Text style={styles.statLabel}>Total Tasks</Text>
-          </View>
-          <View style={styles.statCard}>
-            <Text style={styles.statValue}>
-              {timeSlots.filter(item => item.completed).length}
-            </Text>
-            <Text style={styles.statLabel}>Completed</Text>
-          </View>
-        </View>
+      <SyncStatusBar showingCached={showingCached && viewMode === 'day'} />
 
-        <View style={styles.scheduleList}>
-          {timeSlots.length === 0 ? (
-            <View style={styles.emptyState}>
-              <Text style={styles.emptyText}>No tasks scheduled for this day</Text>
-              <TouchableOpacity 
-                style={styles.emptyButton}
-                onPress={() => setShowAddModal(true)}
-              >
-                <Text style={styles.emptyButtonText}>Add your first task</Text>
-              </TouchableOpacity>
+      {viewMode === 'week' ? (
+        <WeekView
+          weekStart={weekStart}
+          categoryColors={categoryColors}
+          onSelectDay={openDay}
+        />
+      ) : (
+        <ScrollView 
+          style={styles.scrollView}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+          }
+        >
+          <View style={styles.statsContainer}>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{timeSlots.length}</Text>
+              <Text style={styles.statLabel}>Total Tasks</Text>
             </View>
-          ) : (
-            timeSlots.map((item) => (
-              <TouchableOpacity
-                key={item.id}
-                style={[
-                  styles.scheduleItem,
-                  item.completed && styles.completedItem,
-                ]}
-                onPress={() => toggleTaskCompletion(item.id)}
-                onLongPress={() => deleteTask(item.id)}
-                activeOpacity={0.7}
-              >
-                <View style={styles.timeContainer}>
-                  <Text style={[styles.time, item.completed && styles.completedText]}>
-                    {item.time}
-                  </Text>
-                </View>
-                
-                <View style={styles.taskContainer}>
-                  <View
-                    style={[
-                      styles.categoryIndicator,
-                      { backgroundColor: categoryColors[item.category] },
-                    ]}
-                  />
-                  <View style={styles.taskDetails}>
-                    <Text style={[styles.taskTitle, item.completed && styles.completedText]}>
-                      {item.title}
-                    </Text>
-                    <Text style={[styles.taskCategory, item.completed && styles.completedText]}>
-                      {item.category}
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>
+                {timeSlots.filter(item => item.completed).length}
+              </Text>
+              <Text style={styles.statLabel}>Completed</Text>
+            </View>
+          </View>
+
+          <View style={styles.scheduleList}>
+            {timeSlots.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyText}>No tasks scheduled for this day</Text>
+                <TouchableOpacity 
+                  style={styles.emptyButton}
+                  onPress={planDay}
+                >
+                  <Text style={styles.emptyButtonText}>Plan my day from my goals</Text>
+                </TouchableOpacity>
+                <TouchableOpacity 
+                  style={[styles.emptyButton, styles.secondaryEmptyButton]}
+                  onPress={() => setShowAddModal(true)}
+                >
+                  <Text style={[styles.emptyButtonText, styles.secondaryEmptyButtonText]}>Add a task</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              timeSlots.map((item) => (
+                <TouchableOpacity
+                  key={item.id}
+                  style={[
+                    styles.scheduleItem,
+                    item.completed && styles.completedItem,
+                  ]}
+                  onPress={() => toggleTaskCompletion(item.id)}
+                  onLongPress={() => deleteTask(item.id)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.timeContainer}>
+                    <Text style={[styles.time, item.completed && styles.completedText]}>
+                      {item.time}
                     </Text>
                   </View>
-                  {item.completed && (
-                    <Ionicons name="checkmark-circle" size={24} color="#10B981" />
-                  )}
-                </View>
-              </TouchableOpacity>
-            ))
-          )}
-        </View>
-      </ScrollView>
+                
+                  <View style={styles.taskContainer}>
+                    <View
+                      style={[
+                        styles.categoryIndicator,
+                        { backgroundColor: categoryColors[item.category] },
+                      ]}
+                    />
+                    <View style={styles.taskDetails}>
+                      <Text style={[styles.taskTitle, item.completed && styles.completedText]}>
+                        {item.title}
+                      </Text>
+                      <Text style={[styles.taskCategory, item.completed && styles.completedText]}>
+                        {item.category}
+                        {item.recurring && ' • '}
+                        {item.recurring && <Ionicons name="repeat" size={12} color="#6b7280" />}
+                      </Text>
+                      {item.reason && (
+                        <Text style={[styles.taskReason, item.completed && styles.completedText]}>
+                          {item.reason}
+                        </Text>
+                      )}
+                    </View>
+                    {item.completed && (
+                      <Ionicons name="checkmark-circle" size={24} color="#10B981" />
+                    )}
+                  </View>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        </ScrollView>
+      )}
 
       <TouchableOpacity 
         style={styles.addButton}
@@ -367,6 +555,27 @@ export const ScheduleScreen: React.FC = () => {
                 />
               </View>
             </View>
+
+            <Text style={styles.label}>Repeat</Text>
+            <View style={styles.categoryButtons}>
+              {repeatOptions.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.repeatButton,
+                    newTask.repeat === option.value && styles.selectedRepeat,
+                  ]}
+                  onPress={() => setNewTask({ ...newTask, repeat: option.value })}
+                >
+                  <Text style={[
+                    styles.repeatButtonText,
+                    newTask.repeat === option.value && styles.selectedRepeatText,
+                  ]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
             
             <View style={styles.modalButtons}>
               <TouchableOpacity
@@ -377,7 +586,7 @@ export const ScheduleScreen: React.FC = () => {
               </TouchableOpacity>
               <TouchableOpacity
                 style={[styles.modalButton, styles.saveButton]}
-                onPress={addTask}
+                onPress={() => addTask()}
               >
                 <Text style={styles.saveButtonText}>Add Task</Text>
               </TouchableOpacity>
@@ -413,11 +622,38 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#f3f4f6',
   },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
   title: {
     fontSize: 28,
     fontWeight: 'bold',
     color: '#1f2937',
-    marginBottom: 12,
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#f3f4f6',
+    borderRadius: 8,
+    padding: 2,
+  },
+  viewToggleButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+  },
+  viewToggleActive: {
+    backgroundColor: '#fff',
+  },
+  viewToggleText: {
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  viewToggleTextActive: {
+    color: '#4F46E5',
+    fontWeight: '600',
   },
   dateNavigation: {
     flexDirection: 'row',
@@ -522,6 +758,11 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     textTransform: 'capitalize',
   },
+  taskReason: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
   completedText: {
     textDecorationLine: 'line-through',
     color: '#9ca3af',
@@ -568,6 +809,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  secondaryEmptyButton: {
+    marginTop: 12,
+    backgroundColor: 'transparent',
+  },
+  secondaryEmptyButtonText: {
+    color: '#4F46E5',
+  },
   modalContainer: {
     flex: 1,
     justifyContent: 'flex-end',
@@ -621,6 +869,27 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textTransform: 'capitalize',
   },
+  repeatButton: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedRepeat: {
+    backgroundColor: '#4F46E5',
+    borderColor: '#4F46E5',
+  },
+  repeatButtonText: {
+    fontSize: 14,
+    color: '#4b5563',
+  },
+  selectedRepeatText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
   timeRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1,96 +0,0 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_URL } from '../config/api';
-
-class ApiService {
-  constructor() {
-    this.baseURL = API_URL;
-  }
-
-  async getAuthToken() {
-    try {
-      return await AsyncStorage.getItem('authToken');
-    } catch (error) {
-      console.error('Error getting auth token:', error);
-      return null;
-    }
-  }
-
-  async setAuthToken(token) {
-    try {
-      await AsyncStorage.setItem('authToken', token);
-    } catch (error) {
-      console.error('Error saving auth token:', error);
-    }
-  }
-
-  async removeAuthToken() {
-    try {
-      await AsyncStorage.removeItem('authToken');
-    } catch (error) {
-      console.error('Error removing auth token:', error);
-    }
-  }
-
-  async request(endpoint, options = {}) {
-    const url = `${this.baseURL}${endpoint}`;
-    console.log('Making request to:', url);
-    const token = await this.getAuthToken();
-
-    const config = {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    };
-
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-
-    console.log('Request config:', { method: config.method, headers: config.headers });
-
-    try {
-      const response = await fetch(url, config);
-      console.log('Response status:', response.status);
-      const data = await response.json();
-      console.log('Response data:', data);
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Request failed');
-      }
-
-      return data;
-    } catch (error) {
-      console.error('API request error:', error);
-      if (error.message === 'Network request failed') {
-        throw new Error('Unable to connect to server. Please check your internet connection.');
-      }
-      throw error;
-    }
-  }
-
-  get(endpoint) {
-    return this.request(endpoint, { method: 'GET' });
-  }
-
-  post(endpoint, data) {
-    return this.request(endpoint, {
-      method: 'POST',
-      body: JSON.stringify(data),
-    });
-  }
-
-  put(endpoint, data) {
-    return this.request(endpoint, {
-      method: 'PUT',
-      body: JSON.stringify(data),
-    });
-  }
-
-  delete(endpoint) {
-    return this.request(endpoint, { method: 'DELETE' });
-  }
-}
-
-export default new ApiService();
\ No newline at end of file
@@ -0,0 +1,21 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_URL } from '../config/api';
+import { createApiClient, TokenStore } from './apiClient';
+
+const TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+const tokenStore: TokenStore = {
+  get: async () => {
+    const [[, token], [, refreshToken]] = await AsyncStorage.multiGet([TOKEN_KEY, REFRESH_TOKEN_KEY]);
+    // Tokens saved before refresh tokens existed cannot be renewed
+    return token && refreshToken ? { token, refreshToken } : null;
+  },
+  set: ({ token, refreshToken }) => AsyncStorage.multiSet([[TOKEN_KEY, token], [REFRESH_TOKEN_KEY, refreshToken]]),
+  remove: () => AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY]),
+};
+
+const api = createApiClient({ baseUrl: API_URL, tokenStore });
+
+export { ApiError } from './apiClient';
+export default api;
@@ -0,0 +1,364 @@
+import type {
+  Commitment,
+  OccurrenceOverride,
+  RecurringBlock,
+  ScheduleBlock,
+  ScheduleDay,
+  SchedulePreferences,
+  UnscheduledGoal,
+} from '@lifesync/scheduling';
+import type {
+  ActionItem,
+  CheckIn,
+  CheckInMood,
+  CheckInStatus,
+  Goal,
+  NotificationSettings,
+  ProgressEntry,
+  QuietHours,
+  User,
+  UserPreferences,
+  UserProfile,
+} from '../../shared/types';
+
+const NETWORK_ERROR_MESSAGE = 'Unable to connect to server. Please check your internet connection.';
+
+/**
+ * Every failed request rejects with an ApiError: `status` is the HTTP
+ * status, or 0 when the server could not be reached, and `data` the error
+ * body, e.g. the `conflicts` of a 409.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly data: Record<string, any>;
+
+  constructor(message: string, status: number, data: Record<string, any> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+    // Babel's class transform otherwise loses the prototype of Error subclasses
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
+
+// A short-lived access token and the refresh token that renews it
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// Where the session is kept between app starts
+export interface TokenStore {
+  get(): Promise<SessionTokens | null>;
+  set(tokens: SessionTokens): Promise<void>;
+  remove(): Promise<void>;
+}
+
+export interface ApiClientOptions {
+  // Origin of the API; paths are requested below `${baseUrl}/api`
+  baseUrl: string;
+  tokenStore: TokenStore;
+  fetch?: typeof fetch;
+}
+
+type Method = 'GET' | 'POST' | 'PUT' | 'DELETE';
+type Query = Record<string, string | number | boolean | undefined>;
+
+// Requests that carry their own credentials are never retried after a refresh
+const SESSION_PATHS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+];
+
+export interface AuthResponse extends SessionTokens {
+  message: string;
+  user: User;
+}
+
+export type GoalInput = Omit<Goal, '_id' | 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+// Numeric goals take currentValue, milestones progress
+export interface ProgressUpdate {
+  currentValue?: number;
+  progress?: number;
+  note?: string;
+}
+
+// A day's schedule with its recurring occurrences merged in; `_id` is
+// missing for days that were never stored
+export interface DaySchedule {
+  _id?: string;
+  userId: string;
+  date: string;
+  blocks: ScheduleBlock[];
+}
+
+export interface StoredSchedule extends DaySchedule {
+  _id: string;
+}
+
+export interface GenerateScheduleOptions {
+  preferences?: Partial<SchedulePreferences>;
+  commitments?: Commitment[];
+}
+
+export type OccurrenceUpdate = Omit<OccurrenceOverride, 'date'> & { reset?: boolean };
+
+// Goal amounts: added to numeric goals, percentage points for milestones.
+// Habits need no amount; they are checked off for the day.
+export interface GoalProgressInput {
+  goalId: string;
+  amount?: number;
+}
+
+export interface CheckInInput {
+  date: string;
+  mood: CheckInMood;
+  notes: string;
+  completedTasks: string[];
+  goalProgress: GoalProgressInput[];
+}
+
+export interface CheckInPage {
+  checkIns: CheckIn[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+export interface CheckInQuery {
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Fields left out stay as they are, also inside the nested preferences
+export interface ProfileUpdate {
+  goals?: string;
+  achievements?: string;
+  preferences?: Partial<Omit<UserPreferences, 'quietHours' | 'notifications'>> & {
+    quietHours?: Partial<QuietHours>;
+    notifications?: Partial<NotificationSettings>;
+  };
+}
+
+const toQuery = (query: Query = {}) => {
+  const pairs = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+  return pairs.length > 0 ? `?${pairs.join('&')}` : '';
+};
+
+/**
+ * The one HTTP client of the app. It sends the stored access token with
+ * every request, renews it when it has expired and turns error responses
+ * into ApiErrors.
+ */
+export const createApiClient = ({ baseUrl, tokenStore, fetch: fetchImpl = fetch }: ApiClientOptions) => {
+  const sessionEndListeners = new Set<() => void>();
+  let refreshing: Promise<boolean> | null = null;
+
+  const send = async (method: Method, path: string, { body, query }: { body?: unknown; query?: Query } = {}) => {
+    const session = await tokenStore.get();
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (session) {
+      headers.Authorization = `Bearer ${session.token}`;
+    }
+
+    try {
+      return await fetchImpl(`${baseUrl}/api${path}${toQuery(query)}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new ApiError(NETWORK_ERROR_MESSAGE, 0);
+    }
+  };
+
+  // Proxies and timeouts may answer with something other than JSON
+  const readBody = async <T>(response: Response) => {
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new ApiError(data?.error || `Request failed with status ${response.status}`, response.status, data || {});
+    }
+    return data as T;
+  };
+
+  const endSession = async () => {
+    await tokenStore.remove();
+    sessionEndListeners.forEach(listener => listener());
+  };
+
+  // Swaps the refresh token for new tokens; false once the session has ended.
+  // Requests failing together share one refresh.
+  const refreshSession = () => {
+    refreshing = refreshing || (async () => {
+      const session = await tokenStore.get();
+      if (!session) {
+        return false;
+      }
+
+      const response = await send('POST', '/auth/refresh', { body: { refreshToken: session.refreshToken } });
+      if (response.status === 400 || response.status === 401) {
+        await endSession();
+        return false;
+      }
+      await tokenStore.set(await readBody<SessionTokens>(response));
+      return true;
+    })().finally(() => {
+      refreshing = null;
+    });
+
+    return refreshing;
+  };
+
+  const request = async <T>(method: Method, path: string, options: { body?: unknown; query?: Query } = {}) => {
+    let response = await send(method, path, options);
+    if (response.status === 401 && !SESSION_PATHS.includes(path) && (await refreshSession())) {
+      response = await send(method, path, options);
+    }
+    return readBody<T>(response);
+  };
+
+  const signIn = async (path: string, email: string, password: string) => {
+    const data = await request<AuthResponse>('POST', path, { body: { email, password } });
+    await tokenStore.set({ token: data.token, refreshToken: data.refreshToken });
+    return data;
+  };
+
+  const auth = {
+    login: (email: string, password: string) => signIn('/auth/login', email, password),
+    register: (email: string, password: string) => signIn('/auth/register', email, password),
+    getUser: async () => (await request<{ user: User }>('GET', '/auth/user')).user,
+    // Revokes the session on the server; offline it is only forgotten here
+    logout: async () => {
+      const session = await tokenStore.get();
+      await tokenStore.remove();
+      if (session) {
+        await request('POST', '/auth/logout', { body: { refreshToken: session.refreshToken } }).catch(() => undefined);
+      }
+    },
+    // Revokes the sessions of every device signed in to the account
+    logoutEverywhere: async () => {
+      await request('POST', '/auth/logout-all');
+      await tokenStore.remove();
+    },
+    isAuthenticated: async () => Boolean(await tokenStore.get()),
+    // Mails a reset code if an account uses this email; the reply is the
+    // same either way
+    forgotPassword: async (email: string) =>
+      (await request<{ message: string }>('POST', '/auth/forgot-password', { body: { email } })).message,
+    // Revokes every session of the account, so all devices sign in again
+    resetPassword: async (token: string, password: string) =>
+      (await request<{ message: string }>('POST', '/auth/reset-password', { body: { token, password } })).message,
+    // Called when the session ended without a logout here: it expired, or
+    // it was revoked from another device
+    onSessionEnd: (listener: () => void) => {
+      sessionEndListeners.add(listener);
+      return () => {
+        sessionEndListeners.delete(listener);
+      };
+    },
+  };
+
+  const goals = {
+    list: async (filters: { category?: Goal['category']; completed?: boolean } = {}) =>
+      (await request<{ goals: Goal[] }>('GET', '/goals', { query: filters })).goals,
+    get: async (id: string) => (await request<{ goal: Goal }>('GET', `/goals/${id}`)).goal,
+    create: async (goal: GoalInput) => (await request<{ goal: Goal }>('POST', '/goals', { body: goal })).goal,
+    update: async (id: string, updates: Partial<Goal>) =>
+      (await request<{ goal: Goal }>('PUT', `/goals/${id}`, { body: updates })).goal,
+    remove: async (id: string) => {
+      await request('DELETE', `/goals/${id}`);
+    },
+    updateProgress: async (id: string, progress: ProgressUpdate) =>
+      (await request<{ goal: Goal }>('PUT', `/goals/${id}/progress`, { body: progress })).goal,
+    progressHistory: async (id: string) =>
+      (await request<{ entries: ProgressEntry[] }>('GET', `/goals/${id}/progress`)).entries,
+    // Habit stats in the response count `date` as today
+    checkOff: async (id: string, date: string, done: boolean) =>
+      (await request<{ goal: Goal }>(done ? 'POST' : 'DELETE', `/goals/${id}/check-off`, {
+        body: { date },
+        query: { today: date },
+      })).goal,
+    addActionItem: async (goalId: string, item: Pick<ActionItem, 'title'> & Partial<ActionItem>) =>
+      (await request<{ goal: Goal }>('POST', `/goals/${goalId}/action-items`, { body: item })).goal,
+    updateActionItem: async (goalId: string, itemId: string, updates: Partial<ActionItem>) =>
+      (await request<{ goal: Goal }>('PUT', `/goals/${goalId}/action-items/${itemId}`, { body: updates })).goal,
+    deleteActionItem: async (goalId: string, itemId: string) =>
+      (await request<{ goal: Goal }>('DELETE', `/goals/${goalId}/action-items/${itemId}`)).goal,
+  };
+
+  const schedule = {
+    getDay: (date: string) => request<DaySchedule>('GET', `/schedule/${date}`),
+    // Days from `from` to `to` ('YYYY-MM-DD', inclusive), each with a summary
+    getRange: async (from: string, to: string) =>
+      (await request<{ days: ScheduleDay[] }>('GET', '/schedule', { query: { from, to } })).days,
+    // Overlapping blocks are rejected with a 409 listing the conflicts
+    // unless allowOverlap is set
+    save: (date: string, blocks: ScheduleBlock[], allowOverlap = false) =>
+      request<StoredSchedule>('POST', '/schedule', { body: { date, blocks, allowOverlap } }),
+    // `goal` is the linked goal when completing the block changed its progress
+    updateBlock: (scheduleId: string, blockId: string, updates: Partial<ScheduleBlock>, allowOverlap = false) =>
+      request<StoredSchedule & { goal?: Goal | null }>('PUT', '/schedule', {
+        body: { scheduleId, blockId, updates, allowOverlap },
+      }),
+    deleteBlock: (scheduleId: string, blockId: string) =>
+      request<StoredSchedule>('DELETE', '/schedule', { body: { scheduleId, blockId } }),
+    // Without goals the server plans all open goals of the user
+    generate: (date: string, goalsToPlan?: Goal[], options: GenerateScheduleOptions = {}) =>
+      request<StoredSchedule & { unscheduled: UnscheduledGoal[] }>('POST', '/schedule/generate', {
+        body: { date, goals: goalsToPlan, ...options },
+      }),
+    listRecurring: async () =>
+      (await request<{ recurringBlocks: RecurringBlock[] }>('GET', '/schedule/recurring')).recurringBlocks,
+    createRecurring: async (block: Omit<RecurringBlock, 'id' | '_id'>) =>
+      (await request<{ recurringBlock: RecurringBlock }>('POST', '/schedule/recurring', { body: block })).recurringBlock,
+    deleteRecurring: async (recurringId: string) => {
+      await request('DELETE', `/schedule/recurring/${recurringId}`);
+    },
+    // Changes only the occurrence on `date`; { reset: true } drops the change
+    updateOccurrence: async (recurringId: string, date: string, updates: OccurrenceUpdate) =>
+      (await request<{ recurringBlock: RecurringBlock }>('PUT', `/schedule/recurring/${recurringId}/occurrences/${date}`, {
+        body: updates,
+      })).recurringBlock,
+    skipOccurrence: async (recurringId: string, date: string) =>
+      (await request<{ recurringBlock: RecurringBlock }>('DELETE', `/schedule/recurring/${recurringId}/occurrences/${date}`))
+        .recurringBlock,
+  };
+
+  const checkIns = {
+    // Nothing is applied when any goal amount is rejected; the error's
+    // data.invalidProgress says which
+    create: (checkIn: CheckInInput) => request<{ checkIn: CheckIn; goals: Goal[] }>('POST', '/checkins', { body: checkIn }),
+    // Newest first; `from` and `to` are 'YYYY-MM-DD' days, both inclusive
+    list: (query: CheckInQuery = {}) => request<CheckInPage>('GET', '/checkins', { query: { ...query } }),
+    remove: async (id: string) => {
+      await request('DELETE', `/checkins/${id}`);
+    },
+    status: () => request<CheckInStatus>('GET', '/checkins/status'),
+    updateSettings: (settings: Partial<Pick<UserPreferences, 'checkInFrequency' | 'quietHours'>>) =>
+      request<CheckInStatus>('PUT', '/checkins/settings', { body: settings }),
+    // Holds prompts for `minutes` on every device; 0 ends the snooze
+    snooze: (minutes: number) => request<CheckInStatus>('POST', '/checkins/snooze', { body: { minutes } }),
+  };
+
+  const profile = {
+    // Created with default preferences on the first request
+    get: async () => (await request<{ profile: UserProfile }>('GET', '/profile')).profile,
+    update: async (changes: ProfileUpdate) =>
+      (await request<{ profile: UserProfile }>('PUT', '/profile', { body: changes })).profile,
+  };
+
+  return { request, auth, goals, schedule, checkIns, profile };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,64 @@
+import api from './api';
+import goalService from './goalService';
+import scheduleService from './schedule.service';
+import syncQueue from './sync';
+
+class AuthService {
+  // Both keep the session token for later requests
+  async login(email: string, password: string) {
+    return api.auth.login(email, password);
+  }
+
+  async register(email: string, password: string) {
+    return api.auth.register(email, password);
+  }
+
+  async getCurrentUser() {
+    try {
+      return await api.auth.getUser();
+    } catch (error) {
+      console.error('getCurrentUser error:', error);
+      // Return null instead of throwing to prevent app from getting stuck
+      return null;
+    }
+  }
+
+  async logout() {
+    await api.auth.logout();
+    await this.clearLocalData();
+  }
+
+  async logoutEverywhere() {
+    await api.auth.logoutEverywhere();
+    await this.clearLocalData();
+  }
+
+  async forgotPassword(email: string) {
+    return api.auth.forgotPassword(email);
+  }
+
+  async resetPassword(token: string, password: string) {
+    return api.auth.resetPassword(token, password);
+  }
+
+  // The session expired or was revoked from another device
+  onSessionEnd(listener: () => void) {
+    return api.auth.onSessionEnd(() => {
+      this.clearLocalData().finally(listener);
+    });
+  }
+
+  // Changes still queued and the data kept for offline use belong to the
+  // signed-out user
+  private async clearLocalData() {
+    await syncQueue.clear();
+    await goalService.clearOfflineGoals();
+    await scheduleService.clearOfflineSchedules();
+  }
+
+  async isAuthenticated() {
+    return api.auth.isAuthenticated();
+  }
+}
+
+export default new AuthService();
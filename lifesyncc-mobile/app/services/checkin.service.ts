@@ -0,0 +1,62 @@
+import api from './api';
+import scheduleService from './schedule.service';
+import { CheckInInput, CheckInQuery } from './apiClient';
+
+class CheckInService {
+  // completedTasks are goal ids and goalProgress lists { goalId, amount }:
+  // an amount added to numeric goals, percentage points for milestones,
+  // none for habits, which are checked off for the day. Resolves to
+  // { checkIn, goals } with the updated goals; nothing is applied when any
+  // amount is rejected
+  async createCheckIn(checkIn: Omit<CheckInInput, 'date'>) {
+    try {
+      return await api.checkIns.create({ ...checkIn, date: scheduleService.formatDateForAPI(new Date()) });
+    } catch (error) {
+      console.error('Error saving check-in:', error);
+      throw error;
+    }
+  }
+
+  // Newest first: { checkIns, total, page, limit, hasMore }. `from` and `to`
+  // are 'YYYY-MM-DD' days, both inclusive
+  async getCheckIns({ from, to, page = 1, limit = 20 }: CheckInQuery = {}) {
+    try {
+      return await api.checkIns.list({ from, to, page, limit });
+    } catch (error) {
+      console.error('Error fetching check-ins:', error);
+      throw error;
+    }
+  }
+
+  // { checkInFrequency, quietHours, lastCheckInAt, snoozedUntil, dueAt },
+  // shared by every device the user checks in from
+  async getStatus() {
+    try {
+      return await api.checkIns.status();
+    } catch (error) {
+      console.error('Error fetching check-in status:', error);
+      throw error;
+    }
+  }
+
+  // Holds prompts for `minutes` on every device; 0 ends the snooze
+  async snooze(minutes: number) {
+    try {
+      return await api.checkIns.snooze(minutes);
+    } catch (error) {
+      console.error('Error snoozing check-ins:', error);
+      throw error;
+    }
+  }
+
+  async deleteCheckIn(checkInId: string) {
+    try {
+      await api.checkIns.remove(checkInId);
+    } catch (error) {
+      console.error('Error deleting check-in:', error);
+      throw error;
+    }
+  }
+}
+
+export default new CheckInService();
@@ -1,104 +1,196 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { API_URL } from '../config/api';
-
-export interface Goal {
-  _id?: string;
-  id?: string;
-  category: 'physical' | 'mental' | 'financial' | 'social';
-  title: string;
-  description: string;
-  type: 'milestone' | 'numeric' | 'habit';
-  priority?: 'high' | 'medium' | 'low';
-  progress: number;
-  targetValue?: number;
-  currentValue?: number;
-  unit?: string;
-  dueDate?: Date;
-  completed: boolean;
-  createdAt?: Date;
-  updatedAt?: Date;
-}
+import { ActionItem, Goal } from '../../shared/types';
+import api from './api';
+import { GoalInput, ProgressUpdate } from './apiClient';
+import syncQueue, { createLocalId, isLocalId } from './sync';
+import { isOffline, PendingChange } from './syncQueue';
+
+export type { Goal };
+
+const OFFLINE_GOALS_KEY = 'offline_goals';
+
+// Goals created offline go by their clientId until they have synced
+export const getGoalId = (goal: Goal) => goal._id || goal.id || goal.clientId || '';
+
+// The server's progress rule, so goals changed offline show the progress
+// they will sync to
+const withProgress = (goal: Goal): Goal => {
+  let { progress } = goal;
+  if ((goal.type === 'numeric' || goal.type === 'habit') && goal.targetValue) {
+    progress = Math.min(Math.round(((goal.currentValue || 0) / goal.targetValue) * 100), 100);
+  }
+  return { ...goal, progress, completed: goal.completed || progress >= 100 };
+};
+
+const checkedOff = (goal: Goal, date: string, done: boolean): Goal => {
+  const completions = goal.completions || [];
+  if (completions.includes(date) === done) {
+    return goal;
+  }
+
+  const step = done ? 1 : -1;
+  return withProgress({
+    ...goal,
+    completions: done ? [...completions, date] : completions.filter(day => day !== date),
+    currentValue: Math.max((goal.currentValue || 0) + step, 0),
+    habitStats: goal.habitStats && {
+      ...goal.habitStats,
+      completedToday: done,
+      completedThisWeek: Math.max(goal.habitStats.completedThisWeek + step, 0),
+      totalCompletions: Math.max(goal.habitStats.totalCompletions + step, 0),
+    },
+  });
+};
 
 class GoalService {
-  private async getAuthToken(): Promise<string | null> {
-    return await AsyncStorage.getItem('token');
-  }
-
-  private async makeRequest(url: string, options: RequestInit = {}) {
-    const token = await this.getAuthToken();
-    
-    const headers = {
-      'Content-Type': 'application/json',
-      ...(token && { Authorization: `Bearer ${token}` }),
-      ...options.headers,
-    };
-
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Request failed');
+  async getGoals(filters?: { category?: Goal['category']; completed?: boolean }): Promise<Goal[]> {
+    return api.goals.list(filters);
+  }
+
+  // Replays queued changes first. Offline, or while changes still wait, the
+  // goals cached on this device are returned, with the changes made since.
+  async loadGoals(): Promise<{ goals: Goal[]; cached: boolean }> {
+    const { pending } = await syncQueue.flush();
+    const cached = await this.getOfflineGoals();
+    if (pending > 0 && cached) {
+      return { goals: cached, cached: true };
     }
 
-    return response.json();
+    try {
+      const goals = await api.goals.list();
+      await this.saveGoalsOffline(goals);
+      return { goals, cached: false };
+    } catch (error) {
+      if (!isOffline(error) || !cached) throw error;
+      return { goals: cached, cached: true };
+    }
   }
 
-  async getGoals(filters?: { category?: string; completed?: boolean }): Promise<Goal[]> {
-    const params = new URLSearchParams();
-    if (filters?.category) params.append('category', filters.category);
-    if (filters?.completed !== undefined) params.append('completed', filters.completed.toString());
-    
-    const url = `${API_URL}/goals${params.toString() ? `?${params.toString()}` : ''}`;
-    const data = await this.makeRequest(url);
-    return data.goals;
-  }
+  // Offline, goals are created here first and sync with their clientId
+  async createGoal(goal: GoalInput): Promise<Goal> {
+    if (!(await syncQueue.mustQueue())) {
+      try {
+        return await this.cacheGoal(await api.goals.create(goal));
+      } catch (error) {
+        if (!isOffline(error)) throw error;
+      }
+    }
 
-  async createGoal(goal: Omit<Goal, '_id' | 'id' | 'createdAt' | 'updatedAt'>): Promise<Goal> {
-    const data = await this.makeRequest(`${API_URL}/goals`, {
-      method: 'POST',
-      body: JSON.stringify(goal),
-    });
-    return data.goal;
+    const clientId = createLocalId();
+    await syncQueue.enqueue({ kind: 'createGoal', clientId, goal }, `Create "${goal.title}"`);
+    return this.cacheGoal(withProgress({ ...goal, clientId, progress: 0 }));
   }
 
   async updateGoal(id: string, updates: Partial<Goal>): Promise<Goal> {
-    const data = await this.makeRequest(`${API_URL}/goals/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(updates),
-    });
-    return data.goal;
+    return this.sendOrQueue(
+      { kind: 'updateGoal', goalId: id, updates },
+      () => api.goals.update(id, updates),
+      goal => ({ label: `Edit "${goal.title}"`, goal: withProgress({ ...goal, ...updates }) })
+    );
   }
 
+  // Goals created offline are dropped here with the changes queued for them
   async deleteGoal(id: string): Promise<void> {
-    await this.makeRequest(`${API_URL}/goals/${id}`, {
-      method: 'DELETE',
-    });
+    if (isLocalId(id)) {
+      await syncQueue.discardGoal(id);
+    } else {
+      await api.goals.remove(id);
+    }
+    const goals = (await this.getOfflineGoals()) || [];
+    await this.saveGoalsOffline(goals.filter(goal => getGoalId(goal) !== id));
+  }
+
+  async updateProgress(id: string, progressData: ProgressUpdate): Promise<Goal> {
+    const { currentValue, progress } = progressData;
+    return this.sendOrQueue(
+      { kind: 'goalProgress', goalId: id, progress: progressData },
+      () => api.goals.updateProgress(id, progressData),
+      goal => ({
+        label: `Progress on "${goal.title}"`,
+        goal: withProgress({
+          ...goal,
+          currentValue: currentValue ?? goal.currentValue,
+          progress: progress ?? goal.progress,
+        }),
+      })
+    );
+  }
+
+  async getProgressHistory(id: string) {
+    return api.goals.progressHistory(id);
+  }
+
+  async checkOffHabit(id: string, date: string, done: boolean): Promise<Goal> {
+    return this.sendOrQueue(
+      { kind: 'checkOff', goalId: id, date, done },
+      () => api.goals.checkOff(id, date, done),
+      goal => ({
+        label: `${done ? 'Check off' : 'Uncheck'} "${goal.title}" on ${date}`,
+        goal: checkedOff(goal, date, done),
+      })
+    );
+  }
+
+  async addActionItem(goalId: string, item: Pick<ActionItem, 'title'> & Partial<ActionItem>): Promise<Goal> {
+    return api.goals.addActionItem(goalId, item);
+  }
+
+  async updateActionItem(goalId: string, itemId: string, updates: Partial<ActionItem>): Promise<Goal> {
+    return api.goals.updateActionItem(goalId, itemId, updates);
+  }
+
+  async deleteActionItem(goalId: string, itemId: string): Promise<Goal> {
+    return api.goals.deleteActionItem(goalId, itemId);
+  }
+
+  // Sends the change unless it has to wait for the queue or the connection.
+  // Queued changes are applied to the cached goal, which is returned.
+  private async sendOrQueue(
+    change: PendingChange & { goalId: string },
+    send: () => Promise<Goal>,
+    applyLocally: (goal: Goal) => { label: string; goal: Goal }
+  ): Promise<Goal> {
+    let networkError: unknown = null;
+    if (!(await syncQueue.mustQueue(change.goalId))) {
+      try {
+        return await this.cacheGoal(await send());
+      } catch (error) {
+        if (!isOffline(error)) throw error;
+        networkError = error;
+      }
+    }
+
+    const cached = ((await this.getOfflineGoals()) || []).find(goal => getGoalId(goal) === change.goalId);
+    if (!cached) {
+      throw networkError || new Error('Goal not found on this device');
+    }
+
+    const { label, goal } = applyLocally(cached);
+    await syncQueue.enqueue(change, label);
+    return this.cacheGoal(goal);
   }
 
-  async updateProgress(id: string, progressData: { currentValue?: number; progress?: number }): Promise<Goal> {
-    const data = await this.makeRequest(`${API_URL}/goals/${id}/progress`, {
-      method: 'PUT',
-      body: JSON.stringify(progressData),
-    });
-    return data.goal;
+  private async cacheGoal(goal: Goal): Promise<Goal> {
+    const goals = (await this.getOfflineGoals()) || [];
+    const key = getGoalId(goal);
+    const cached = goals.some(other => getGoalId(other) === key);
+    await this.saveGoalsOffline(cached ? goals.map(other => (getGoalId(other) === key ? goal : other)) : [...goals, goal]);
+    return goal;
   }
 
   // Offline support methods
   async saveGoalsOffline(goals: Goal[]): Promise<void> {
-    await AsyncStorage.setItem('offline_goals', JSON.stringify(goals));
+    await AsyncStorage.setItem(OFFLINE_GOALS_KEY, JSON.stringify(goals));
   }
 
   async getOfflineGoals(): Promise<Goal[] | null> {
-    const data = await AsyncStorage.getItem('offline_goals');
+    const data = await AsyncStorage.getItem(OFFLINE_GOALS_KEY);
     return data ? JSON.parse(data) : null;
   }
 
   async clearOfflineGoals(): Promise<void> {
-    await AsyncStorage.removeItem('offline_goals');
+    await AsyncStorage.removeItem(OFFLINE_GOALS_KEY);
   }
 }
 
-export default new GoalService();
\ No newline at end of file
+export default new GoalService();
@@ -0,0 +1,28 @@
+import api from './api';
+import { ProfileUpdate } from './apiClient';
+
+class ProfileService {
+  // The server creates the profile with default preferences on the first
+  // request
+  async getProfile() {
+    try {
+      return await api.profile.get();
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+      throw error;
+    }
+  }
+
+  // Only the given fields change, also inside preferences.quietHours and
+  // preferences.notifications. Resolves to the updated profile
+  async updateProfile(changes: ProfileUpdate) {
+    try {
+      return await api.profile.update(changes);
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      throw error;
+    }
+  }
+}
+
+export default new ProfileService();
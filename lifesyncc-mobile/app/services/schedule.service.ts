@@ -0,0 +1,230 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { RecurringBlock, ScheduleBlock } from '@lifesync/scheduling';
+import type { Goal } from '../../shared/types';
+import api from './api';
+import { DaySchedule, GenerateScheduleOptions, OccurrenceUpdate, StoredSchedule } from './apiClient';
+import syncQueue from './sync';
+import { isOffline } from './syncQueue';
+
+const OFFLINE_SCHEDULES_KEY = 'offline_schedules';
+// Only the latest days are kept on the device
+const CACHED_DAYS = 14;
+
+const blockLabel = (title: string, updates: Partial<ScheduleBlock>) => {
+  if (updates.completed === undefined) return `Edit "${title}"`;
+  return `${updates.completed ? 'Complete' : 'Reopen'} "${title}"`;
+};
+
+class ScheduleService {
+  async getSchedule(date: string) {
+    try {
+      return await api.schedule.getDay(date);
+    } catch (error) {
+      console.error('Error fetching schedule:', error);
+      throw error;
+    }
+  }
+
+  // Replays queued changes first. Offline, or while changes still wait, the
+  // day as last loaded on this device is returned, with the changes made since.
+  async loadDay(date: string): Promise<{ schedule: DaySchedule; cached: boolean }> {
+    const { pending } = await syncQueue.flush();
+    const cached = (await this.getOfflineSchedules())[date];
+    if (pending > 0 && cached) {
+      return { schedule: cached, cached: true };
+    }
+
+    try {
+      const schedule = await api.schedule.getDay(date);
+      await this.saveScheduleOffline(schedule);
+      return { schedule, cached: false };
+    } catch (error) {
+      if (!isOffline(error) || !cached) {
+        console.error('Error fetching schedule:', error);
+        throw error;
+      }
+      return { schedule: cached, cached: true };
+    }
+  }
+
+  // Days from `from` to `to` ('YYYY-MM-DD', inclusive), each with its blocks
+  // and a summary: { date, scheduleId, blocks, summary }
+  async getScheduleRange(from: string, to: string) {
+    try {
+      return await api.schedule.getRange(from, to);
+    } catch (error) {
+      console.error('Error fetching schedule range:', error);
+      throw error;
+    }
+  }
+
+  // Overlapping blocks are rejected with a 409 listing the conflicts unless
+  // allowOverlap is set
+  async updateSchedule(date: string, blocks: ScheduleBlock[], allowOverlap = false) {
+    try {
+      return await api.schedule.save(date, blocks, allowOverlap);
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      throw error;
+    }
+  }
+
+  // Offline the change is queued and the cached day returned with it
+  async updateScheduleBlock(
+    scheduleId: string,
+    blockId: string,
+    updates: Partial<ScheduleBlock>,
+    allowOverlap = false
+  ): Promise<StoredSchedule & { goal?: Goal | null }> {
+    const day = Object.values(await this.getOfflineSchedules()).find(cached => cached._id === scheduleId);
+    const matches = (block: ScheduleBlock) => !block.recurringId && block.id === blockId;
+
+    try {
+      if (!(await syncQueue.mustQueue())) {
+        const updated = await api.schedule.updateBlock(scheduleId, blockId, updates, allowOverlap);
+        if (day) await this.updateCachedBlock(day.date, matches, updates);
+        return updated;
+      }
+    } catch (error) {
+      if (!isOffline(error) || !day) {
+        console.error('Error updating schedule block:', error);
+        throw error;
+      }
+    }
+
+    const block = day?.blocks.find(matches);
+    if (!day || !block) {
+      throw new Error('Schedule not found on this device');
+    }
+    await syncQueue.enqueue({ kind: 'updateBlock', scheduleId, blockId, updates }, blockLabel(block.title, updates));
+    const blocks = await this.updateCachedBlock(day.date, matches, updates);
+    return { ...day, _id: scheduleId, blocks: blocks.filter(cached => !cached.recurringId) };
+  }
+
+  async deleteScheduleBlock(scheduleId: string, blockId: string) {
+    try {
+      return await api.schedule.deleteBlock(scheduleId, blockId);
+    } catch (error) {
+      console.error('Error deleting schedule block:', error);
+      throw error;
+    }
+  }
+
+  // Without goals the server plans all open goals of the user.
+  // options: { preferences: { wakeTime, sleepTime }, commitments: [...] }
+  async generateSchedule(date: string, goals?: Goal[], options: GenerateScheduleOptions = {}) {
+    try {
+      return await api.schedule.generate(date, goals, options);
+    } catch (error) {
+      console.error('Error generating schedule:', error);
+      throw error;
+    }
+  }
+
+  async getRecurringBlocks() {
+    try {
+      return await api.schedule.listRecurring();
+    } catch (error) {
+      console.error('Error fetching recurring blocks:', error);
+      throw error;
+    }
+  }
+
+  // rule: { frequency: 'daily' | 'weekdays' | 'weekly' | 'interval', daysOfWeek, interval, startDate, until }
+  async createRecurringBlock(block: Omit<RecurringBlock, 'id' | '_id'>) {
+    try {
+      return await api.schedule.createRecurring(block);
+    } catch (error) {
+      console.error('Error creating recurring block:', error);
+      throw error;
+    }
+  }
+
+  async deleteRecurringBlock(recurringId: string) {
+    try {
+      await api.schedule.deleteRecurring(recurringId);
+    } catch (error) {
+      console.error('Error deleting recurring block:', error);
+      throw error;
+    }
+  }
+
+  // Changes only the occurrence on `date`, e.g. { completed: true } or { reset: true }.
+  // Offline the change is queued and null returned.
+  async updateOccurrence(recurringId: string, date: string, updates: OccurrenceUpdate): Promise<RecurringBlock | null> {
+    const matches = (block: ScheduleBlock) => block.recurringId === recurringId;
+    const { reset, ...changes } = updates;
+
+    try {
+      if (!(await syncQueue.mustQueue())) {
+        const updated = await api.schedule.updateOccurrence(recurringId, date, updates);
+        if (!reset) await this.updateCachedBlock(date, matches, changes);
+        return updated;
+      }
+    } catch (error) {
+      if (!isOffline(error) || reset) {
+        console.error('Error updating occurrence:', error);
+        throw error;
+      }
+    }
+
+    const block = (await this.getOfflineSchedules())[date]?.blocks.find(matches);
+    if (!block || reset) {
+      throw new Error('Schedule not found on this device');
+    }
+    await syncQueue.enqueue({ kind: 'updateOccurrence', recurringId, date, updates }, blockLabel(block.title, changes));
+    await this.updateCachedBlock(date, matches, changes);
+    return null;
+  }
+
+  async skipOccurrence(recurringId: string, date: string) {
+    try {
+      return await api.schedule.skipOccurrence(recurringId, date);
+    } catch (error) {
+      console.error('Error skipping occurrence:', error);
+      throw error;
+    }
+  }
+
+  // Resolves to the day's blocks after the change
+  private async updateCachedBlock(date: string, matches: (block: ScheduleBlock) => boolean, updates: Partial<ScheduleBlock>) {
+    const day = (await this.getOfflineSchedules())[date];
+    if (!day) return [];
+
+    const blocks = day.blocks.map(block => (matches(block) ? { ...block, ...updates } : block));
+    await this.saveScheduleOffline({ ...day, blocks });
+    return blocks;
+  }
+
+  // Offline support methods
+  async saveScheduleOffline(schedule: DaySchedule): Promise<void> {
+    const days = { ...(await this.getOfflineSchedules()), [schedule.date]: schedule };
+    const kept = Object.keys(days).sort().slice(-CACHED_DAYS);
+    await AsyncStorage.setItem(
+      OFFLINE_SCHEDULES_KEY,
+      JSON.stringify(Object.fromEntries(kept.map(date => [date, days[date]])))
+    );
+  }
+
+  async getOfflineSchedules(): Promise<Record<string, DaySchedule>> {
+    const data = await AsyncStorage.getItem(OFFLINE_SCHEDULES_KEY);
+    return data ? JSON.parse(data) : {};
+  }
+
+  async clearOfflineSchedules(): Promise<void> {
+    await AsyncStorage.removeItem(OFFLINE_SCHEDULES_KEY);
+  }
+
+  formatDateForAPI(date: Date) {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+
+  generateBlockId() {
+    return `block-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+export default new ScheduleService();
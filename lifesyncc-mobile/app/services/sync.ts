@@ -0,0 +1,8 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from './api';
+import { createSyncQueue } from './syncQueue';
+
+const syncQueue = createSyncQueue({ storage: AsyncStorage, api });
+
+export { createLocalId, isLocalId } from './syncQueue';
+export default syncQueue;
@@ -0,0 +1,237 @@
+import type { ScheduleBlock } from '@lifesync/scheduling';
+import type { Goal } from '../../shared/types';
+import { ApiClient, ApiError, GoalInput, OccurrenceUpdate, ProgressUpdate } from './apiClient';
+
+const STORAGE_KEY = 'sync_queue';
+const LOCAL_ID_PREFIX = 'local-';
+
+/**
+ * A change that could not be sent when it was made. Goals created offline
+ * are referred to by their clientId until their create has synced.
+ */
+export type PendingChange =
+  | { kind: 'createGoal'; clientId: string; goal: GoalInput }
+  | { kind: 'updateGoal'; goalId: string; updates: Partial<Goal> }
+  | { kind: 'goalProgress'; goalId: string; progress: ProgressUpdate }
+  | { kind: 'checkOff'; goalId: string; date: string; done: boolean }
+  | { kind: 'updateBlock'; scheduleId: string; blockId: string; updates: Partial<ScheduleBlock> }
+  | { kind: 'updateOccurrence'; recurringId: string; date: string; updates: OccurrenceUpdate };
+
+// `label` says what the change was, e.g. 'Progress on "Run 5k"'
+export type QueuedChange = PendingChange & { id: string; label: string; queuedAt: string };
+
+// A queued change the server turned down when it was replayed
+export interface SyncConflict {
+  change: QueuedChange;
+  status: number;
+  message: string;
+}
+
+export interface SyncState {
+  pending: QueuedChange[];
+  conflicts: SyncConflict[];
+  syncing: boolean;
+  // When a replay last got changes to the server, so screens know to reload
+  lastSyncedAt: string | null;
+}
+
+// What one replay did; `conflicts` are only the ones it found
+export interface SyncResult {
+  synced: number;
+  conflicts: SyncConflict[];
+  pending: number;
+}
+
+// The part of AsyncStorage the queue uses
+export interface QueueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+interface StoredQueue {
+  pending: QueuedChange[];
+  conflicts: SyncConflict[];
+}
+
+const randomId = (prefix: string) => `${prefix}${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+export const createLocalId = () => randomId(LOCAL_ID_PREFIX);
+
+export const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+export const isOffline = (error: unknown) => error instanceof ApiError && error.status === 0;
+
+// Offline, signed out or a failing server: the change is kept for the next
+// replay. Any other error response turns the change down for good.
+const isRejection = (error: unknown): error is ApiError =>
+  error instanceof ApiError
+  && error.status >= 400
+  && error.status < 500
+  && ![401, 408, 429].includes(error.status);
+
+const goalIdOf = (change: PendingChange) => ('goalId' in change ? change.goalId : undefined);
+
+const withGoalId = (change: QueuedChange, from: string, to: string): QueuedChange =>
+  'goalId' in change && change.goalId === from ? { ...change, goalId: to } : change;
+
+/**
+ * Keeps changes made offline in storage and replays them in the order they
+ * were made. Nothing is sent while earlier changes wait, so a replay never
+ * overtakes them.
+ */
+export const createSyncQueue = ({ storage, api }: { storage: QueueStorage; api: ApiClient }) => {
+  const listeners = new Set<(state: SyncState) => void>();
+  let stored: Promise<StoredQueue> | null = null;
+  let running: Promise<SyncResult> | null = null;
+  let lastSyncedAt: string | null = null;
+
+  const load = () => {
+    stored = stored || storage.getItem(STORAGE_KEY).then(raw =>
+      raw ? JSON.parse(raw) : { pending: [], conflicts: [] }
+    );
+    return stored;
+  };
+
+  const getState = async (): Promise<SyncState> => {
+    const { pending, conflicts } = await load();
+    return { pending, conflicts, syncing: running !== null, lastSyncedAt };
+  };
+
+  const notify = async () => {
+    const state = await getState();
+    listeners.forEach(listener => listener(state));
+  };
+
+  const update = async (change: (queue: StoredQueue) => void) => {
+    const queue = await load();
+    change(queue);
+    await storage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    await notify();
+  };
+
+  // Changes to goals created offline wait for their create, all others for
+  // the changes queued before them
+  const mustQueue = async (goalId?: string) =>
+    (goalId !== undefined && isLocalId(goalId)) || (await load()).pending.length > 0;
+
+  const enqueue = (change: PendingChange, label: string) =>
+    update(queue => {
+      queue.pending = [...queue.pending, { ...change, id: randomId('change-'), label, queuedAt: new Date().toISOString() }];
+    });
+
+  // Resolves to the server id of a goal the change created
+  const replay = async (change: QueuedChange): Promise<string | undefined> => {
+    switch (change.kind) {
+      case 'createGoal': {
+        // The clientId makes a repeated create return the first goal
+        const goal = await api.goals.create({ ...change.goal, clientId: change.clientId });
+        return goal._id || goal.id;
+      }
+      case 'updateGoal':
+        await api.goals.update(change.goalId, change.updates);
+        return undefined;
+      case 'goalProgress':
+        await api.goals.updateProgress(change.goalId, change.progress);
+        return undefined;
+      case 'checkOff':
+        await api.goals.checkOff(change.goalId, change.date, change.done);
+        return undefined;
+      case 'updateBlock':
+        await api.schedule.updateBlock(change.scheduleId, change.blockId, change.updates);
+        return undefined;
+      case 'updateOccurrence':
+        await api.schedule.updateOccurrence(change.recurringId, change.date, change.updates);
+        return undefined;
+    }
+  };
+
+  const replayAll = async (): Promise<SyncResult> => {
+    const queue = await load();
+    const conflicts: SyncConflict[] = [];
+    let synced = 0;
+
+    while (queue.pending.length > 0) {
+      const [change] = queue.pending;
+      try {
+        const goalId = await replay(change);
+        await update(current => {
+          current.pending = current.pending
+            .filter(queued => queued.id !== change.id)
+            .map(queued => (change.kind === 'createGoal' && goalId ? withGoalId(queued, change.clientId, goalId) : queued));
+        });
+        synced++;
+      } catch (error) {
+        if (!isRejection(error)) {
+          if (!(error instanceof ApiError)) {
+            console.error('Error replaying queued change:', error);
+          }
+          break;
+        }
+
+        // Changes to a goal that could not be created are turned down with it
+        const rejected: SyncConflict[] = queue.pending
+          .filter(queued => queued.id === change.id
+            || (change.kind === 'createGoal' && goalIdOf(queued) === change.clientId))
+          .map(queued => ({
+            change: queued,
+            status: error.status,
+            message: queued.id === change.id ? error.message : 'The goal it changes could not be created',
+          }));
+        conflicts.push(...rejected);
+        await update(current => {
+          current.pending = current.pending.filter(queued => !rejected.some(conflict => conflict.change.id === queued.id));
+          current.conflicts = [...current.conflicts, ...rejected];
+        });
+      }
+    }
+
+    if (synced > 0) {
+      lastSyncedAt = new Date().toISOString();
+    }
+    return { synced, conflicts, pending: queue.pending.length };
+  };
+
+  // Calls made while a replay runs share it
+  const flush = () => {
+    if (!running) {
+      running = replayAll().finally(() => {
+        running = null;
+        notify();
+      });
+      notify();
+    }
+    return running;
+  };
+
+  // Drops a goal created offline together with the changes made to it
+  const discardGoal = (clientId: string) =>
+    update(queue => {
+      queue.pending = queue.pending.filter(change =>
+        (change.kind === 'createGoal' ? change.clientId : goalIdOf(change)) !== clientId
+      );
+    });
+
+  const dismissConflicts = () =>
+    update(queue => {
+      queue.conflicts = [];
+    });
+
+  // Pending changes belong to the signed-in user
+  const clear = () =>
+    update(queue => {
+      queue.pending = [];
+      queue.conflicts = [];
+    });
+
+  const subscribe = (listener: (state: SyncState) => void) => {
+    listeners.add(listener);
+    getState().then(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { getState, mustQueue, enqueue, flush, discardGoal, dismissConflicts, clear, subscribe };
+};
+
+export type SyncQueue = ReturnType<typeof createSyncQueue>;
@@ -0,0 +1,15 @@
+// @lifesync/scheduling is linked from ../packages/scheduling, outside the
+// project root. Metro only bundles files under its watch folders, and
+// resolves the package's imports from this app's node_modules.
+const path = require('path');
+const { getDefaultConfig } = require('expo/metro-config');
+
+const projectRoot = __dirname;
+const schedulingRoot = path.resolve(projectRoot, '../packages/scheduling');
+
+const config = getDefaultConfig(projectRoot);
+
+config.watchFolders = [...(config.watchFolders || []), schedulingRoot];
+config.resolver.nodeModulesPaths = [path.resolve(projectRoot, 'node_modules')];
+
+module.exports = config;
@@ -1,31 +1,70 @@
 // Shared types for both web and mobile apps
 
+// The signed-in user as the auth endpoints return it
 export interface User {
   id: string;
   email: string;
-  displayName?: string;
-  photoURL?: string;
-  createdAt: Date;
-  lastActive: Date;
-  role: 'user' | 'admin';
+  createdAt: string;
 }
 
+// Goals from the API carry `_id`; `id` is kept for goals cached by older
+// versions of the app
 export interface Goal {
-  id: string;
-  userId: string;
+  _id?: string;
+  id?: string;
+  userId?: string;
+  // Id given by the app to goals created offline; `_id` is missing until
+  // the create has synced
+  clientId?: string;
   category: 'physical' | 'mental' | 'financial' | 'social';
   title: string;
   description: string;
   type: 'milestone' | 'numeric' | 'habit';
-  priority: 'high' | 'medium' | 'low';
+  priority?: 'high' | 'medium' | 'low';
   progress: number;
   targetValue?: number;
   currentValue?: number;
   unit?: string;
+  // Numeric goals: added to currentValue for each completed schedule block
+  scheduleIncrement?: number;
+  // Milestones: minutes of completed schedule blocks
+  minutesInvested?: number;
   dueDate?: Date;
+  frequency?: HabitFrequency;
+  completions?: string[];
+  habitStats?: HabitStats;
+  actionItems?: ActionItem[];
   completed: boolean;
-  createdAt: Date;
-  updatedAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface HabitFrequency {
+  period: 'daily' | 'weekdays' | 'weekly';
+  timesPerWeek?: number;
+}
+
+export interface HabitStats extends Required<HabitFrequency> {
+  currentStreak: number;
+  longestStreak: number;
+  completionRate: number;
+  streakUnit: 'days' | 'weeks';
+  completedToday: boolean;
+  completedThisWeek: number;
+  lastCompletedOn: string | null;
+  totalCompletions: number;
+}
+
+export interface ProgressEntry {
+  _id: string;
+  goalId: string;
+  userId: string;
+  value: number;
+  delta: number;
+  progress?: number;
+  note: string;
+  source: 'manual' | 'edit' | 'check-off' | 'action-items' | 'schedule' | 'check-in';
+  timestamp: Date;
 }
 
 export interface CategoryGoals {
@@ -35,9 +74,10 @@ export interface CategoryGoals {
 
 export interface ActionItem {
   id: string;
-  userId: string;
+  _id?: string;
   title: string;
   completed: boolean;
+  completedAt?: Date;
   dueDate?: Date;
   priority: 'high' | 'medium' | 'low';
   createdAt: Date;
@@ -69,10 +109,26 @@ export interface UserPreferences {
   wakeUpTime: string;
   sleepTime: string;
   checkInFrequency: number; // in minutes
+  quietHours: QuietHours;
   notifications: NotificationSettings;
   theme: 'light' | 'dark' | 'system';
 }
 
+// No check-in prompts from start to end ('HH:mm'), which may run past midnight
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+// When the next check-in prompt is due; times are ISO strings
+export interface CheckInStatus {
+  checkInFrequency: number;
+  quietHours: QuietHours;
+  lastCheckInAt: string | null;
+  snoozedUntil: string | null;
+  dueAt: string;
+}
+
 export interface NotificationSettings {
   enabled: boolean;
   checkInReminders: boolean;
@@ -80,19 +136,40 @@ export interface NotificationSettings {
   dailyProgress: boolean;
 }
 
+export type CheckInMood = 'great' | 'good' | 'okay' | 'struggling';
+
+// A goal ticked in a check-in, as it was named at the time
+export interface CheckInGoal {
+  goalId: string;
+  title: string;
+  category?: string;
+}
+
+// Progress a check-in applied: a check-off for habits, an amount added to
+// numeric goals, percentage points for milestones
+export interface CheckInProgress {
+  goalId: string;
+  kind: 'check-off' | 'increment' | 'percent';
+  amount: number;
+  progress?: number;
+}
+
 export interface CheckIn {
-  id: string;
+  _id: string;
   userId: string;
-  timestamp: Date;
-  mood: 'great' | 'good' | 'okay' | 'struggling';
+  date: string;
+  timestamp: string;
+  mood: CheckInMood;
   notes: string;
   completedTasks: string[];
-  goalProgress: { goalId: string; progress: number }[];
+  goals: CheckInGoal[];
+  goalProgress: CheckInProgress[];
 }
 
+// One day of GET /api/analytics?from&to, written by the daily snapshot job
 export interface Analytics {
-  userId: string;
-  date: Date;
+  date: string;
+  // Average progress of the goals in each category, 0-100
   categoryProgress: {
     physical: number;
     mental: number;
@@ -101,7 +178,15 @@ export interface Analytics {
   };
   completedGoals: number;
   totalGoals: number;
-  moodScore: number;
+  // Average mood of the day's check-ins, 1 (struggling) to 4 (great)
+  moodScore: number | null;
+  checkIns: number;
+  schedule: {
+    total: number;
+    completed: number;
+    plannedMinutes: number;
+    completedMinutes: number;
+  };
 }
 
 // MongoDB collection names
@@ -0,0 +1,286 @@
+import test, { after, before, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ApiError, createApiClient, SessionTokens, TokenStore } from '../app/services/apiClient';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  authorization?: string;
+  contentType?: string;
+  body: any;
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+// Replies are kept per "METHOD /path", optionally one per request in
+// order; every request is recorded
+let replies: Record<string, MockResponse | MockResponse[]> = {};
+let requests: RecordedRequest[] = [];
+
+const server = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    requests.push({
+      method: req.method || '',
+      url: req.url || '',
+      authorization: req.headers.authorization,
+      contentType: req.headers['content-type'],
+      body: raw ? JSON.parse(raw) : undefined,
+    });
+
+    const path = (req.url || '').split('?')[0];
+    const stored = replies[`${req.method} ${path}`];
+    const reply = (Array.isArray(stored) ? stored.shift() : stored) || { status: 404, body: { error: 'Not found' } };
+    res.statusCode = reply.status;
+    if (typeof reply.body === 'string') {
+      res.setHeader('Content-Type', 'text/html');
+      res.end(reply.body);
+    } else {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(reply.body));
+    }
+  });
+});
+
+const memoryTokenStore = (token?: string): TokenStore & { tokens: SessionTokens | null } => ({
+  tokens: token ? { token, refreshToken: `refresh-${token}` } : null,
+  async get() { return this.tokens; },
+  async set(tokens) { this.tokens = tokens; },
+  async remove() { this.tokens = null; },
+});
+
+let baseUrl = '';
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  replies = {};
+  requests = [];
+});
+
+test('requests go below /api with the stored token and a JSON body', async () => {
+  const api = createApiClient({ baseUrl, tokenStore: memoryTokenStore('abc') });
+  replies['PUT /api/goals/g1/progress'] = { status: 200, body: { goal: { _id: 'g1', progress: 40 } } };
+
+  const goal = await api.goals.updateProgress('g1', { currentValue: 4, note: 'Ran' });
+
+  assert.deepEqual(goal, { _id: 'g1', progress: 40 });
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].method, 'PUT');
+  assert.equal(requests[0].authorization, 'Bearer abc');
+  assert.equal(requests[0].contentType, 'application/json');
+  assert.deepEqual(requests[0].body, { currentValue: 4, note: 'Ran' });
+});
+
+test('query values are encoded and undefined ones left out', async () => {
+  const api = createApiClient({ baseUrl, tokenStore: memoryTokenStore('abc') });
+  replies['GET /api/checkins'] = {
+    status: 200,
+    body: { checkIns: [], total: 0, page: 2, limit: 5, hasMore: false },
+  };
+  replies['GET /api/goals'] = { status: 200, body: { goals: [] } };
+
+  await api.checkIns.list({ from: '2026-10-01', page: 2, limit: 5 });
+  await api.goals.list({ completed: false });
+  await api.goals.list();
+
+  assert.equal(requests[0].url, '/api/checkins?from=2026-10-01&page=2&limit=5');
+  assert.equal(requests[1].url, '/api/goals?completed=false');
+  assert.equal(requests[2].url, '/api/goals');
+});
+
+test('signing in keeps the token for later requests and logout drops it', async () => {
+  const tokenStore = memoryTokenStore();
+  const api = createApiClient({ baseUrl, tokenStore });
+  const user = { id: 'u1', email: 'sam@example.com', createdAt: '2026-10-19T00:00:00.000Z' };
+  replies['POST /api/auth/login'] = {
+    status: 200,
+    body: { message: 'Login successful', token: 'fresh', refreshToken: 'refresh-fresh', user },
+  };
+  replies['POST /api/auth/logout'] = { status: 200, body: { message: 'Signed out' } };
+  replies['GET /api/auth/user'] = { status: 200, body: { user } };
+
+  const session = await api.auth.login('sam@example.com', 'secret');
+  assert.deepEqual(session.user, user);
+  assert.equal(requests[0].authorization, undefined);
+  assert.deepEqual(requests[0].body, { email: 'sam@example.com', password: 'secret' });
+  assert.deepEqual(tokenStore.tokens, { token: 'fresh', refreshToken: 'refresh-fresh' });
+
+  assert.deepEqual(await api.auth.getUser(), user);
+  assert.equal(requests[1].authorization, 'Bearer fresh');
+
+  await api.auth.logout();
+  assert.equal(await api.auth.isAuthenticated(), false);
+  assert.equal(requests[2].url, '/api/auth/logout');
+  assert.deepEqual(requests[2].body, { refreshToken: 'refresh-fresh' });
+});
+
+test('a failed sign-in keeps no token', async () => {
+  const tokenStore = memoryTokenStore();
+  const api = createApiClient({ baseUrl, tokenStore });
+  replies['POST /api/auth/login'] = { status: 401, body: { error: 'Invalid credentials' } };
+
+  await assert.rejects(api.auth.login('sam@example.com', 'wrong'), { status: 401, message: 'Invalid credentials' });
+  assert.equal(tokenStore.tokens, null);
+});
+
+test('error responses reject with an ApiError carrying the status and body', async () => {
+  const api = createApiClient({ baseUrl, tokenStore: memoryTokenStore('abc') });
+  const conflicts = [{ first: { id: 'a' }, second: { id: 'b' } }];
+  replies['POST /api/schedule'] = {
+    status: 409,
+    body: { error: 'Blocks overlap. Send allowOverlap: true to save anyway', conflicts },
+  };
+
+  const error = await api.schedule.save('2026-10-19', []).catch(caught => caught);
+
+  assert.ok(error instanceof ApiError);
+  assert.equal(error.status, 409);
+  assert.equal(error.message, 'Blocks overlap. Send allowOverlap: true to save anyway');
+  assert.deepEqual(error.data.conflicts, conflicts);
+  assert.deepEqual(requests[0].body, { date: '2026-10-19', blocks: [], allowOverlap: false });
+});
+
+test('error responses that are not JSON still reject with their status', async () => {
+  const api = createApiClient({ baseUrl, tokenStore: memoryTokenStore('abc') });
+  replies['GET /api/profile'] = { status: 504, body: '<html>Gateway Timeout</html>' };
+
+  await assert.rejects(api.profile.get(), (error: unknown) => {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.status, 504);
+    assert.equal(error.message, 'Request failed with status 504');
+    assert.deepEqual(error.data, {});
+    return true;
+  });
+});
+
+test('an unreachable server rejects with status 0', async () => {
+  const api = createApiClient({
+    baseUrl,
+    tokenStore: memoryTokenStore('abc'),
+    fetch: async () => { throw new TypeError('Network request failed'); },
+  });
+
+  await assert.rejects(api.checkIns.status(), (error: unknown) => {
+    assert.ok(error instanceof ApiError);
+    assert.equal(error.status, 0);
+    assert.match(error.message, /Unable to connect to server/);
+    return true;
+  });
+});
+
+test('habit check-offs send the day in the body and as today', async () => {
+  const api = createApiClient({ baseUrl, tokenStore: memoryTokenStore('abc') });
+  replies['DELETE /api/goals/h1/check-off'] = { status: 200, body: { goal: { _id: 'h1' } } };
+
+  await api.goals.checkOff('h1', '2026-10-19', false);
+
+  assert.equal(requests[0].method, 'DELETE');
+  assert.equal(requests[0].url, '/api/goals/h1/check-off?today=2026-10-19');
+  assert.deepEqual(requests[0].body, { date: '2026-10-19' });
+});
+
+test('an expired access token is refreshed once and the request sent again', async () => {
+  const tokenStore = memoryTokenStore('old');
+  const api = createApiClient({ baseUrl, tokenStore });
+  replies['GET /api/goals'] = [
+    { status: 401, body: { error: 'Please authenticate' } },
+    { status: 401, body: { error: 'Please authenticate' } },
+    { status: 200, body: { goals: [] } },
+    { status: 200, body: { goals: [] } },
+  ];
+  replies['POST /api/auth/refresh'] = { status: 200, body: { token: 'new', refreshToken: 'refresh-new' } };
+
+  // Both requests fail together and share the refresh
+  await Promise.all([api.goals.list(), api.goals.list()]);
+
+  const refreshes = requests.filter(request => request.url === '/api/auth/refresh');
+  assert.equal(refreshes.length, 1);
+  assert.deepEqual(refreshes[0].body, { refreshToken: 'refresh-old' });
+  assert.deepEqual(tokenStore.tokens, { token: 'new', refreshToken: 'refresh-new' });
+  assert.deepEqual(
+    requests.filter(request => request.url === '/api/goals').map(request => request.authorization),
+    ['Bearer old', 'Bearer old', 'Bearer new', 'Bearer new']
+  );
+});
+
+test('a refused refresh ends the session', async () => {
+  const tokenStore = memoryTokenStore('old');
+  const api = createApiClient({ baseUrl, tokenStore });
+  let ended = 0;
+  api.auth.onSessionEnd(() => { ended++; });
+  replies['GET /api/profile'] = { status: 401, body: { error: 'Please authenticate' } };
+  replies['POST /api/auth/refresh'] = { status: 401, body: { error: 'Session expired. Please sign in again' } };
+
+  await assert.rejects(api.profile.get(), { status: 401 });
+
+  assert.equal(tokenStore.tokens, null);
+  assert.equal(ended, 1);
+  assert.equal(requests.filter(request => request.url === '/api/profile').length, 1);
+});
+
+test('a refresh that cannot reach the server keeps the session', async () => {
+  const tokenStore = memoryTokenStore('old');
+  let calls = 0;
+  const api = createApiClient({
+    baseUrl,
+    tokenStore,
+    fetch: async () => {
+      calls++;
+      if (calls > 1) throw new TypeError('Network request failed');
+      return new Response(JSON.stringify({ error: 'Please authenticate' }), { status: 401 });
+    },
+  });
+
+  await assert.rejects(api.goals.list(), { status: 0 });
+  assert.deepEqual(tokenStore.tokens, { token: 'old', refreshToken: 'refresh-old' });
+});
+
+test('signing out everywhere revokes all sessions before forgetting the tokens', async () => {
+  const tokenStore = memoryTokenStore('abc');
+  const api = createApiClient({ baseUrl, tokenStore });
+  replies['POST /api/auth/logout-all'] = { status: 200, body: { message: 'Signed out on all devices', revoked: 3 } };
+
+  await api.auth.logoutEverywhere();
+
+  assert.equal(requests[0].authorization, 'Bearer abc');
+  assert.equal(tokenStore.tokens, null);
+});
+
+test('password resets are sent without a session and report the server message', async () => {
+  const tokenStore = memoryTokenStore();
+  const api = createApiClient({ baseUrl, tokenStore });
+  replies['POST /api/auth/forgot-password'] = {
+    status: 200,
+    body: { message: 'If an account exists for this email, a reset link is on its way' },
+  };
+  replies['POST /api/auth/reset-password'] = [
+    { status: 400, body: { error: 'This reset link is invalid or has expired' } },
+    { status: 200, body: { message: 'Password updated. Please sign in' } },
+  ];
+
+  assert.equal(
+    await api.auth.forgotPassword('a@b.c'),
+    'If an account exists for this email, a reset link is on its way'
+  );
+  await assert.rejects(api.auth.resetPassword('used', 'secret1'), {
+    status: 400,
+    message: 'This reset link is invalid or has expired',
+  });
+  assert.equal(await api.auth.resetPassword('code', 'secret1'), 'Password updated. Please sign in');
+
+  assert.deepEqual(requests[0].body, { email: 'a@b.c' });
+  assert.deepEqual(requests[2].body, { token: 'code', password: 'secret1' });
+  assert.equal(requests[0].authorization, undefined);
+});
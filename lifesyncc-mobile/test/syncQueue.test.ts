@@ -0,0 +1,180 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createApiClient } from '../app/services/apiClient';
+import { createLocalId, createSyncQueue, QueueStorage } from '../app/services/syncQueue';
+import type { GoalInput } from '../app/services/apiClient';
+
+interface SentRequest {
+  method: string;
+  path: string;
+  body: any;
+}
+
+type Reply = { status: number; body: unknown } | 'offline';
+
+// A server answering from a list of replies, one per request in order
+const fakeServer = (replies: Reply[]) => {
+  const sent: SentRequest[] = [];
+  const fetch = async (url: string | URL | Request, init?: RequestInit) => {
+    const reply = replies.shift() || { status: 200, body: {} };
+    if (reply === 'offline') {
+      throw new TypeError('Network request failed');
+    }
+    sent.push({
+      method: init?.method || 'GET',
+      path: new URL(String(url)).pathname,
+      body: init?.body ? JSON.parse(String(init.body)) : undefined,
+    });
+    return new Response(JSON.stringify(reply.body), { status: reply.status });
+  };
+  return { sent, fetch: fetch as typeof globalThis.fetch };
+};
+
+const memoryStorage = (): QueueStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    async getItem(key) { return items.get(key) ?? null; },
+    async setItem(key, value) { items.set(key, value); },
+  };
+};
+
+const setup = (replies: Reply[], storage = memoryStorage()) => {
+  const server = fakeServer(replies);
+  const api = createApiClient({
+    baseUrl: 'http://api.test',
+    tokenStore: { get: async () => ({ token: 'abc', refreshToken: 'r1' }), set: async () => {}, remove: async () => {} },
+    fetch: server.fetch,
+  });
+  return { ...server, storage, queue: createSyncQueue({ storage, api }) };
+};
+
+const runGoal: GoalInput = {
+  category: 'physical',
+  title: 'Run 5k',
+  description: '',
+  type: 'numeric',
+  progress: 0,
+  targetValue: 5,
+  currentValue: 0,
+  completed: false,
+};
+
+test('changes are replayed in order and later ones use the id of the goal created first', async () => {
+  const { queue, sent } = setup([
+    { status: 201, body: { goal: { _id: 'g1', ...runGoal } } },
+    { status: 200, body: { goal: { _id: 'g1' } } },
+    { status: 200, body: { schedule: {} } },
+  ]);
+  const clientId = createLocalId();
+
+  await queue.enqueue({ kind: 'createGoal', clientId, goal: runGoal }, 'Create "Run 5k"');
+  await queue.enqueue({ kind: 'goalProgress', goalId: clientId, progress: { currentValue: 2 } }, 'Progress on "Run 5k"');
+  await queue.enqueue(
+    { kind: 'updateBlock', scheduleId: 's1', blockId: 'b1', updates: { completed: true } },
+    'Complete "Run"'
+  );
+
+  const result = await queue.flush();
+
+  assert.deepEqual(result, { synced: 3, conflicts: [], pending: 0 });
+  assert.deepEqual(sent.map(({ method, path }) => `${method} ${path}`), [
+    'POST /api/goals',
+    'PUT /api/goals/g1/progress',
+    'PUT /api/schedule',
+  ]);
+  assert.equal(sent[0].body.clientId, clientId);
+  assert.deepEqual(sent[2].body, { scheduleId: 's1', blockId: 'b1', updates: { completed: true }, allowOverlap: false });
+
+  const state = await queue.getState();
+  assert.equal(state.pending.length, 0);
+  assert.ok(state.lastSyncedAt);
+});
+
+test('offline the queue stops at the first change and keeps all of them', async () => {
+  const { queue, sent } = setup(['offline']);
+  await queue.enqueue({ kind: 'updateGoal', goalId: 'g1', updates: { title: 'Run 10k' } }, 'Edit "Run 5k"');
+  await queue.enqueue({ kind: 'checkOff', goalId: 'g2', date: '2026-10-19', done: true }, 'Check off "Read"');
+
+  const result = await queue.flush();
+
+  assert.deepEqual(result, { synced: 0, conflicts: [], pending: 2 });
+  assert.equal(sent.length, 0);
+  assert.equal((await queue.getState()).lastSyncedAt, null);
+});
+
+test('server failures keep the change for the next replay', async () => {
+  const { queue } = setup([{ status: 503, body: { error: 'Unavailable' } }]);
+  await queue.enqueue({ kind: 'updateGoal', goalId: 'g1', updates: { title: 'Run 10k' } }, 'Edit "Run 5k"');
+
+  assert.deepEqual(await queue.flush(), { synced: 0, conflicts: [], pending: 1 });
+});
+
+test('rejected changes are reported as conflicts and the rest still replay', async () => {
+  const { queue, sent } = setup([
+    { status: 404, body: { error: 'Goal not found' } },
+    { status: 200, body: { recurringBlock: {} } },
+  ]);
+  await queue.enqueue({ kind: 'updateGoal', goalId: 'gone', updates: { title: 'Swim' } }, 'Edit "Swim"');
+  await queue.enqueue(
+    { kind: 'updateOccurrence', recurringId: 'r1', date: '2026-10-19', updates: { completed: true } },
+    'Complete "Stretch"'
+  );
+
+  const result = await queue.flush();
+
+  assert.equal(result.synced, 1);
+  assert.equal(result.pending, 0);
+  assert.deepEqual(
+    result.conflicts.map(({ change, status, message }) => ({ label: change.label, status, message })),
+    [{ label: 'Edit "Swim"', status: 404, message: 'Goal not found' }]
+  );
+  assert.equal(sent[1].path, '/api/schedule/recurring/r1/occurrences/2026-10-19');
+
+  assert.equal((await queue.getState()).conflicts.length, 1);
+  await queue.dismissConflicts();
+  assert.equal((await queue.getState()).conflicts.length, 0);
+});
+
+test('changes to a goal that could not be created are turned down with it', async () => {
+  const { queue, sent } = setup([{ status: 400, body: { error: 'Goal validation failed' } }]);
+  const clientId = createLocalId();
+  await queue.enqueue({ kind: 'createGoal', clientId, goal: runGoal }, 'Create "Run 5k"');
+  await queue.enqueue({ kind: 'goalProgress', goalId: clientId, progress: { currentValue: 1 } }, 'Progress on "Run 5k"');
+
+  const result = await queue.flush();
+
+  assert.equal(sent.length, 1);
+  assert.deepEqual(result.conflicts.map(conflict => conflict.message), [
+    'Goal validation failed',
+    'The goal it changes could not be created',
+  ]);
+  assert.equal(result.pending, 0);
+});
+
+test('queued changes survive a restart and make new changes wait', async () => {
+  const storage = memoryStorage();
+  const first = setup(['offline'], storage);
+  await first.queue.enqueue({ kind: 'updateGoal', goalId: 'g1', updates: { title: 'Run 10k' } }, 'Edit "Run 5k"');
+
+  const { queue } = setup([], storage);
+  const { pending } = await queue.getState();
+
+  assert.deepEqual(pending.map(change => change.label), ['Edit "Run 5k"']);
+  assert.equal(await queue.mustQueue('g2'), true);
+  await queue.clear();
+  assert.equal(await queue.mustQueue('g2'), false);
+  assert.equal(await queue.mustQueue(createLocalId()), true);
+});
+
+test('discarding a goal created offline drops its queued changes', async () => {
+  const { queue } = setup([]);
+  const clientId = createLocalId();
+  await queue.enqueue({ kind: 'createGoal', clientId, goal: runGoal }, 'Create "Run 5k"');
+  await queue.enqueue({ kind: 'goalProgress', goalId: clientId, progress: { currentValue: 1 } }, 'Progress on "Run 5k"');
+  await queue.enqueue({ kind: 'updateGoal', goalId: 'g1', updates: { title: 'Read' } }, 'Edit "Read"');
+
+  await queue.discardGoal(clientId);
+
+  assert.deepEqual((await queue.getState()).pending.map(change => change.label), ['Edit "Read"']);
+});
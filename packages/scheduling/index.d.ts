@@ -0,0 +1,172 @@
+export type Category = 'physical' | 'mental' | 'financial' | 'social' | 'personal';
+export type GoalCategory = Exclude<Category, 'personal'>;
+export type Priority = 'high' | 'medium' | 'low';
+
+export interface ScheduleBlock {
+  id: string;
+  title: string;
+  category: Category;
+  /** 'HH:mm' */
+  startTime: string;
+  /** 'HH:mm' */
+  endTime: string;
+  completed: boolean;
+  goalId?: string;
+  /** Routine blocks and commitments the plan was built around */
+  fixed?: boolean;
+  /** Why the block was placed where it is */
+  reason?: string;
+  /** Set on occurrences of a recurring block */
+  recurring?: boolean;
+  recurringId?: string;
+}
+
+/** The parts of a goal the planner looks at */
+export interface SchedulableGoal {
+  id?: string;
+  _id?: string;
+  title: string;
+  category: GoalCategory;
+  priority: Priority;
+  dueDate?: Date | string;
+  completed?: boolean;
+}
+
+export interface SchedulePreferences {
+  /** 'HH:mm' */
+  wakeTime: string;
+  /** 'HH:mm' */
+  sleepTime: string;
+}
+
+export interface Commitment {
+  /** Kept on the planned block; defaults to `fixed-<index>` */
+  id?: string;
+  title: string;
+  startTime: string;
+  endTime: string;
+  category?: Category;
+  /** Defaults to 'Fixed commitment' */
+  reason?: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'interval';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** 0 = Sunday. Weekly rules default to the weekday of `startDate`. */
+  daysOfWeek?: number[];
+  /** Days between occurrences for 'interval' rules */
+  interval?: number;
+  /** 'YYYY-MM-DD', first possible occurrence */
+  startDate: string;
+  /** 'YYYY-MM-DD', last possible occurrence */
+  until?: string;
+}
+
+export type OccurrenceOverride = { date: string } & Partial<Pick<ScheduleBlock, 'title' | 'category' | 'startTime' | 'endTime' | 'completed'>>;
+
+export interface RecurringBlock {
+  id?: string;
+  _id?: string;
+  title: string;
+  category: Category;
+  startTime: string;
+  endTime: string;
+  goalId?: string;
+  rule: RecurrenceRule;
+  /** Days whose occurrence was skipped */
+  exceptions?: string[];
+  overrides?: OccurrenceOverride[];
+}
+
+export type BlockSummary = Pick<ScheduleBlock, 'id' | 'title' | 'startTime' | 'endTime'>;
+
+/** Two blocks whose times overlap; `first` starts no later than `second` */
+export interface BlockOverlap {
+  first: BlockSummary;
+  second: BlockSummary;
+}
+
+export interface DaySummary {
+  total: number;
+  completed: number;
+  plannedMinutes: number;
+  completedMinutes: number;
+  minutesByCategory: Record<Category, number>;
+}
+
+/** One day of the GET /api/schedule?from&to response */
+export interface ScheduleDay {
+  date: string;
+  /** Id of the stored schedule, null when the day only has recurring blocks */
+  scheduleId: string | null;
+  blocks: ScheduleBlock[];
+  summary: DaySummary;
+}
+
+/** Hours without check-in prompts, e.g. 22:00 to 07:00 */
+export interface QuietHours {
+  /** 'HH:mm' */
+  start: string;
+  /** 'HH:mm' */
+  end: string;
+}
+
+export interface CheckInSettings {
+  /** Minutes between check-in prompts */
+  checkInFrequency: number;
+  quietHours: QuietHours;
+}
+
+export interface ScheduleOptions {
+  /** 'YYYY-MM-DD' day being planned, used for deadline urgency */
+  date?: string;
+  preferences?: Partial<SchedulePreferences>;
+  commitments?: Commitment[];
+  /** Add the morning routine, meals and wind-down. Defaults to true. */
+  includeRoutine?: boolean;
+}
+
+export interface UnscheduledGoal {
+  goalId: string;
+  title: string;
+  reason: string;
+}
+
+export interface GeneratedSchedule {
+  /** Sorted by start time */
+  blocks: ScheduleBlock[];
+  /** Goals that did not fit into the day */
+  unscheduled: UnscheduledGoal[];
+}
+
+export const CATEGORIES: Category[];
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[];
+export const OCCURRENCE_FIELDS: Array<'title' | 'category' | 'startTime' | 'endTime' | 'completed'>;
+export const DEFAULT_PREFERENCES: SchedulePreferences;
+export const BLOCK_MINUTES: Record<Priority, number>;
+export const DEFAULT_CHECK_IN_SETTINGS: CheckInSettings;
+
+export function toMinutes(time: string): number;
+export function toTime(minutes: number): string;
+/** Whether `time` is a 24-hour 'HH:mm' time */
+export function isValidTime(time: unknown): boolean;
+/** Problems with a block's times; empty when they are valid */
+export function timeErrors(block: Pick<ScheduleBlock, 'startTime' | 'endTime'>): string[];
+export function findOverlaps(blocks: ScheduleBlock[]): BlockOverlap[];
+/** Whether an 'HH:mm' time falls in quiet hours, which may run past midnight */
+export function isQuietTime(time: string, quietHours?: QuietHours | null): boolean;
+/** Milliseconds since 1970 at which the next check-in is due */
+export function checkInDueAt(state: {
+  lastCheckInAt?: Date | string | null;
+  snoozedUntil?: Date | string | null;
+  checkInFrequency: number;
+}): number;
+export function routineBlocks(preferences?: Partial<SchedulePreferences>): ScheduleBlock[];
+/** Every 'YYYY-MM-DD' day from `from` to `to`, both inclusive */
+export function dateRange(from: string, to: string): string[];
+export function summarizeBlocks(blocks: ScheduleBlock[]): DaySummary;
+export function occursOn(rule: RecurrenceRule, date: string): boolean;
+export function expandRecurringBlocks(recurringBlocks: RecurringBlock[], date: string): ScheduleBlock[];
+export function generateSchedule(goals: SchedulableGoal[], options?: ScheduleOptions): GeneratedSchedule;
@@ -0,0 +1,447 @@
+// Day planning shared by the web app, the mobile app and the API.
+//
+// A day is the user's routine (morning routine, meals, wind-down), their
+// fixed commitments and one block per open goal. Goals are placed by
+// deadline urgency, then priority, into the part of the day that suits their
+// category. The plan only depends on its inputs: no randomness and no clock,
+// so the same inputs always give the same blocks. Every block carries a
+// `reason` saying why it is where it is.
+
+const CATEGORIES = ['physical', 'mental', 'financial', 'social', 'personal'];
+
+const DEFAULT_PREFERENCES = {
+  wakeTime: '07:00',
+  sleepTime: '22:00',
+};
+
+const PRIORITY_WEIGHT = { high: 3, medium: 2, low: 1 };
+
+// Minutes of focused time a goal gets per day
+const BLOCK_MINUTES = { high: 60, medium: 45, low: 30 };
+
+// Parts of the day each goal category fits best, in order of preference
+const CATEGORY_WINDOWS = {
+  physical: ['morning', 'evening'],
+  mental: ['morning', 'night'],
+  financial: ['afternoon', 'morning'],
+  social: ['midday', 'evening'],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Check-in prompts: minutes between check-ins and the hours they stay quiet
+const DEFAULT_CHECK_IN_SETTINGS = {
+  checkInFrequency: 30,
+  quietHours: { start: '22:00', end: '07:00' },
+};
+
+const RECURRENCE_FREQUENCIES = ['daily', 'weekdays', 'weekly', 'interval'];
+
+// Fields of a recurring block that a single occurrence may change
+const OCCURRENCE_FIELDS = ['title', 'category', 'startTime', 'endTime', 'completed'];
+
+// 24-hour 'HH:mm'
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Waking day in minutes; a sleep time past midnight ends the day at 24:00
+const dayBounds = ({ wakeTime, sleepTime }) => {
+  const wake = toMinutes(wakeTime);
+  const sleep = toMinutes(sleepTime) > wake ? toMinutes(sleepTime) : 24 * 60;
+  return [wake, sleep];
+};
+
+// Windows are clipped to the waking day, so they may be empty
+const dayWindows = (wake, sleep) => ({
+  morning: [wake, wake + 180],
+  midday: [12 * 60, 14 * 60],
+  afternoon: [14 * 60, 17 * 60],
+  evening: [17 * 60, 20 * 60],
+  night: [sleep - 120, sleep],
+});
+
+/**
+ * The blocks every day starts with, fitted to the user's wake and sleep
+ * times. Meals are left out when they fall outside the waking day.
+ */
+const routineBlocks = (preferences = {}) => {
+  const [wake, sleep] = dayBounds({ ...DEFAULT_PREFERENCES, ...preferences });
+  const routine = [
+    { id: 'routine-morning', title: 'Morning routine', start: wake, minutes: 30 },
+    { id: 'routine-lunch', title: 'Lunch break', start: 12 * 60 + 30, minutes: 45 },
+    { id: 'routine-dinner', title: 'Dinner', start: 18 * 60 + 30, minutes: 45 },
+    { id: 'routine-wind-down', title: 'Wind down for bed', start: sleep - 30, minutes: 30 },
+  ];
+
+  return routine
+    .filter(({ start, minutes }, index) =>
+      start >= wake + (index === 0 ? 0 : 30) && start + minutes <= sleep - (index === routine.length - 1 ? 0 : 30)
+    )
+    .map(({ id, title, start, minutes }) => ({
+      id,
+      title,
+      category: 'personal',
+      startTime: toTime(start),
+      endTime: toTime(start + minutes),
+      completed: false,
+      fixed: true,
+      reason: 'Daily routine',
+    }));
+};
+
+const daysUntil = (dueDate, date) => {
+  if (!dueDate || !date) return null;
+  const due = new Date(dueDate);
+  if (isNaN(due.getTime())) return null;
+  const dueDay = Date.parse(`${due.toISOString().slice(0, 10)}T00:00:00.000Z`);
+  return Math.round((dueDay - Date.parse(`${date}T00:00:00.000Z`)) / DAY_MS);
+};
+
+// 3 when overdue or due today, down to 0 for no deadline within a week
+const urgencyOf = (days) => {
+  if (days === null) return 0;
+  if (days <= 0) return 3;
+  if (days <= 3) return 2;
+  if (days <= 7) return 1;
+  return 0;
+};
+
+const goalIdOf = (goal) => String(goal.id || goal._id || goal.title);
+
+const describeDeadline = (days) => {
+  if (days === null) return null;
+  if (days < 0) return 'overdue';
+  if (days === 0) return 'due today';
+  return days === 1 ? 'due tomorrow' : `due in ${days} days`;
+};
+
+// Free intervals of the waking day around the busy ones
+const freeIntervals = (wake, sleep, busy) => {
+  const free = [];
+  let cursor = wake;
+
+  busy
+    .slice()
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      if (start > cursor) {
+        free.push([cursor, Math.min(start, sleep)]);
+      }
+      cursor = Math.max(cursor, end);
+    });
+
+  if (cursor < sleep) {
+    free.push([cursor, sleep]);
+  }
+  return free.filter(([start, end]) => end > start);
+};
+
+// Earliest start of `duration` minutes inside both a free interval and the
+// given range, or null
+const findSlot = (free, [rangeStart, rangeEnd], duration) => {
+  for (const [start, end] of free) {
+    const slotStart = Math.max(start, rangeStart);
+    if (slotStart + duration <= Math.min(end, rangeEnd)) {
+      return slotStart;
+    }
+  }
+  return null;
+};
+
+const reserve = (free, start, end) =>
+  free.flatMap(([freeStart, freeEnd]) => {
+    if (end <= freeStart || start >= freeEnd) return [[freeStart, freeEnd]];
+    return [[freeStart, start], [end, freeEnd]].filter(([a, b]) => b > a);
+  });
+
+const isValidTime = (time) => typeof time === 'string' && TIME_PATTERN.test(time);
+
+/**
+ * What is wrong with a block's times, as messages; empty when they are valid.
+ * Blocks stay within one day, so the end has to be after the start.
+ */
+const timeErrors = ({ startTime, endTime }) => {
+  const errors = [];
+  if (!isValidTime(startTime)) errors.push('startTime must be a 24-hour HH:mm time');
+  if (!isValidTime(endTime)) errors.push('endTime must be a 24-hour HH:mm time');
+  if (errors.length === 0 && toMinutes(endTime) <= toMinutes(startTime)) {
+    errors.push('endTime must be after startTime');
+  }
+  return errors;
+};
+
+const summarize = ({ id, title, startTime, endTime }) => ({ id, title, startTime, endTime });
+
+/**
+ * Every pair of blocks whose times overlap, earliest first. Blocks that only
+ * touch (one ends when the next starts) do not overlap, and blocks with
+ * invalid times are ignored.
+ */
+const findOverlaps = (blocks) => {
+  const timed = blocks
+    .filter(block => timeErrors(block).length === 0)
+    .map(block => ({ block, start: toMinutes(block.startTime), end: toMinutes(block.endTime) }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const overlaps = [];
+  timed.forEach((first, index) => {
+    for (const second of timed.slice(index + 1)) {
+      if (second.start >= first.end) break;
+      overlaps.push({ first: summarize(first.block), second: summarize(second.block) });
+    }
+  });
+  return overlaps;
+};
+
+/**
+ * Whether an 'HH:mm' time falls in quiet hours. Quiet hours may run past
+ * midnight (22:00 to 07:00) and include their start but not their end; the
+ * same start and end means there are none.
+ */
+const isQuietTime = (time, quietHours) => {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+  const minute = toMinutes(time);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+};
+
+const instantOf = (value) => (value ? new Date(value).getTime() : 0);
+
+/**
+ * When the next check-in is due, in milliseconds since 1970: one interval
+ * after the last check-in, or when a snooze ends if that is later. Without
+ * any check-in yet, one is due straight away.
+ */
+const checkInDueAt = ({ lastCheckInAt, snoozedUntil, checkInFrequency }) => {
+  const afterLast = lastCheckInAt ? instantOf(lastCheckInAt) + checkInFrequency * 60 * 1000 : 0;
+  return Math.max(afterLast, instantOf(snoozedUntil));
+};
+
+// Days are 'YYYY-MM-DD' keys; date math runs on their UTC midnights
+const dayNumber = (key) => Math.round(Date.parse(`${key}T00:00:00.000Z`) / DAY_MS);
+
+const weekdayOf = (key) => new Date(`${key}T00:00:00.000Z`).getUTCDay();
+
+/** Every day from `from` to `to`, both inclusive */
+const dateRange = (from, to) => {
+  const first = dayNumber(from);
+  const count = Math.max(dayNumber(to) - first + 1, 0);
+  return Array.from({ length: count }, (_, index) =>
+    new Date((first + index) * DAY_MS).toISOString().slice(0, 10)
+  );
+};
+
+/**
+ * Totals for one day's blocks: how many there are and are done, and the
+ * minutes they take, overall and per category.
+ */
+const summarizeBlocks = (blocks) => {
+  const minutesByCategory = Object.fromEntries(CATEGORIES.map(category => [category, 0]));
+  let plannedMinutes = 0;
+  let completedMinutes = 0;
+
+  blocks.forEach(block => {
+    const minutes = Math.max(toMinutes(block.endTime) - toMinutes(block.startTime), 0);
+    plannedMinutes += minutes;
+    if (block.completed) completedMinutes += minutes;
+    if (block.category in minutesByCategory) minutesByCategory[block.category] += minutes;
+  });
+
+  return {
+    total: blocks.length,
+    completed: blocks.filter(block => block.completed).length,
+    plannedMinutes,
+    completedMinutes,
+    minutesByCategory,
+  };
+};
+
+/**
+ * Whether a recurrence rule has an occurrence on the given day. Rules start
+ * on `startDate` and end after `until`, both inclusive.
+ */
+const occursOn = (rule, date) => {
+  if (!rule || date < rule.startDate || (rule.until && date > rule.until)) {
+    return false;
+  }
+
+  const weekday = weekdayOf(date);
+  switch (rule.frequency) {
+    case 'daily':
+      return true;
+    case 'weekdays':
+      return weekday >= 1 && weekday <= 5;
+    case 'weekly': {
+      const days = rule.daysOfWeek && rule.daysOfWeek.length > 0 ? rule.daysOfWeek : [weekdayOf(rule.startDate)];
+      return days.includes(weekday);
+    }
+    case 'interval':
+      return (dayNumber(date) - dayNumber(rule.startDate)) % (rule.interval || 1) === 0;
+    default:
+      return false;
+  }
+};
+
+/**
+ * The occurrences of recurring blocks on one day, as schedule blocks.
+ * Skipped days are left out and per-day overrides are applied on top of the
+ * series, so editing one occurrence never touches the others.
+ */
+const expandRecurringBlocks = (recurringBlocks, date) =>
+  recurringBlocks
+    .filter(series => occursOn(series.rule, date) && !(series.exceptions || []).includes(date))
+    .map(series => {
+      const recurringId = String(series.id || series._id);
+      const override = (series.overrides || []).find(candidate => candidate.date === date) || {};
+      const block = {
+        id: `${recurringId}-${date}`,
+        title: series.title,
+        category: series.category,
+        startTime: series.startTime,
+        endTime: series.endTime,
+        completed: false,
+        recurring: true,
+        recurringId,
+        ...(series.goalId && { goalId: String(series.goalId) }),
+      };
+
+      OCCURRENCE_FIELDS.forEach(field => {
+        if (override[field] !== undefined && override[field] !== null) {
+          block[field] = override[field];
+        }
+      });
+      return block;
+    })
+    .sort((a, b) => a.startTime.localeCompare(b.startTime) || a.id.localeCompare(b.id));
+
+const generateSchedule = (goals, options = {}) => {
+  const { date, commitments = [], includeRoutine = true } = options;
+  const preferences = { ...DEFAULT_PREFERENCES, ...options.preferences };
+  const [wake, sleep] = dayBounds(preferences);
+  const windows = dayWindows(wake, sleep);
+
+  const fixedBlocks = commitments.map((commitment, index) => ({
+    id: commitment.id || `fixed-${index}`,
+    title: commitment.title,
+    category: commitment.category || 'personal',
+    startTime: commitment.startTime,
+    endTime: commitment.endTime,
+    completed: false,
+    fixed: true,
+    reason: commitment.reason || 'Fixed commitment',
+  }));
+
+  // Routine blocks give way to commitments that overlap them
+  const busy = fixedBlocks.map(({ startTime, endTime }) => [toMinutes(startTime), toMinutes(endTime)]);
+  const routine = includeRoutine
+    ? routineBlocks(preferences).filter(block =>
+      !busy.some(([start, end]) => toMinutes(block.startTime) < end && start < toMinutes(block.endTime))
+    )
+    : [];
+
+  const blocks = [...routine, ...fixedBlocks];
+  let free = freeIntervals(
+    wake,
+    sleep,
+    blocks.map(({ startTime, endTime }) => [toMinutes(startTime), toMinutes(endTime)])
+  );
+
+  const candidates = goals
+    .filter(goal => !goal.completed && CATEGORY_WINDOWS[goal.category])
+    .map(goal => {
+      const days = daysUntil(goal.dueDate, date);
+      return { goal, days, urgency: urgencyOf(days), weight: PRIORITY_WEIGHT[goal.priority] || PRIORITY_WEIGHT.medium };
+    })
+    // Most urgent first, then by priority; ids break the remaining ties
+    .sort((a, b) =>
+      b.urgency - a.urgency ||
+      b.weight - a.weight ||
+      (a.days === null ? Infinity : a.days) - (b.days === null ? Infinity : b.days) ||
+      goalIdOf(a.goal).localeCompare(goalIdOf(b.goal))
+    );
+
+  const unscheduled = [];
+
+  candidates.forEach(({ goal, days }) => {
+    const duration = BLOCK_MINUTES[goal.priority] || BLOCK_MINUTES.medium;
+    const preferred = CATEGORY_WINDOWS[goal.category];
+    let start = null;
+    let placedIn = null;
+
+    for (const name of preferred) {
+      start = findSlot(free, windows[name], duration);
+      if (start !== null) {
+        placedIn = name;
+        break;
+      }
+    }
+
+    if (start === null) {
+      start = findSlot(free, [wake, sleep], duration);
+    }
+
+    if (start === null) {
+      unscheduled.push({
+        goalId: goalIdOf(goal),
+        title: goal.title,
+        reason: `No free ${duration}-minute slot left between ${preferences.wakeTime} and ${preferences.sleepTime}`,
+      });
+      return;
+    }
+
+    free = reserve(free, start, start + duration);
+
+    const why = [`${goal.priority || 'medium'} priority`, describeDeadline(days)].filter(Boolean).join(', ');
+    const where = placedIn
+      ? `${placedIn} suits ${goal.category} goals`
+      : `no room in the ${preferred.join(' or ')}, so the earliest free slot`;
+
+    blocks.push({
+      id: `goal-${goalIdOf(goal)}`,
+      title: goal.title,
+      category: goal.category,
+      startTime: toTime(start),
+      endTime: toTime(start + duration),
+      completed: false,
+      goalId: goalIdOf(goal),
+      reason: `${why.charAt(0).toUpperCase()}${why.slice(1)}; ${where}`,
+    });
+  });
+
+  return {
+    blocks: blocks.sort((a, b) => a.startTime.localeCompare(b.startTime) || a.id.localeCompare(b.id)),
+    unscheduled,
+  };
+};
+
+module.exports = {
+  CATEGORIES,
+  RECURRENCE_FREQUENCIES,
+  OCCURRENCE_FIELDS,
+  DEFAULT_PREFERENCES,
+  BLOCK_MINUTES,
+  DEFAULT_CHECK_IN_SETTINGS,
+  toMinutes,
+  toTime,
+  isValidTime,
+  timeErrors,
+  findOverlaps,
+  isQuietTime,
+  checkInDueAt,
+  routineBlocks,
+  dateRange,
+  summarizeBlocks,
+  occursOn,
+  expandRecurringBlocks,
+  generateSchedule,
+};
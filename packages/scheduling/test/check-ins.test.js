@@ -0,0 +1,38 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { isQuietTime, checkInDueAt } = require('..');
+
+test('quiet hours may run past midnight', () => {
+  const overnight = { start: '22:00', end: '07:00' };
+  assert.equal(isQuietTime('22:00', overnight), true);
+  assert.equal(isQuietTime('03:15', overnight), true);
+  assert.equal(isQuietTime('07:00', overnight), false);
+  assert.equal(isQuietTime('12:00', overnight), false);
+
+  const afternoon = { start: '13:00', end: '14:00' };
+  assert.equal(isQuietTime('13:30', afternoon), true);
+  assert.equal(isQuietTime('14:00', afternoon), false);
+});
+
+test('equal start and end means no quiet hours', () => {
+  assert.equal(isQuietTime('09:00', { start: '09:00', end: '09:00' }), false);
+  assert.equal(isQuietTime('09:00', null), false);
+});
+
+test('check-ins are due one interval after the last, or when a snooze ends', () => {
+  const last = '2026-10-19T09:00:00.000Z';
+
+  assert.equal(checkInDueAt({ lastCheckInAt: last, checkInFrequency: 60 }), Date.parse('2026-10-19T10:00:00.000Z'));
+  assert.equal(
+    checkInDueAt({ lastCheckInAt: last, snoozedUntil: '2026-10-19T11:30:00.000Z', checkInFrequency: 60 }),
+    Date.parse('2026-10-19T11:30:00.000Z')
+  );
+  assert.equal(
+    checkInDueAt({ lastCheckInAt: last, snoozedUntil: '2026-10-19T09:15:00.000Z', checkInFrequency: 60 }),
+    Date.parse('2026-10-19T10:00:00.000Z')
+  );
+});
+
+test('without a check-in yet one is due straight away', () => {
+  assert.equal(checkInDueAt({ lastCheckInAt: null, checkInFrequency: 30 }), 0);
+});
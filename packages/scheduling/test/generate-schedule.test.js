@@ -0,0 +1,110 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { generateSchedule, routineBlocks, toMinutes } = require('..');
+
+const goals = [
+  { id: 'run', title: 'Run 5K', category: 'physical', priority: 'low' },
+  { id: 'budget', title: 'Monthly budget', category: 'financial', priority: 'high', dueDate: '2026-10-20' },
+  { id: 'meditate', title: 'Meditate', category: 'mental', priority: 'medium' },
+  { id: 'call', title: 'Call grandma', category: 'social', priority: 'medium', dueDate: '2026-10-10' },
+];
+
+const overlaps = (a, b) =>
+  toMinutes(a.startTime) < toMinutes(b.endTime) && toMinutes(b.startTime) < toMinutes(a.endTime);
+
+test('returns the same plan for the same inputs', () => {
+  const options = { date: '2026-10-19', preferences: { wakeTime: '06:30' } };
+  const first = generateSchedule(goals, options);
+
+  assert.deepEqual(generateSchedule(goals, options), first);
+  assert.deepEqual(generateSchedule(goals.slice().reverse(), options), first);
+});
+
+test('places every open goal once, without overlaps, inside the waking day', () => {
+  const { blocks, unscheduled } = generateSchedule(goals, {
+    date: '2026-10-19',
+    preferences: { wakeTime: '07:00', sleepTime: '22:00' },
+  });
+
+  assert.equal(unscheduled.length, 0);
+  assert.deepEqual(
+    blocks.filter(block => block.goalId).map(block => block.goalId).sort(),
+    ['budget', 'call', 'meditate', 'run']
+  );
+
+  blocks.forEach((block, index) => {
+    assert.ok(block.startTime >= '07:00' && block.endTime <= '22:00', `${block.id} is outside the day`);
+    blocks.slice(index + 1).forEach(other => assert.ok(!overlaps(block, other), `${block.id} overlaps ${other.id}`));
+  });
+});
+
+test('explains each placement', () => {
+  const { blocks } = generateSchedule(goals, { date: '2026-10-19' });
+  const call = blocks.find(block => block.goalId === 'call');
+  const budget = blocks.find(block => block.goalId === 'budget');
+
+  assert.equal(call.reason, 'Medium priority, overdue; midday suits social goals');
+  assert.match(budget.reason, /^High priority, due tomorrow; /);
+});
+
+test('plans urgent and important goals first when the day is short', () => {
+  const { blocks, unscheduled } = generateSchedule(goals, {
+    date: '2026-10-19',
+    preferences: { wakeTime: '08:00', sleepTime: '10:00' },
+  });
+
+  assert.deepEqual(blocks.filter(block => block.goalId).map(block => block.goalId), ['call']);
+  assert.deepEqual(unscheduled.map(goal => goal.goalId), ['budget', 'meditate', 'run']);
+});
+
+test('plans around fixed commitments and drops routine blocks they cover', () => {
+  const { blocks } = generateSchedule(goals, {
+    date: '2026-10-19',
+    commitments: [{ title: 'Work', startTime: '09:00', endTime: '17:00' }],
+  });
+  const work = blocks.find(block => block.title === 'Work');
+
+  assert.equal(work.fixed, true);
+  assert.equal(blocks.some(block => block.id === 'routine-lunch'), false);
+  blocks.filter(block => block !== work).forEach(block => assert.ok(!overlaps(block, work), `${block.id} overlaps work`));
+});
+
+test('keeps the ids and reasons commitments bring', () => {
+  const { blocks } = generateSchedule([], {
+    includeRoutine: false,
+    commitments: [
+      { id: 'ics-standup', title: 'Standup', startTime: '09:00', endTime: '09:15', reason: 'Imported from your calendar' },
+      { title: 'Gym', startTime: '18:00', endTime: '19:00' },
+    ],
+  });
+
+  assert.deepEqual(blocks.map(block => [block.id, block.reason]), [
+    ['ics-standup', 'Imported from your calendar'],
+    ['fixed-1', 'Fixed commitment'],
+  ]);
+});
+
+test('skips completed goals and unknown categories', () => {
+  const { blocks } = generateSchedule([
+    { id: 'done', title: 'Done', category: 'physical', priority: 'high', completed: true },
+    { id: 'odd', title: 'Odd', category: 'personal', priority: 'high' },
+  ], { includeRoutine: false });
+
+  assert.deepEqual(blocks, []);
+});
+
+test('fits the routine to the waking day', () => {
+  assert.deepEqual(
+    routineBlocks({ wakeTime: '06:00', sleepTime: '23:00' }).map(block => [block.id, block.startTime, block.endTime]),
+    [
+      ['routine-morning', '06:00', '06:30'],
+      ['routine-lunch', '12:30', '13:15'],
+      ['routine-dinner', '18:30', '19:15'],
+      ['routine-wind-down', '22:30', '23:00'],
+    ]
+  );
+  assert.deepEqual(
+    routineBlocks({ wakeTime: '14:00', sleepTime: '18:00' }).map(block => block.id),
+    ['routine-morning', 'routine-wind-down']
+  );
+});
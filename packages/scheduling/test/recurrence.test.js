@@ -0,0 +1,70 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { occursOn, expandRecurringBlocks } = require('..');
+
+// 2026-10-19 is a Monday
+const days = (from, count) => Array.from({ length: count }, (_, index) => {
+  const date = new Date(`${from}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + index);
+  return date.toISOString().slice(0, 10);
+});
+
+const matching = (rule, from = '2026-10-19', count = 14) => days(from, count).filter(date => occursOn(rule, date));
+
+test('daily rules run from the start date until the end date', () => {
+  assert.deepEqual(
+    matching({ frequency: 'daily', startDate: '2026-10-20', until: '2026-10-22' }),
+    ['2026-10-20', '2026-10-21', '2026-10-22']
+  );
+});
+
+test('weekday rules skip weekends', () => {
+  assert.deepEqual(
+    matching({ frequency: 'weekdays', startDate: '2026-10-19' }, '2026-10-23', 4),
+    ['2026-10-23', '2026-10-26']
+  );
+});
+
+test('weekly rules run on the given days, or the weekday they start on', () => {
+  assert.deepEqual(
+    matching({ frequency: 'weekly', daysOfWeek: [2, 4], startDate: '2026-10-19' }),
+    ['2026-10-20', '2026-10-22', '2026-10-27', '2026-10-29']
+  );
+  assert.deepEqual(
+    matching({ frequency: 'weekly', startDate: '2026-10-21' }),
+    ['2026-10-21', '2026-10-28']
+  );
+});
+
+test('interval rules run every N days', () => {
+  assert.deepEqual(
+    matching({ frequency: 'interval', interval: 3, startDate: '2026-10-19' }, '2026-10-19', 10),
+    ['2026-10-19', '2026-10-22', '2026-10-25', '2026-10-28']
+  );
+});
+
+test('expands occurrences with skipped days and per-day overrides', () => {
+  const series = {
+    _id: 'standup',
+    title: 'Standup',
+    category: 'personal',
+    startTime: '09:00',
+    endTime: '09:15',
+    rule: { frequency: 'weekdays', startDate: '2026-10-19' },
+    exceptions: ['2026-10-20'],
+    overrides: [{ date: '2026-10-21', startTime: '10:00', endTime: '10:15', completed: true }],
+  };
+
+  assert.deepEqual(expandRecurringBlocks([series], '2026-10-20'), []);
+  assert.deepEqual(expandRecurringBlocks([series], '2026-10-21'), [{
+    id: 'standup-2026-10-21',
+    title: 'Standup',
+    category: 'personal',
+    startTime: '10:00',
+    endTime: '10:15',
+    completed: true,
+    recurring: true,
+    recurringId: 'standup',
+  }]);
+  assert.equal(expandRecurringBlocks([series], '2026-10-22')[0].startTime, '09:00');
+});
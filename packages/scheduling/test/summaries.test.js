@@ -0,0 +1,25 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { dateRange, summarizeBlocks } = require('..');
+
+test('date ranges include both ends and cross month boundaries', () => {
+  assert.deepEqual(dateRange('2026-10-30', '2026-11-02'), ['2026-10-30', '2026-10-31', '2026-11-01', '2026-11-02']);
+  assert.deepEqual(dateRange('2026-10-19', '2026-10-19'), ['2026-10-19']);
+  assert.deepEqual(dateRange('2026-10-20', '2026-10-19'), []);
+});
+
+test('day summaries count blocks and minutes per category', () => {
+  const summary = summarizeBlocks([
+    { id: 'a', title: 'Run', category: 'physical', startTime: '07:00', endTime: '08:00', completed: true },
+    { id: 'b', title: 'Budget', category: 'financial', startTime: '14:00', endTime: '14:45', completed: false },
+    { id: 'c', title: 'Stretch', category: 'physical', startTime: '20:00', endTime: '20:30', completed: false },
+  ]);
+
+  assert.deepEqual(summary, {
+    total: 3,
+    completed: 1,
+    plannedMinutes: 135,
+    completedMinutes: 60,
+    minutesByCategory: { physical: 90, mental: 0, financial: 45, social: 0, personal: 0 },
+  });
+});
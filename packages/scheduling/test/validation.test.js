@@ -0,0 +1,42 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { isValidTime, timeErrors, findOverlaps } = require('..');
+
+const block = (id, startTime, endTime) => ({ id, title: id, category: 'personal', startTime, endTime, completed: false });
+
+test('times must be 24-hour HH:mm', () => {
+  assert.equal(isValidTime('07:05'), true);
+  assert.equal(isValidTime('23:59'), true);
+  assert.equal(isValidTime('7:05'), false);
+  assert.equal(isValidTime('24:00'), false);
+  assert.equal(isValidTime('12:60'), false);
+  assert.equal(isValidTime(undefined), false);
+});
+
+test('blocks must end after they start', () => {
+  assert.deepEqual(timeErrors(block('a', '09:00', '10:00')), []);
+  assert.deepEqual(timeErrors(block('a', '10:00', '10:00')), ['endTime must be after startTime']);
+  assert.deepEqual(timeErrors(block('a', '9am', '10:00')), ['startTime must be a 24-hour HH:mm time']);
+});
+
+test('overlapping blocks are reported in pairs, earliest first', () => {
+  const overlaps = findOverlaps([
+    block('late', '11:00', '12:00'),
+    block('long', '09:00', '11:30'),
+    block('short', '09:30', '10:00'),
+  ]);
+
+  assert.deepEqual(overlaps.map(({ first, second }) => [first.id, second.id]), [
+    ['long', 'short'],
+    ['long', 'late'],
+  ]);
+  assert.deepEqual(overlaps[0].first, { id: 'long', title: 'long', startTime: '09:00', endTime: '11:30' });
+});
+
+test('back-to-back and invalid blocks do not overlap', () => {
+  assert.deepEqual(findOverlaps([
+    block('a', '09:00', '10:00'),
+    block('b', '10:00', '11:00'),
+    block('c', '10:30', '10:00'),
+  ]), []);
+});
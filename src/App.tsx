@@ -2,29 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import Dashboard from './components/Dashboard/Dashboard';
 import Auth from './components/Auth';
-import { UserProfile } from './types';
 
-const defaultUserProfile: UserProfile = {
-  goals: "Build healthy habits, improve productivity, develop meaningful relationships, and achieve financial stability",
-  achievements: "Feel energized and confident, maintain work-life balance, create lasting connections, and have peace of mind about finances",
-  createdAt: new Date()
-};
+const hasResetToken = () => new URLSearchParams(window.location.search).has('reset');
 
 function App() {
-  const [userProfile] = useState<UserProfile>(() => {
-    const saved = localStorage.getItem('userProfile');
-    console.log('Initial userProfile from localStorage:', saved);
-    return saved ? JSON.parse(saved) : defaultUserProfile;
-  });
   const [isAuthenticated, setIsAuthenticated] = useState(() => {
     return localStorage.getItem('token') !== null;
   });
 
-  useEffect(() => {
-    console.log('UserProfile updated:', userProfile);
-    localStorage.setItem('userProfile', JSON.stringify(userProfile));
-  }, [userProfile]);
-
   useEffect(() => {
     const token = localStorage.getItem('token');
     setIsAuthenticated(token !== null);
@@ -38,13 +23,14 @@ function App() {
             path="/" 
             element={isAuthenticated ? <Navigate to="/dashboard" /> : <Navigate to="/auth" />} 
           />
+          {/* Reset links open the form even on a browser that is still signed in */}
           <Route 
             path="/auth" 
-            element={isAuthenticated ? <Navigate to="/dashboard" /> : <Auth />} 
+            element={isAuthenticated && !hasResetToken() ? <Navigate to="/dashboard" /> : <Auth />} 
           />
           <Route 
             path="/dashboard" 
-            element={isAuthenticated ? <Dashboard userProfile={userProfile} /> : <Navigate to="/auth" />} 
+            element={isAuthenticated ? <Dashboard /> : <Navigate to="/auth" />} 
           />
         </Routes>
       </div>
@@ -1,40 +1,77 @@
 import React, { useState } from 'react';
+import { requestPasswordReset, resetPassword, signIn } from '../services/authService';
+
+type Mode = 'login' | 'register' | 'forgot' | 'reset';
+
+// Reset links from the mail open /auth?reset=<token>
+const resetTokenFromUrl = () => new URLSearchParams(window.location.search).get('reset');
+
+const TITLES: Record<Mode, string> = {
+  login: 'Sign in to your account',
+  register: 'Create new account',
+  forgot: 'Reset your password',
+  reset: 'Choose a new password',
+};
+
+const SUBMIT_LABELS: Record<Mode, string> = {
+  login: 'Sign in',
+  register: 'Sign up',
+  forgot: 'Send reset link',
+  reset: 'Set new password',
+};
 
 const Auth: React.FC = () => {
-  const [isLogin, setIsLogin] = useState(true);
+  const [resetToken, setResetToken] = useState(resetTokenFromUrl);
+  const [mode, setMode] = useState<Mode>(() => (resetToken ? 'reset' : 'login'));
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
 
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError('');
+    setNotice('');
+  };
+
+  const submit = async () => {
+    switch (mode) {
+      case 'login':
+      case 'register':
+        await signIn(mode, email, password);
+        // Redirect or update app state
+        window.location.href = '/dashboard';
+        return;
+      case 'forgot':
+        setNotice(await requestPasswordReset(email));
+        return;
+      case 'reset': {
+        if (password !== confirmPassword) {
+          throw new Error('Passwords do not match');
+        }
+        const message = await resetPassword(resetToken || '', password);
+        // The link works once, so it is taken out of the address bar
+        window.history.replaceState(null, '', '/auth');
+        setResetToken(null);
+        setPassword('');
+        setConfirmPassword('');
+        switchMode('login');
+        setNotice(message);
+        return;
+      }
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
     setLoading(true);
 
     try {
-      const endpoint = isLogin ? 'login' : 'register';
-      const apiUrl = process.env.REACT_APP_API_URL || 'http://localhost:5000';
-      const response = await fetch(`${apiUrl}/api/auth/${endpoint}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, password }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Something went wrong');
-      }
-
-      // Store token in localStorage
-      localStorage.setItem('token', data.token);
-      localStorage.setItem('user', JSON.stringify(data.user));
-
-      // Redirect or update app state
-      window.location.href = '/dashboard';
+      await submit();
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -42,53 +79,87 @@ const Auth: React.FC = () => {
     }
   };
 
+  const showEmail = mode !== 'reset';
+  const showPassword = mode !== 'forgot';
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50">
       <div className="max-w-md w-full space-y-8">
         <div>
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
-            {isLogin ? 'Sign in to your account' : 'Create new account'}
+            {TITLES[mode]}
           </h2>
+          {mode === 'forgot' && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              Enter the email of your account and we will send you a link to choose a new password.
+            </p>
+          )}
         </div>
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
           <div className="rounded-md shadow-sm -space-y-px">
-            <div>
-              <label htmlFor="email" className="sr-only">
-                Email address
-              </label>
-              <input
-                id="email"
-                name="email"
-                type="email"
-                autoComplete="email"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Email address"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-              />
-            </div>
-            <div>
-              <label htmlFor="password" className="sr-only">
-                Password
-              </label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete="current-password"
-                required
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
-                placeholder="Password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-              />
-            </div>
+            {showEmail && (
+              <div>
+                <label htmlFor="email" className="sr-only">
+                  Email address
+                </label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  className={`appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-t-md ${showPassword ? '' : 'rounded-b-md'} focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm`}
+                  placeholder="Email address"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            )}
+            {showPassword && (
+              <div>
+                <label htmlFor="password" className="sr-only">
+                  {mode === 'reset' ? 'New password' : 'Password'}
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                  required
+                  minLength={mode === 'reset' ? 6 : undefined}
+                  className={`appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 ${showEmail ? 'rounded-b-md' : 'rounded-t-md'} focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm`}
+                  placeholder={mode === 'reset' ? 'New password' : 'Password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            {mode === 'reset' && (
+              <div>
+                <label htmlFor="confirm-password" className="sr-only">
+                  Confirm new password
+                </label>
+                <input
+                  id="confirm-password"
+                  name="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-b-md focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 focus:z-10 sm:text-sm"
+                  placeholder="Confirm new password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+              </div>
+            )}
           </div>
 
           {error && (
             <div className="text-red-500 text-sm text-center">{error}</div>
           )}
+          {notice && (
+            <div className="text-green-600 text-sm text-center">{notice}</div>
+          )}
 
           <div>
             <button
@@ -96,19 +167,30 @@ const Auth: React.FC = () => {
               disabled={loading}
               className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
             >
-              {loading ? 'Processing...' : isLogin ? 'Sign in' : 'Sign up'}
+              {loading ? 'Processing...' : SUBMIT_LABELS[mode]}
             </button>
           </div>
 
-          <div className="text-center">
+          <div className="text-center space-y-2">
+            {mode === 'login' && (
+              <button
+                type="button"
+                className="block w-full text-sm text-gray-600 hover:text-gray-500"
+                onClick={() => switchMode('forgot')}
+              >
+                Forgot your password?
+              </button>
+            )}
             <button
               type="button"
               className="text-indigo-600 hover:text-indigo-500"
-              onClick={() => setIsLogin(!isLogin)}
+              onClick={() => switchMode(mode === 'login' ? 'register' : 'login')}
             >
-              {isLogin
+              {mode === 'login'
                 ? "Don't have an account? Sign up"
-                : 'Already have an account? Sign in'}
+                : mode === 'register'
+                  ? 'Already have an account? Sign in'
+                  : 'Back to sign in'}
             </button>
           </div>
         </form>
@@ -117,4 +199,4 @@ const Auth: React.FC = () => {
   );
 };
 
-export default Auth;
\ No newline at end of file
+export default Auth;
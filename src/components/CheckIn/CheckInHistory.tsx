@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CheckIn, CheckInMood, CheckInProgress } from '../../types';
+import { getCheckIns, deleteCheckIn } from '../../services/checkInService';
+import { History, Trash2, AlertCircle } from 'lucide-react';
+
+const PAGE_SIZE = 10;
+
+const moodStyles: Record<CheckInMood, string> = {
+  great: 'bg-green-100 text-green-700',
+  good: 'bg-blue-100 text-blue-700',
+  okay: 'bg-yellow-100 text-yellow-700',
+  struggling: 'bg-red-100 text-red-700',
+};
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const formatProgress = (progress?: CheckInProgress) => {
+  if (!progress || progress.amount === 0) return '';
+  if (progress.kind === 'check-off') return ' ✓';
+  return progress.kind === 'percent' ? ` +${progress.amount}%` : ` +${progress.amount}`;
+};
+
+const CheckInHistory: React.FC = () => {
+  const [checkIns, setCheckIns] = useState<CheckIn[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await getCheckIns({ page: pageToLoad, limit: PAGE_SIZE });
+      setCheckIns(previous => (pageToLoad === 1 ? result.checkIns : [...previous, ...result.checkIns]));
+      setPage(result.page);
+      setHasMore(result.hasMore);
+      setTotal(result.total);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load your check-ins');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  const handleDelete = async (checkInId: string) => {
+    if (!window.confirm('Delete this check-in? Progress it added to goals is taken back.')) return;
+    try {
+      await deleteCheckIn(checkInId);
+      setCheckIns(checkIns.filter(checkIn => checkIn._id !== checkInId));
+      setTotal(total - 1);
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete the check-in');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-xl font-bold text-gray-800 flex items-center mb-4">
+        <History className="w-5 h-5 mr-2 text-green-600" />
+        Check-in History
+        {total > 0 && <span className="ml-2 text-sm font-normal text-gray-500">({total})</span>}
+      </h3>
+
+      {error && (
+        <div className="mb-4 flex items-center justify-between bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          <div className="flex items-center">
+            <AlertCircle className="w-5 h-5 mr-2" />
+            <span>{error}</span>
+          </div>
+          <button onClick={() => loadPage(1)} className="text-sm font-medium hover:text-red-900">
+            Retry
+          </button>
+        </div>
+      )}
+
+      {!loading && !error && checkIns.length === 0 && (
+        <p className="py-6 text-center text-gray-500">No check-ins yet. Check in to start your history.</p>
+      )}
+
+      <ul className="space-y-3">
+        {checkIns.map(checkIn => (
+          <li key={checkIn._id} className="p-4 rounded-lg border border-gray-200 bg-gray-50">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center space-x-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${moodStyles[checkIn.mood]}`}>
+                  {checkIn.mood}
+                </span>
+                <span className="text-sm text-gray-600">{formatTimestamp(checkIn.timestamp)}</span>
+              </div>
+              <button
+                onClick={() => handleDelete(checkIn._id)}
+                className="text-gray-400 hover:text-red-600"
+                title="Delete check-in"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            {checkIn.notes && <p className="text-sm text-gray-700 whitespace-pre-line mb-2">{checkIn.notes}</p>}
+
+            {checkIn.goals.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {checkIn.goals.map(goal => (
+                  <span key={goal.goalId} className="px-2 py-0.5 rounded bg-indigo-100 text-indigo-700 text-xs">
+                    {goal.title}
+                    {formatProgress(checkIn.goalProgress.find(progress => progress.goalId === goal.goalId))}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400">No goals ticked</p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {loading && <div className="py-4 text-center text-gray-500">Loading check-ins...</div>}
+
+      {!loading && hasMore && (
+        <button
+          onClick={() => loadPage(page + 1)}
+          className="mt-4 w-full py-2 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+        >
+          Load older check-ins
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default CheckInHistory;
@@ -1,28 +1,71 @@
 import React, { useState } from 'react';
-import { Goal } from '../../types';
+import { CheckIn, CheckInMood, Goal } from '../../types';
+import { createCheckIn, GoalProgressInput } from '../../services/checkInService';
+import { toDateKey } from '../../utils/dates';
 import { X, Smile, Meh, Frown, ThumbsUp } from 'lucide-react';
 
 interface CheckInModalProps {
   goals: Goal[];
+  // Closed without checking in
   onClose: () => void;
+  onSaved: (checkIn: CheckIn, updatedGoals: Goal[]) => void;
+  onSnooze?: (minutes: number) => void;
 }
 
-const CheckInModal: React.FC<CheckInModalProps> = ({ goals, onClose }) => {
-  const [mood, setMood] = useState<'great' | 'good' | 'okay' | 'struggling' | null>(null);
+const SNOOZE_OPTIONS = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 180, label: '3 hours' },
+];
+
+// Milestones with action items progress through their items only
+const takesAmount = (goal: Goal) =>
+  goal.type === 'numeric' || (goal.type === 'milestone' && !(goal.actionItems && goal.actionItems.length > 0));
+
+const CheckInModal: React.FC<CheckInModalProps> = ({ goals, onClose, onSaved, onSnooze }) => {
+  const [mood, setMood] = useState<CheckInMood | null>(null);
   const [notes, setNotes] = useState('');
   const [completedTasks, setCompletedTasks] = useState<string[]>([]);
+  // Amount typed per ticked goal; empty means ticked without progress
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const today = toDateKey();
+
+  const handleSubmit = async () => {
+    const goalProgress: GoalProgressInput[] = [];
+    for (const goal of goals.filter(goal => completedTasks.includes(goal.id))) {
+      if (goal.type === 'habit') {
+        goalProgress.push({ goalId: goal.id });
+        continue;
+      }
+
+      const entered = (amounts[goal.id] || '').trim();
+      if (!takesAmount(goal) || !entered) continue;
 
-  const handleSubmit = () => {
-    const checkIn = {
-      id: Date.now().toString(),
-      timestamp: new Date(),
-      mood: mood || 'okay',
-      notes,
-      completedTasks
-    };
-    
-    localStorage.setItem('lastCheckIn', JSON.stringify(checkIn));
-    onClose();
+      const amount = Number(entered);
+      if (!(amount > 0)) {
+        setError(`Enter a positive ${goal.type === 'milestone' ? 'percent' : 'amount'} for "${goal.title}"`);
+        return;
+      }
+      goalProgress.push({ goalId: goal.id, amount });
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const { checkIn, goals: updatedGoals } = await createCheckIn({
+        mood: mood || 'okay',
+        notes,
+        completedTasks,
+        goalProgress
+      });
+      onSaved(checkIn, updatedGoals);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save your check-in');
+      setSaving(false);
+    }
   };
 
   const moods = [
@@ -52,7 +95,7 @@ const CheckInModal: React.FC<CheckInModalProps> = ({ goals, onClose }) => {
               {moods.map(({ value, icon, color, bgColor }) => (
                 <button
                   key={value}
-                  onClick={() => setMood(value as any)}
+                  onClick={() => setMood(value as CheckInMood)}
                   className={`p-4 rounded-lg border-2 transition-all ${
                     mood === value
                       ? `border-indigo-500 ${bgColor}`
@@ -70,26 +113,54 @@ const CheckInModal: React.FC<CheckInModalProps> = ({ goals, onClose }) => {
 
           <div>
             <h3 className="text-lg font-semibold text-gray-700 mb-3">What goals have you made progress on?</h3>
-            <div className="space-y-2 max-h-40 overflow-y-auto">
+            <div className="space-y-2 max-h-56 overflow-y-auto">
               {goals.filter(goal => !goal.completed).map(goal => (
-                <label key={goal.id} className="flex items-center p-2 bg-gray-50 rounded cursor-pointer hover:bg-gray-100">
-                  <input
-                    type="checkbox"
-                    checked={completedTasks.includes(goal.id)}
-                    onChange={(e) => {
-                      if (e.target.checked) {
-                        setCompletedTasks([...completedTasks, goal.id]);
-                      } else {
-                        setCompletedTasks(completedTasks.filter(id => id !== goal.id));
-                      }
-                    }}
-                    className="mr-2"
-                  />
-                  <div className="flex-1">
-                    <span className="text-sm font-medium text-gray-700">{goal.title}</span>
-                    <div className="text-xs text-gray-500 capitalize">{goal.category} • {goal.type} goal</div>
-                  </div>
-                </label>
+                <div key={goal.id} className="p-2 bg-gray-50 rounded hover:bg-gray-100">
+                  <label className="flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={completedTasks.includes(goal.id)}
+                      onChange={(e) => {
+                        if (e.target.checked) {
+                          setCompletedTasks([...completedTasks, goal.id]);
+                        } else {
+                          setCompletedTasks(completedTasks.filter(id => id !== goal.id));
+                        }
+                      }}
+                      className="mr-2"
+                    />
+                    <div className="flex-1">
+                      <span className="text-sm font-medium text-gray-700">{goal.title}</span>
+                      <div className="text-xs text-gray-500 capitalize">{goal.category} • {goal.type} goal</div>
+                    </div>
+                  </label>
+                  {completedTasks.includes(goal.id) && (
+                    <div className="mt-2 ml-6 flex items-center text-xs text-gray-600">
+                      {goal.type === 'habit' ? (
+                        goal.completions?.includes(today) ? 'Already checked off today' : 'Checks off today'
+                      ) : takesAmount(goal) ? (
+                        <>
+                          <span className="mr-2">{goal.type === 'milestone' ? 'Progress made' : 'Amount'}</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={amounts[goal.id] || ''}
+                            onChange={(e) => setAmounts({ ...amounts, [goal.id]: e.target.value })}
+                            className="w-24 p-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            placeholder="0"
+                          />
+                          <span className="ml-2">
+                            {goal.type === 'milestone' ? '%' : goal.unit}
+                            {goal.type === 'numeric' && goal.targetValue !== undefined && ` (${goal.currentValue || 0} of ${goal.targetValue})`}
+                          </span>
+                        </>
+                      ) : (
+                        'Progress follows its action items'
+                      )}
+                    </div>
+                  )}
+                </div>
               ))}
               {goals.filter(goal => !goal.completed).length === 0 && (
                 <p className="text-sm text-gray-500 text-center py-4">No active goals to track progress on.</p>
@@ -108,7 +179,24 @@ const CheckInModal: React.FC<CheckInModalProps> = ({ goals, onClose }) => {
           </div>
         </div>
 
-        <div className="mt-6 flex justify-end space-x-3">
+        {error && (
+          <p className="mt-4 text-sm text-red-600">{error}</p>
+        )}
+
+        <div className="mt-6 flex justify-end items-center space-x-3">
+          {onSnooze && (
+            <select
+              value=""
+              onChange={(e) => onSnooze(Number(e.target.value))}
+              className="px-3 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg"
+              aria-label="Snooze check-in"
+            >
+              <option value="" disabled>Snooze...</option>
+              {SNOOZE_OPTIONS.map(({ minutes, label }) => (
+                <option key={minutes} value={minutes}>{label}</option>
+              ))}
+            </select>
+          )}
           <button
             onClick={onClose}
             className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
@@ -117,9 +205,10 @@ const CheckInModal: React.FC<CheckInModalProps> = ({ goals, onClose }) => {
           </button>
           <button
             onClick={handleSubmit}
-            className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+            disabled={saving}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
           >
-            Submit Check-in
+            {saving ? 'Saving...' : 'Submit Check-in'}
           </button>
         </div>
       </div>
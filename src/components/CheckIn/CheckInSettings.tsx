@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { CheckInSettings as Settings, CheckInStatus } from '../../types';
+import { BellRing } from 'lucide-react';
+
+interface CheckInSettingsProps {
+  status: CheckInStatus | null;
+  onChange: (settings: Partial<Settings>) => Promise<void>;
+}
+
+const FREQUENCY_OPTIONS = [
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 30, label: 'Every 30 minutes' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 120, label: 'Every 2 hours' },
+  { minutes: 240, label: 'Every 4 hours' },
+  { minutes: 480, label: 'Every 8 hours' },
+  { minutes: 1440, label: 'Once a day' },
+];
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const CheckInSettings: React.FC<CheckInSettingsProps> = ({ status, onChange }) => {
+  const [error, setError] = useState('');
+
+  if (!status) return null;
+
+  const save = async (settings: Partial<Settings>) => {
+    setError('');
+    try {
+      await onChange(settings);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save check-in settings');
+    }
+  };
+
+  const frequencyOptions = FREQUENCY_OPTIONS.some(option => option.minutes === status.checkInFrequency)
+    ? FREQUENCY_OPTIONS
+    : [...FREQUENCY_OPTIONS, { minutes: status.checkInFrequency, label: `Every ${status.checkInFrequency} minutes` }];
+  const snoozed = status.snoozedUntil && new Date(status.snoozedUntil).getTime() > Date.now();
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-6">
+      <h3 className="text-lg font-bold text-gray-800 flex items-center mb-4">
+        <BellRing className="w-5 h-5 mr-2 text-green-600" />
+        Check-in Reminders
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        <select
+          value={status.checkInFrequency}
+          onChange={(e) => save({ checkInFrequency: Number(e.target.value) })}
+          className="p-2 border border-gray-300 rounded-lg"
+        >
+          {frequencyOptions.map(({ minutes, label }) => (
+            <option key={minutes} value={minutes}>{label}</option>
+          ))}
+        </select>
+
+        <label className="flex items-center">
+          <span className="mr-2">Quiet from</span>
+          <input
+            type="time"
+            value={status.quietHours.start}
+            onChange={(e) => e.target.value && save({ quietHours: { ...status.quietHours, start: e.target.value } })}
+            className="p-2 border border-gray-300 rounded-lg"
+          />
+        </label>
+        <label className="flex items-center">
+          <span className="mr-2">to</span>
+          <input
+            type="time"
+            value={status.quietHours.end}
+            onChange={(e) => e.target.value && save({ quietHours: { ...status.quietHours, end: e.target.value } })}
+            className="p-2 border border-gray-300 rounded-lg"
+          />
+        </label>
+      </div>
+
+      <p className="mt-3 text-xs text-gray-500">
+        {snoozed
+          ? `Snoozed until ${formatTime(status.snoozedUntil as string)}.`
+          : new Date(status.dueAt).getTime() > Date.now()
+            ? `Next check-in at ${formatTime(status.dueAt)}.`
+            : 'A check-in is due.'}
+        {' '}These settings apply on all your devices.
+      </p>
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default CheckInSettings;
@@ -1,16 +1,36 @@
-import React from 'react';
-import { Goal } from '../../types';
-import { Heart, Brain, DollarSign, Users, Check, Circle, Plus, Edit, Trash2, Target, Calendar } from 'lucide-react';
+import React, { useState } from 'react';
+import { ActionItem, Goal, HabitStats } from '../../types';
+import ProgressTimeline from '../Goals/ProgressTimeline';
+import ActionItemList from '../Goals/ActionItemList';
+import { Heart, Brain, DollarSign, Users, Check, Circle, Plus, Edit, Trash2, Target, Calendar, History, Flame, ListChecks } from 'lucide-react';
 
 interface CategoryCardProps {
   category: 'physical' | 'mental' | 'financial' | 'social';
   goals: Goal[];
   onAddGoal: (category: 'physical' | 'mental' | 'financial' | 'social') => void;
   onUpdateGoal: (goalId: string, updates: Partial<Goal>) => void;
+  onEditGoal: (goal: Goal) => void;
   onDeleteGoal: (goalId: string) => void;
+  onCheckOffHabit: (goalId: string, done: boolean) => void;
+  onAddActionItem: (goalId: string, title: string) => void;
+  onUpdateActionItem: (goalId: string, itemId: string, updates: Partial<ActionItem>) => void;
+  onDeleteActionItem: (goalId: string, itemId: string) => void;
 }
 
-const CategoryCard: React.FC<CategoryCardProps> = ({ category, goals, onAddGoal, onUpdateGoal, onDeleteGoal }) => {
+const CategoryCard: React.FC<CategoryCardProps> = ({
+  category,
+  goals,
+  onAddGoal,
+  onUpdateGoal,
+  onEditGoal,
+  onDeleteGoal,
+  onCheckOffHabit,
+  onAddActionItem,
+  onUpdateActionItem,
+  onDeleteActionItem
+}) => {
+  const [historyGoalId, setHistoryGoalId] = useState<string | null>(null);
+  const [actionItemsGoalId, setActionItemsGoalId] = useState<string | null>(null);
 
   const getIcon = () => {
     switch (category) {
@@ -91,9 +111,28 @@ const CategoryCard: React.FC<CategoryCardProps> = ({ category, goals, onAddGoal,
     if (goal.type === 'numeric' && goal.targetValue && goal.currentValue !== undefined) {
       return `${goal.currentValue}/${goal.targetValue} ${goal.unit || ''}`;
     }
+    if (goal.type === 'habit' && goal.targetValue) {
+      return `${goal.currentValue || 0}/${goal.targetValue} check-offs`;
+    }
     return `${goal.progress}%`;
   };
 
+  const formatMinutes = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+  };
+
+  const formatFrequency = (stats: HabitStats) => {
+    switch (stats.period) {
+      case 'weekdays':
+        return 'every weekday';
+      case 'weekly':
+        return `${stats.completedThisWeek}/${stats.timesPerWeek} this week`;
+      default:
+        return 'daily';
+    }
+  };
+
   return (
     <div className={`border-2 rounded-xl p-6 ${getCategoryColor()}`}>
       <div className="flex items-center justify-between mb-4">
@@ -148,8 +187,28 @@ const CategoryCard: React.FC<CategoryCardProps> = ({ category, goals, onAddGoal,
                     {goal.priority}
                   </span>
                   <button
-                    onClick={() => {/* TODO: Implement goal editing */}}
+                    onClick={() => setActionItemsGoalId(actionItemsGoalId === goal.id ? null : goal.id)}
+                    className={`flex items-center text-xs ${actionItemsGoalId === goal.id ? 'text-indigo-600' : 'text-gray-400 hover:text-gray-600'}`}
+                    title="Action items"
+                  >
+                    <ListChecks className="w-4 h-4" />
+                    {goal.actionItems && goal.actionItems.length > 0 && (
+                      <span className="ml-1">
+                        {goal.actionItems.filter(item => item.completed).length}/{goal.actionItems.length}
+                      </span>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => setHistoryGoalId(historyGoalId === goal.id ? null : goal.id)}
+                    className={historyGoalId === goal.id ? 'text-indigo-600' : 'text-gray-400 hover:text-gray-600'}
+                    title="Progress history"
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onEditGoal(goal)}
                     className="text-gray-400 hover:text-gray-600"
+                    title="Edit goal"
                   >
                     <Edit className="w-4 h-4" />
                   </button>
@@ -171,6 +230,9 @@ const CategoryCard: React.FC<CategoryCardProps> = ({ category, goals, onAddGoal,
                     </div>
                   )}
                   <span className="capitalize">{goal.type} Goal</span>
+                  {goal.type === 'milestone' && !!goal.minutesInvested && (
+                    <span className="ml-3">{formatMinutes(goal.minutesInvested)} invested</span>
+                  )}
                 </div>
                 <span className="text-sm font-medium text-gray-700">
                   {formatProgress(goal)}
@@ -187,6 +249,45 @@ const CategoryCard: React.FC<CategoryCardProps> = ({ category, goals, onAddGoal,
                   </div>
                 </div>
               )}
+
+              {goal.type === 'habit' && (
+                <div className="mt-2 flex items-center justify-between">
+                  {goal.habitStats ? (
+                    <div className="flex items-center text-xs text-gray-600">
+                      <Flame className="w-3 h-3 mr-1 text-orange-500" />
+                      <span>
+                        {goal.habitStats.currentStreak} {goal.habitStats.streakUnit} streak
+                        {' • '}best {goal.habitStats.longestStreak}
+                        {' • '}{goal.habitStats.completionRate}%
+                        {' • '}{formatFrequency(goal.habitStats)}
+                      </span>
+                    </div>
+                  ) : (
+                    <span className="text-xs text-gray-500">No check-offs yet</span>
+                  )}
+                  <button
+                    onClick={() => onCheckOffHabit(goal.id, !goal.habitStats?.completedToday)}
+                    className={`text-xs px-2 py-1 rounded-lg border transition-colors ${
+                      goal.habitStats?.completedToday
+                        ? 'bg-green-100 border-green-300 text-green-800'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {goal.habitStats?.completedToday ? 'Done today' : 'Check off today'}
+                  </button>
+                </div>
+              )}
+
+              {actionItemsGoalId === goal.id && (
+                <ActionItemList
+                  items={goal.actionItems || []}
+                  onAdd={(title) => onAddActionItem(goal.id, title)}
+                  onUpdate={(itemId, updates) => onUpdateActionItem(goal.id, itemId, updates)}
+                  onDelete={(itemId) => onDeleteActionItem(goal.id, itemId)}
+                />
+              )}
+
+              {historyGoalId === goal.id && <ProgressTimeline goal={goal} />}
             </div>
           ))
         )}
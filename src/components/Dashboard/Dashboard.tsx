@@ -1,52 +1,74 @@
-import React, { useState, useEffect } from 'react';
-import { UserProfile, Goal } from '../../types';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Goal, ActionItem } from '../../types';
 import CategoryCard from './CategoryCard';
 import DailySchedule from '../Schedule/DailySchedule';
+import WeekView from '../Schedule/WeekView';
 import CheckInModal from '../CheckIn/CheckInModal';
+import CheckInHistory from '../CheckIn/CheckInHistory';
+import CheckInSettings from '../CheckIn/CheckInSettings';
 import GoalModal from '../Goals/GoalModal';
 import UserProfileComponent from '../UserProfile/UserProfile';
-import { Calendar, Target, BarChart3, Clock } from 'lucide-react';
+import {
+  getGoals,
+  createGoal,
+  updateGoal,
+  deleteGoal,
+  migrateLocalGoals,
+  checkOffHabit,
+  addActionItem,
+  updateActionItem,
+  deleteActionItem
+} from '../../services/goalService';
+import { toDateKey } from '../../utils/dates';
+import { useCheckInCadence } from '../../hooks/useCheckInCadence';
+import { useProfile } from '../../hooks/useProfile';
+import { Calendar, Target, BarChart3, Clock, X, AlertCircle, History } from 'lucide-react';
 
-interface DashboardProps {
-  userProfile: UserProfile;
-}
-
-const Dashboard: React.FC<DashboardProps> = ({ userProfile }) => {
+const Dashboard: React.FC = () => {
   const [goals, setGoals] = useState<Goal[]>([]);
   const [showSchedule, setShowSchedule] = useState(false);
   const [showCheckIn, setShowCheckIn] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // Bumped after each saved check-in so an open history reloads
+  const [checkInsSaved, setCheckInsSaved] = useState(0);
   const [showGoalModal, setShowGoalModal] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<'physical' | 'mental' | 'financial' | 'social'>('physical');
-  const [lastCheckIn, setLastCheckIn] = useState<Date | null>(null);
+  const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
+  const [undoGoal, setUndoGoal] = useState<Goal | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const { profile, update: updateProfile } = useProfile();
+  const { status: checkInStatus, due, snooze, updateSettings, checkedIn } = useCheckInCadence();
+  // Due prompts only open by themselves while the user wants reminders
+  const notifications = profile?.preferences.notifications;
+  const checkInDue = due && Boolean(notifications?.enabled && notifications.checkInReminders);
 
   useEffect(() => {
-    const savedGoals = localStorage.getItem('userGoals');
-    if (savedGoals) {
-      const parsedGoals = JSON.parse(savedGoals);
-      // Convert date strings back to Date objects
-      const goalsWithDates = parsedGoals.map((goal: any) => ({
-        ...goal,
-        createdAt: new Date(goal.createdAt),
-        ...(goal.dueDate && { dueDate: new Date(goal.dueDate) })
-      }));
-      setGoals(goalsWithDates);
+    if (!undoGoal) return;
+    const timeout = setTimeout(() => setUndoGoal(null), 8000);
+    return () => clearTimeout(timeout);
+  }, [undoGoal]);
+
+  const loadGoals = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      await migrateLocalGoals();
+      setGoals(await getGoals());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load goals');
+    } finally {
+      setLoading(false);
     }
   }, []);
 
   useEffect(() => {
-    const checkInInterval = setInterval(() => {
-      const now = new Date();
-      if (!lastCheckIn || (now.getTime() - lastCheckIn.getTime()) > 30 * 60 * 1000) {
-        setShowCheckIn(true);
-      }
-    }, 60000);
+    loadGoals();
+  }, [loadGoals]);
 
-    return () => clearInterval(checkInInterval);
-  }, [lastCheckIn]);
-
-  const saveGoals = (updatedGoals: Goal[]) => {
-    setGoals(updatedGoals);
-    localStorage.setItem('userGoals', JSON.stringify(updatedGoals));
+  const replaceGoal = (goalId: string, updatedGoal: Goal) => {
+    setGoals(prev => prev.map(goal => goal.id === goalId ? updatedGoal : goal));
   };
 
   const handleAddGoal = (category: 'physical' | 'mental' | 'financial' | 'social') => {
@@ -54,27 +76,98 @@ const Dashboard: React.FC<DashboardProps> = ({ userProfile }) => {
     setShowGoalModal(true);
   };
 
-  const handleSaveGoal = (goalData: Omit<Goal, 'id' | 'createdAt'>) => {
-    const newGoal: Goal = {
-      ...goalData,
-      id: Date.now().toString(),
-      createdAt: new Date()
-    };
-    
-    const updatedGoals = [...goals, newGoal];
-    saveGoals(updatedGoals);
+  const handleEditGoal = (goal: Goal) => {
+    setSelectedCategory(goal.category);
+    setEditingGoal(goal);
+    setShowGoalModal(true);
+  };
+
+  const handleCloseGoalModal = () => {
+    setShowGoalModal(false);
+    setEditingGoal(null);
   };
 
-  const handleUpdateGoal = (goalId: string, updates: Partial<Goal>) => {
-    const updatedGoals = goals.map(goal =>
-      goal.id === goalId ? { ...goal, ...updates } : goal
-    );
-    saveGoals(updatedGoals);
+  const handleSaveGoal = async (goalData: Omit<Goal, 'id' | 'createdAt'>) => {
+    if (editingGoal) {
+      const previous = editingGoal;
+      if (await handleUpdateGoal(previous.id, goalData)) {
+        setUndoGoal(previous);
+      }
+      return;
+    }
+
+    try {
+      const newGoal = await createGoal(goalData);
+      setGoals(prev => [newGoal, ...prev]);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create goal');
+    }
+  };
+
+  const handleUpdateGoal = async (goalId: string, updates: Partial<Goal>) => {
+    try {
+      replaceGoal(goalId, await updateGoal(goalId, updates));
+      return true;
+    } catch (err: any) {
+      setError(err.message || 'Failed to update goal');
+      return false;
+    }
   };
 
-  const handleDeleteGoal = (goalId: string) => {
-    const updatedGoals = goals.filter(goal => goal.id !== goalId);
-    saveGoals(updatedGoals);
+  const handleUndoEdit = () => {
+    if (!undoGoal) return;
+    // Optional fields the edit added are cleared again
+    handleUpdateGoal(undoGoal.id, {
+      targetValue: undefined,
+      currentValue: undefined,
+      unit: undefined,
+      scheduleIncrement: undefined,
+      frequency: undefined,
+      dueDate: undefined,
+      ...undoGoal,
+    });
+    setUndoGoal(null);
+  };
+
+  const handleDeleteGoal = async (goalId: string) => {
+    try {
+      await deleteGoal(goalId);
+      setGoals(prev => prev.filter(goal => goal.id !== goalId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete goal');
+    }
+  };
+
+  const handleCheckOffHabit = async (goalId: string, done: boolean) => {
+    try {
+      replaceGoal(goalId, await checkOffHabit(goalId, toDateKey(), done));
+    } catch (error) {
+      console.error('Error checking off habit:', error);
+    }
+  };
+
+  const handleAddActionItem = async (goalId: string, title: string) => {
+    try {
+      replaceGoal(goalId, await addActionItem(goalId, { title }));
+    } catch (error) {
+      console.error('Error adding action item:', error);
+    }
+  };
+
+  const handleUpdateActionItem = async (goalId: string, itemId: string, updates: Partial<ActionItem>) => {
+    try {
+      replaceGoal(goalId, await updateActionItem(goalId, itemId, updates));
+    } catch (error) {
+      console.error('Error updating action item:', error);
+    }
+  };
+
+  const handleDeleteActionItem = async (goalId: string, itemId: string) => {
+    try {
+      replaceGoal(goalId, await deleteActionItem(goalId, itemId));
+    } catch (error) {
+      console.error('Error deleting action item:', error);
+    }
   };
 
   const getGoalsByCategory = (category: 'physical' | 'mental' | 'financial' | 'social') => {
@@ -82,9 +175,28 @@ const Dashboard: React.FC<DashboardProps> = ({ userProfile }) => {
   };
 
 
-  const handleCheckInComplete = () => {
+  // Skipping a prompt that came up on its own waits one interval
+  const handleCheckInClose = () => {
+    setShowCheckIn(false);
+    if (checkInDue && checkInStatus) {
+      handleSnooze(checkInStatus.checkInFrequency);
+    }
+  };
+
+  const handleSnooze = async (minutes: number) => {
+    setShowCheckIn(false);
+    try {
+      await snooze(minutes);
+    } catch (err: any) {
+      setError(err.message || 'Failed to snooze check-ins');
+    }
+  };
+
+  const handleCheckInSaved = (updatedGoals: Goal[]) => {
     setShowCheckIn(false);
-    setLastCheckIn(new Date());
+    updatedGoals.forEach(goal => replaceGoal(goal.id, goal));
+    setCheckInsSaved(count => count + 1);
+    checkedIn().catch(err => console.error('Error refreshing check-in status:', err));
   };
 
   return (
@@ -102,7 +214,7 @@ const Dashboard: React.FC<DashboardProps> = ({ userProfile }) => {
                 className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
               >
                 <Calendar className="w-5 h-5 mr-2" />
-                {showSchedule ? 'Hide Schedule' : 'View Schedule'}
+                {showSchedule ? 'Hide Week' : 'View Week'}
               </button>
               <button
                 onClick={() => setShowCheckIn(true)}
@@ -111,13 +223,37 @@ const Dashboard: React.FC<DashboardProps> = ({ userProfile }) => {
                 <Clock className="w-5 h-5 mr-2" />
                 Check In
               </button>
-              <UserProfileComponent />
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <History className="w-5 h-5 mr-2" />
+                {showHistory ? 'Hide History' : 'History'}
+              </button>
+              <UserProfileComponent profile={profile} onUpdate={updateProfile} />
             </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 flex items-center justify-between bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            <div className="flex items-center">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              <span>{error}</span>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button onClick={loadGoals} className="text-sm font-medium hover:text-red-900">
+                Retry
+              </button>
+              <button onClick={() => setError('')} className="text-red-400 hover:text-red-600">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="mb-8">
           <h2 className="text-xl font-semibold text-gray-800 mb-2">Your Progress Overview</h2>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -160,45 +296,83 @@ const Dashboard: React.FC<DashboardProps> = ({ userProfile }) => {
 
         {showSchedule && (
           <div className="mb-8">
-            <div className="bg-white rounded-xl shadow-lg p-6">
-              <h3 className="text-xl font-bold text-gray-800 mb-4">Schedule View</h3>
-              <p className="text-gray-600">Schedule generation is being updated to work with the new goal system.</p>
-            </div>
+            <WeekView />
+          </div>
+        )}
+
+        {showHistory && (
+          <div className="mb-8">
+            <CheckInSettings status={checkInStatus} onChange={updateSettings} />
+            <CheckInHistory key={checkInsSaved} />
           </div>
         )}
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6">
-            {(['physical', 'mental', 'financial', 'social'] as const).map(category => (
+            {loading ? (
+              <div className="md:col-span-2 bg-white rounded-xl shadow-sm p-8 text-center text-gray-500">
+                Loading your goals...
+              </div>
+            ) : (['physical', 'mental', 'financial', 'social'] as const).map(category => (
               <CategoryCard
                 key={category}
                 category={category}
                 goals={getGoalsByCategory(category)}
                 onAddGoal={handleAddGoal}
                 onUpdateGoal={handleUpdateGoal}
+                onEditGoal={handleEditGoal}
                 onDeleteGoal={handleDeleteGoal}
+                onCheckOffHabit={handleCheckOffHabit}
+                onAddActionItem={handleAddActionItem}
+                onUpdateActionItem={handleUpdateActionItem}
+                onDeleteActionItem={handleDeleteActionItem}
               />
             ))}
           </div>
           <div className="lg:col-span-1">
-            <DailySchedule goals={goals} />
+            <DailySchedule
+              goals={goals}
+              preferences={profile?.preferences ?? null}
+              onSavePreferences={(bounds) => updateProfile({ preferences: bounds })}
+            />
           </div>
         </div>
       </main>
 
-      {showCheckIn && (
+      {(showCheckIn || checkInDue) && (
         <CheckInModal
           goals={goals}
-          onClose={handleCheckInComplete}
+          onClose={handleCheckInClose}
+          onSaved={(checkIn, updatedGoals) => handleCheckInSaved(updatedGoals)}
+          onSnooze={handleSnooze}
         />
       )}
 
       <GoalModal
         isOpen={showGoalModal}
-        onClose={() => setShowGoalModal(false)}
+        onClose={handleCloseGoalModal}
         onSave={handleSaveGoal}
         category={selectedCategory}
+        goal={editingGoal}
       />
+
+      {undoGoal && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center bg-gray-900 text-white text-sm px-4 py-3 rounded-lg shadow-lg">
+          <span>Updated "{undoGoal.title}"</span>
+          <button
+            onClick={handleUndoEdit}
+            className="ml-4 font-semibold text-indigo-300 hover:text-indigo-200"
+          >
+            Undo
+          </button>
+          <button
+            onClick={() => setUndoGoal(null)}
+            className="ml-3 text-gray-400 hover:text-gray-200"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ActionItem } from '../../types';
+import { Check, Circle, Plus, X } from 'lucide-react';
+
+interface ActionItemListProps {
+  items: ActionItem[];
+  onAdd: (title: string) => void;
+  onUpdate: (itemId: string, updates: Partial<ActionItem>) => void;
+  onDelete: (itemId: string) => void;
+}
+
+const ActionItemList: React.FC<ActionItemListProps> = ({ items, onAdd, onUpdate, onDelete }) => {
+  const [newTitle, setNewTitle] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+
+    onAdd(newTitle.trim());
+    setNewTitle('');
+  };
+
+  const startEditing = (item: ActionItem) => {
+    setEditingId(item.id);
+    setEditingTitle(item.title);
+  };
+
+  const saveEditing = () => {
+    const item = items.find(i => i.id === editingId);
+    if (item && editingTitle.trim() && editingTitle.trim() !== item.title) {
+      onUpdate(item.id, { title: editingTitle.trim() });
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mt-3 space-y-1">
+      {items.map(item => (
+        <div key={item.id} className="flex items-center group">
+          <button
+            onClick={() => onUpdate(item.id, { completed: !item.completed })}
+            className="mr-2"
+          >
+            {item.completed ? (
+              <Check className="w-4 h-4 text-green-600" />
+            ) : (
+              <Circle className="w-4 h-4 text-gray-400" />
+            )}
+          </button>
+          {editingId === item.id ? (
+            <input
+              type="text"
+              value={editingTitle}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onBlur={saveEditing}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveEditing();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              className="flex-1 text-xs px-1 py-0.5 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-indigo-500"
+              autoFocus
+            />
+          ) : (
+            <span
+              onClick={() => startEditing(item)}
+              className={`flex-1 text-xs cursor-text ${item.completed ? 'line-through text-gray-400' : 'text-gray-700'}`}
+            >
+              {item.title}
+            </span>
+          )}
+          <button
+            onClick={() => onDelete(item.id)}
+            className="ml-2 text-gray-300 hover:text-red-600 opacity-0 group-hover:opacity-100"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      <form onSubmit={handleAdd} className="flex items-center pt-1">
+        <Plus className="w-4 h-4 mr-2 text-gray-400" />
+        <input
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          className="flex-1 text-xs px-1 py-0.5 border-b border-gray-200 focus:outline-none focus:border-indigo-500"
+          placeholder="Add an action item"
+        />
+      </form>
+    </div>
+  );
+};
+
+export default ActionItemList;
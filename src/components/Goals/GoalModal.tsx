@@ -1,5 +1,6 @@
-import React, { useState } from 'react';
-import { Goal } from '../../types';
+import React, { useState, useEffect } from 'react';
+import { Goal, HabitFrequency } from '../../types';
+import { toDateKey } from '../../utils/dates';
 import { X } from 'lucide-react';
 
 interface GoalModalProps {
@@ -7,9 +8,14 @@ interface GoalModalProps {
   onClose: () => void;
   onSave: (goal: Omit<Goal, 'id' | 'createdAt'>) => void;
   category: 'physical' | 'mental' | 'financial' | 'social';
+  // When given, the modal edits this goal instead of creating a new one
+  goal?: Goal | null;
 }
 
-const GoalModal: React.FC<GoalModalProps> = ({ isOpen, onClose, onSave, category }) => {
+const percentOf = (value: number, target?: number) =>
+  target ? Math.min(100, Math.round((value / target) * 100)) : 0;
+
+const GoalModal: React.FC<GoalModalProps> = ({ isOpen, onClose, onSave, category, goal }) => {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [type, setType] = useState<'milestone' | 'numeric' | 'habit'>('milestone');
@@ -17,13 +23,77 @@ const GoalModal: React.FC<GoalModalProps> = ({ isOpen, onClose, onSave, category
   const [targetValue, setTargetValue] = useState<number | undefined>();
   const [currentValue, setCurrentValue] = useState<number | undefined>();
   const [unit, setUnit] = useState('');
+  const [scheduleIncrement, setScheduleIncrement] = useState(1);
   const [dueDate, setDueDate] = useState('');
+  const [frequencyPeriod, setFrequencyPeriod] = useState<HabitFrequency['period']>('daily');
+  const [timesPerWeek, setTimesPerWeek] = useState(3);
+
+  useEffect(() => {
+    if (!isOpen || !goal) return;
+    setTitle(goal.title);
+    setDescription(goal.description);
+    setType(goal.type);
+    setPriority(goal.priority);
+    setTargetValue(goal.targetValue);
+    setCurrentValue(goal.currentValue);
+    setUnit(goal.unit || '');
+    setScheduleIncrement(goal.scheduleIncrement ?? 1);
+    setDueDate(goal.dueDate ? toDateKey(new Date(goal.dueDate)) : '');
+    setFrequencyPeriod(goal.frequency?.period || 'daily');
+    setTimesPerWeek(goal.frequency?.timesPerWeek || 3);
+  }, [isOpen, goal]);
+
+  // Progress of numeric and habit goals follows from their values, so it is
+  // recomputed whenever the type or target changes. Milestones keep theirs.
+  const buildEditedGoal = (): Omit<Goal, 'id' | 'createdAt'> => {
+    const editing = goal!;
+    const typeChanged = type !== editing.type;
+    let progress = editing.progress;
+    let nextValue: number | undefined;
+
+    if (type === 'numeric') {
+      nextValue = currentValue || 0;
+      progress = percentOf(nextValue, targetValue);
+    } else if (type === 'habit') {
+      nextValue = typeChanged ? 0 : editing.currentValue || 0;
+      progress = percentOf(nextValue, targetValue);
+    } else if (typeChanged) {
+      progress = editing.completed ? 100 : editing.progress;
+    }
+
+    return {
+      ...editing,
+      title: title.trim(),
+      description: description.trim(),
+      type,
+      priority,
+      progress,
+      completed: progress >= 100,
+      targetValue: type === 'milestone' ? undefined : targetValue,
+      currentValue: nextValue,
+      unit: type === 'numeric' ? unit.trim() : undefined,
+      scheduleIncrement: type === 'numeric' ? scheduleIncrement : undefined,
+      frequency: type === 'habit'
+        ? { period: frequencyPeriod, ...(frequencyPeriod === 'weekly' && { timesPerWeek }) }
+        : undefined,
+      completions: type === 'habit' && !typeChanged ? editing.completions : [],
+      habitStats: type === 'habit' && !typeChanged ? editing.habitStats : undefined,
+      dueDate: dueDate ? new Date(dueDate) : undefined
+    };
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!title.trim()) return;
 
+    if (goal) {
+      onSave(buildEditedGoal());
+      resetForm();
+      onClose();
+      return;
+    }
+
     const goalData: Omit<Goal, 'id' | 'createdAt'> = {
       category,
       title: title.trim(),
@@ -35,7 +105,17 @@ const GoalModal: React.FC<GoalModalProps> = ({ isOpen, onClose, onSave, category
       ...(type === 'numeric' && {
         targetValue,
         currentValue: currentValue || 0,
-        unit: unit.trim()
+        unit: unit.trim(),
+        scheduleIncrement
+      }),
+      ...(type === 'habit' && {
+        targetValue,
+        currentValue: 0,
+        frequency: {
+          period: frequencyPeriod,
+          ...(frequencyPeriod === 'weekly' && { timesPerWeek })
+        },
+        completions: []
       }),
       ...(dueDate && { dueDate: new Date(dueDate) })
     };
@@ -53,7 +133,10 @@ const GoalModal: React.FC<GoalModalProps> = ({ isOpen, onClose, onSave, category
     setTargetValue(undefined);
     setCurrentValue(undefined);
     setUnit('');
+    setScheduleIncrement(1);
     setDueDate('');
+    setFrequencyPeriod('daily');
+    setTimesPerWeek(3);
   };
 
   const handleClose = () => {
@@ -81,7 +164,7 @@ const GoalModal: React.FC<GoalModalProps> = ({ isOpen, onClose, onSave, category
       <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-xl font-bold text-gray-800">
-            Add Goal - {getCategoryTitle()}
+            {goal ? 'Edit Goal' : 'Add Goal'} - {getCategoryTitle()}
           </h3>
           <button
             onClick={handleClose}
@@ -174,6 +257,67 @@ const GoalModal: React.FC<GoalModalProps> = ({ isOpen, onClose, onSave, category
                   placeholder="e.g., dollars, pounds, books"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Added per completed schedule block
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  value={scheduleIncrement}
+                  onChange={(e) => setScheduleIncrement(Math.max(Number(e.target.value) || 0, 0))}
+                  className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            </>
+          )}
+
+          {type === 'habit' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Frequency
+                  </label>
+                  <select
+                    value={frequencyPeriod}
+                    onChange={(e) => setFrequencyPeriod(e.target.value as HabitFrequency['period'])}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="daily">Every day</option>
+                    <option value="weekdays">Every weekday</option>
+                    <option value="weekly">Times per week</option>
+                  </select>
+                </div>
+                {frequencyPeriod === 'weekly' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Times per Week
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={7}
+                      value={timesPerWeek}
+                      onChange={(e) => setTimesPerWeek(Math.min(Math.max(Number(e.target.value) || 1, 1), 7))}
+                      className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Target Check-offs
+                </label>
+                <input
+                  type="number"
+                  value={targetValue || ''}
+                  onChange={(e) => setTargetValue(e.target.value ? Number(e.target.value) : undefined)}
+                  className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  placeholder="e.g., 30"
+                  required
+                />
+              </div>
             </>
           )}
 
@@ -216,7 +360,7 @@ const GoalModal: React.FC<GoalModalProps> = ({ isOpen, onClose, onSave, category
               type="submit"
               className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
             >
-              Create Goal
+              {goal ? 'Save Changes' : 'Create Goal'}
             </button>
           </div>
         </form>
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { Goal, ProgressEntry } from '../../types';
+import { getProgressHistory } from '../../services/goalService';
+
+interface ProgressTimelineProps {
+  goal: Goal;
+}
+
+const ProgressTimeline: React.FC<ProgressTimelineProps> = ({ goal }) => {
+  const [entries, setEntries] = useState<ProgressEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setLoading(true);
+    getProgressHistory(goal.id)
+      .then(history => {
+        if (!cancelled) setEntries(history);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [goal.id, goal.progress]);
+
+  const formatValue = (value: number) => {
+    if (goal.type === 'milestone') {
+      return `${value}%`;
+    }
+    return `${value} ${goal.unit || ''}`.trim();
+  };
+
+  const formatDelta = (delta: number) => {
+    const sign = delta > 0 ? '+' : '';
+    return goal.type === 'milestone' ? `${sign}${delta}%` : `${sign}${delta}`;
+  };
+
+  if (loading) {
+    return <p className="text-xs text-gray-500 py-2">Loading history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-xs text-red-500 py-2">{error}</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-xs text-gray-500 py-2">No progress recorded yet.</p>;
+  }
+
+  return (
+    <ol className="mt-3 border-l-2 border-gray-200 pl-3 space-y-2 max-h-48 overflow-y-auto">
+      {entries.map(entry => (
+        <li key={entry._id} className="text-xs">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-700">{formatValue(entry.value)}</span>
+            <span className={entry.delta >= 0 ? 'text-green-600' : 'text-red-600'}>
+              {formatDelta(entry.delta)}
+            </span>
+          </div>
+          <div className="text-gray-500">
+            {new Date(entry.timestamp).toLocaleString()}
+            {entry.source !== 'manual' && <span className="ml-2 capitalize">• {entry.source}</span>}
+          </div>
+          {entry.note && <p className="text-gray-600 italic">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ProgressTimeline;
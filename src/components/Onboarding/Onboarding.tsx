@@ -2,8 +2,11 @@ import React, { useState } from 'react';
 import { ChevronRight, Target, Trophy } from 'lucide-react';
 import { UserProfile } from '../../types';
 
+// What the user writes about themselves; saved to their profile
+export type ProfileText = Pick<UserProfile, 'goals' | 'achievements'>;
+
 interface OnboardingProps {
-  onComplete: (profile: UserProfile) => void;
+  onComplete: (profile: ProfileText) => void;
 }
 
 const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
@@ -19,8 +22,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
       console.log('Submitting form...');
       onComplete({
         goals,
-        achievements,
-        createdAt: new Date()
+        achievements
       });
     } else {
       console.log('Form validation failed');
@@ -1,16 +1,15 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
-import Onboarding from './Onboarding';
-import { UserProfile } from '../../types';
+import Onboarding, { ProfileText } from './Onboarding';
 
 interface OnboardingWrapperProps {
-  onComplete: (profile: UserProfile) => void;
+  onComplete: (profile: ProfileText) => void;
 }
 
 const OnboardingWrapper: React.FC<OnboardingWrapperProps> = ({ onComplete }) => {
   const navigate = useNavigate();
 
-  const handleComplete = (profile: UserProfile) => {
+  const handleComplete = (profile: ProfileText) => {
     console.log('OnboardingWrapper: Profile completed, navigating to dashboard');
     onComplete(profile);
     navigate('/dashboard');
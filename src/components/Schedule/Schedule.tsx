@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Goal, ScheduleBlock } from '../../types';
-import { generateSchedule } from '../../utils/scheduleGenerator';
+import { generateSchedule } from '@lifesync/scheduling';
+import { toDateKey } from '../../utils/dates';
 import { Clock, CheckCircle, Circle } from 'lucide-react';
 
 interface ScheduleProps {
@@ -12,8 +13,8 @@ const Schedule: React.FC<ScheduleProps> = ({ goals }) => {
   const [currentTime, setCurrentTime] = useState(new Date());
 
   useEffect(() => {
-    const generatedSchedule = generateSchedule(goals);
-    setSchedule(generatedSchedule);
+    const { blocks } = generateSchedule(goals, { date: toDateKey() });
+    setSchedule(blocks);
     
     const timer = setInterval(() => {
       setCurrentTime(new Date());
@@ -100,6 +101,9 @@ const Schedule: React.FC<ScheduleProps> = ({ goals }) => {
                           <p className="text-xs opacity-75">
                             {block.startTime} - {block.endTime}
                           </p>
+                          {block.reason && (
+                            <p className="text-xs opacity-75 mt-1">{block.reason}</p>
+                          )}
                         </div>
                       </div>
                       {isCurrentBlock(block) && (
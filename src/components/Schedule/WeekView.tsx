@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ScheduleDay } from '../../types';
+import { getScheduleRange, getCalendarFeedUrl, resetCalendarFeed, importCalendar } from '../../services/scheduleService';
+import { addDays, startOfWeek, toDateKey } from '../../utils/dates';
+import { CalendarDays, ChevronLeft, ChevronRight, AlertCircle, Repeat, Link, Copy, Upload } from 'lucide-react';
+
+// Blocks listed per day before collapsing into "+N more"
+const VISIBLE_BLOCKS = 4;
+
+const formatHours = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+};
+
+const getCategoryDot = (category: string) => {
+  switch (category) {
+    case 'physical': return 'bg-red-400';
+    case 'mental': return 'bg-purple-400';
+    case 'financial': return 'bg-green-400';
+    case 'social': return 'bg-blue-400';
+    default: return 'bg-gray-400';
+  }
+};
+
+const WeekView: React.FC = () => {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek());
+  const [days, setDays] = useState<ScheduleDay[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [feedUrl, setFeedUrl] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [importMessage, setImportMessage] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadWeek = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setDays(await getScheduleRange(toDateKey(weekStart), toDateKey(addDays(weekStart, 6))));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the week');
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    loadWeek();
+  }, [loadWeek]);
+
+  const handleFeed = async (reset = false) => {
+    if (reset && !window.confirm('Calendars subscribed to the current link will stop updating. Continue?')) {
+      return;
+    }
+    try {
+      setFeedUrl(await (reset ? resetCalendarFeed() : getCalendarFeedUrl()));
+      setCopied(false);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the calendar link');
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await importCalendar(await file.text());
+      const skipped = result.skipped.length > 0 ? ` (${result.skipped.length} all-day, free or cancelled events skipped)` : '';
+      setImportMessage(`Imported ${result.imported} busy blocks from ${file.name}${skipped}. New plans will work around them.`);
+      loadWeek();
+    } catch (err: any) {
+      setError(err.message || 'Failed to import the calendar');
+    }
+  };
+
+  const today = toDateKey();
+  const totals = days.reduce(
+    (sum, day) => ({
+      total: sum.total + day.summary.total,
+      completed: sum.completed + day.summary.completed,
+      plannedMinutes: sum.plannedMinutes + day.summary.plannedMinutes,
+    }),
+    { total: 0, completed: 0, plannedMinutes: 0 }
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-800 flex items-center">
+          <CalendarDays className="w-5 h-5 mr-2 text-indigo-600" />
+          Week of {weekStart.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}
+        </h3>
+        <div className="flex items-center space-x-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center px-3 py-1 text-sm rounded-lg text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+            title="Reserve busy time from another calendar"
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            Import .ics
+          </button>
+          <button
+            onClick={() => (feedUrl ? setFeedUrl('') : handleFeed())}
+            className="flex items-center px-3 py-1 text-sm rounded-lg text-indigo-700 bg-indigo-100 hover:bg-indigo-200"
+            title="Subscribe from your calendar app"
+          >
+            <Link className="w-4 h-4 mr-1" />
+            Calendar feed
+          </button>
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, -7))}
+            className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+            title="Previous week"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setWeekStart(startOfWeek())}
+            className="px-3 py-1 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            This week
+          </button>
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, 7))}
+            className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+            title="Next week"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {importMessage && (
+        <div className="mb-4 flex items-center justify-between p-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">
+          <span>{importMessage}</span>
+          <button onClick={() => setImportMessage('')} className="ml-3 font-medium hover:text-green-900">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {feedUrl && (
+        <div className="mb-4 p-3 rounded-lg bg-indigo-50 border border-indigo-200">
+          <p className="text-sm text-gray-700 mb-2">
+            Subscribe to this link in Google Calendar, Apple Calendar or Outlook to see your blocks and goal deadlines.
+            Keep it private: anyone with the link can see your schedule.
+          </p>
+          <div className="flex items-center space-x-2">
+            <input
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 p-2 text-sm border border-gray-300 rounded-lg bg-white"
+            />
+            <button
+              onClick={copyFeedUrl}
+              className="flex items-center px-3 py-2 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-700"
+            >
+              <Copy className="w-4 h-4 mr-1" />
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button
+              onClick={() => handleFeed(true)}
+              className="px-3 py-2 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              Reset link
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error ? (
+        <div className="flex items-center justify-between bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          <div className="flex items-center">
+            <AlertCircle className="w-5 h-5 mr-2" />
+            <span>{error}</span>
+          </div>
+          <button onClick={loadWeek} className="text-sm font-medium hover:text-red-900">
+            Retry
+          </button>
+        </div>
+      ) : loading ? (
+        <div className="py-8 text-center text-gray-500">Loading your week...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+            {days.map(day => {
+              const date = new Date(`${day.date}T00:00:00`);
+              const progress = day.summary.total > 0
+                ? Math.round((day.summary.completed / day.summary.total) * 100)
+                : 0;
+
+              return (
+                <div
+                  key={day.date}
+                  className={`p-3 rounded-lg border ${
+                    day.date === today ? 'border-indigo-400 bg-indigo-50' : 'border-gray-200 bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-baseline justify-between mb-2">
+                    <span className="text-sm font-semibold text-gray-800">
+                      {date.toLocaleDateString('en-US', { weekday: 'short' })}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </span>
+                  </div>
+
+                  <div className="text-xs text-gray-600 mb-1">
+                    {day.summary.completed}/{day.summary.total} done • {formatHours(day.summary.plannedMinutes)}
+                  </div>
+                  <div className="bg-gray-200 rounded-full h-1.5 mb-3">
+                    <div
+                      className="bg-indigo-600 h-1.5 rounded-full transition-all duration-300"
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+
+                  {day.blocks.length === 0 ? (
+                    <p className="text-xs text-gray-400">Nothing planned</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {day.blocks.slice(0, VISIBLE_BLOCKS).map(block => (
+                        <li key={block.id} className="flex items-center text-xs text-gray-700">
+                          <span className={`w-2 h-2 rounded-full mr-1.5 flex-shrink-0 ${getCategoryDot(block.category)}`} />
+                          <span className="text-gray-500 mr-1">{block.startTime}</span>
+                          <span className={`truncate ${block.completed ? 'line-through text-gray-400' : ''}`}>
+                            {block.title}
+                          </span>
+                          {block.recurring && <Repeat className="w-3 h-3 ml-1 text-gray-400 flex-shrink-0" />}
+                        </li>
+                      ))}
+                      {day.blocks.length > VISIBLE_BLOCKS && (
+                        <li className="text-xs text-gray-400">+{day.blocks.length - VISIBLE_BLOCKS} more</li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mt-4 text-sm text-gray-600">
+            {totals.completed} of {totals.total} blocks done this week • {formatHours(totals.plannedMinutes)} planned
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WeekView;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { UserProfile } from '../../types';
+import { ProfileUpdate } from '../../services/profileService';
+import { X } from 'lucide-react';
+
+interface ProfileSettingsProps {
+  profile: UserProfile;
+  onClose: () => void;
+  onSave: (changes: ProfileUpdate) => Promise<void>;
+}
+
+const ProfileSettings: React.FC<ProfileSettingsProps> = ({ profile, onClose, onSave }) => {
+  const [goals, setGoals] = useState(profile.goals);
+  const [achievements, setAchievements] = useState(profile.achievements);
+  const [checkInReminders, setCheckInReminders] = useState(profile.preferences.notifications.checkInReminders);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await onSave({ goals, achievements, preferences: { notifications: { checkInReminders } } });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl p-6 w-full max-w-lg mx-4">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-gray-800">Your Profile</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              What do you want to achieve?
+            </label>
+            <textarea
+              value={goals}
+              onChange={(e) => setGoals(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              What have you already achieved?
+            </label>
+            <textarea
+              value={achievements}
+              onChange={(e) => setAchievements(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={checkInReminders}
+              onChange={(e) => setCheckInReminders(e.target.checked)}
+              className="mr-2"
+            />
+            Prompt me when a check-in is due
+          </label>
+        </div>
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileSettings;
@@ -1,9 +1,19 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { User, LogOut } from 'lucide-react';
+import { User, LogOut, Settings, MonitorSmartphone } from 'lucide-react';
+import { UserProfile as Profile } from '../../types';
+import { ProfileUpdate } from '../../services/profileService';
+import { signOut, signOutEverywhere } from '../../services/authService';
+import ProfileSettings from './ProfileSettings';
 import './UserProfile.css';
 
-const UserProfile: React.FC = () => {
+interface UserProfileProps {
+  profile: Profile | null;
+  onUpdate: (changes: ProfileUpdate) => Promise<void>;
+}
+
+const UserProfile: React.FC<UserProfileProps> = ({ profile, onUpdate }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [user, setUser] = useState<any>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -27,10 +37,13 @@ const UserProfile: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleLogout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    window.location.href = '/auth';
+  const handleLogoutEverywhere = async () => {
+    if (!window.confirm('Sign out on all your devices, including this one?')) return;
+    try {
+      await signOutEverywhere();
+    } catch (error: any) {
+      window.alert(error.message || 'Failed to sign out everywhere');
+    }
   };
 
   const getInitial = () => {
@@ -67,13 +80,35 @@ const UserProfile: React.FC = () => {
           </div>
           
           <div className="profile-divider"></div>
-          
-          <button className="profile-logout" onClick={handleLogout}>
+
+          {profile && (
+            <button
+              className="profile-action"
+              onClick={() => {
+                setIsOpen(false);
+                setShowSettings(true);
+              }}
+            >
+              <Settings size={16} />
+              <span>Profile & preferences</span>
+            </button>
+          )}
+
+          <button className="profile-action" onClick={handleLogoutEverywhere}>
+            <MonitorSmartphone size={16} />
+            <span>Sign out everywhere</span>
+          </button>
+
+          <button className="profile-logout" onClick={signOut}>
             <LogOut size={16} />
             <span>Logout</span>
           </button>
         </div>
       )}
+
+      {showSettings && profile && (
+        <ProfileSettings profile={profile} onClose={() => setShowSettings(false)} onSave={onUpdate} />
+      )}
     </div>
   );
 };
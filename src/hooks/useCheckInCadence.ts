@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { isQuietTime, checkInDueAt } from '@lifesync/scheduling';
+import { CheckInSettings, CheckInStatus } from '../types';
+import { getCheckInStatus, updateCheckInSettings, snoozeCheckIns } from '../services/checkInService';
+import { toTimeOfDay } from '../utils/dates';
+
+// Tabs of the dashboard tell each other about check-ins, snoozes and settings
+const CHANNEL_NAME = 'lifesync-check-ins';
+const TICK_MS = 60 * 1000;
+
+/**
+ * Whether a check-in prompt is due, from the server-stored cadence. The
+ * status is reloaded when the window regains focus, so other devices'
+ * check-ins and snoozes are picked up, and shared with other open tabs.
+ */
+export const useCheckInCadence = () => {
+  const [status, setStatus] = useState<CheckInStatus | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const channel = useRef<BroadcastChannel | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStatus(await getCheckInStatus());
+    } catch (error) {
+      console.error('Error loading check-in status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    const handleFocus = () => {
+      setNow(Date.now());
+      refresh();
+    };
+    window.addEventListener('focus', handleFocus);
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      channel.current = new BroadcastChannel(CHANNEL_NAME);
+      channel.current.onmessage = (event: MessageEvent<CheckInStatus>) => setStatus(event.data);
+    }
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', handleFocus);
+      channel.current?.close();
+      channel.current = null;
+    };
+  }, [refresh]);
+
+  const publish = (next: CheckInStatus) => {
+    setStatus(next);
+    setNow(Date.now());
+    channel.current?.postMessage(next);
+  };
+
+  const snooze = async (minutes: number) => publish(await snoozeCheckIns(minutes));
+
+  const updateSettings = async (settings: Partial<CheckInSettings>) =>
+    publish(await updateCheckInSettings(settings));
+
+  // After a check-in was saved the next one counts from it. The prompt
+  // closes straight away, before the server's status arrives.
+  const checkedIn = async () => {
+    if (status) {
+      const lastCheckInAt = new Date().toISOString();
+      publish({
+        ...status,
+        lastCheckInAt,
+        snoozedUntil: null,
+        dueAt: new Date(checkInDueAt({ lastCheckInAt, checkInFrequency: status.checkInFrequency })).toISOString(),
+      });
+    }
+    publish(await getCheckInStatus());
+  };
+
+  const due = status !== null
+    && now >= new Date(status.dueAt).getTime()
+    && !isQuietTime(toTimeOfDay(new Date(now)), status.quietHours);
+
+  return { status, due, snooze, updateSettings, checkedIn };
+};
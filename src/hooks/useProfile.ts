@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { UserProfile } from '../types';
+import { getProfile, updateProfile, migrateLocalProfile, ProfileUpdate } from '../services/profileService';
+
+/**
+ * The signed-in user's profile and preferences. Settings saved before
+ * profiles were stored on the server are moved there on the first load.
+ */
+export const useProfile = () => {
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      await migrateLocalProfile();
+      setProfile(await getProfile());
+    } catch (error) {
+      console.error('Error loading profile:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Rejects with the server's message so forms can show it
+  const update = async (changes: ProfileUpdate) => {
+    setProfile(await updateProfile(changes));
+  };
+
+  return { profile, update };
+};
@@ -0,0 +1,100 @@
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000';
+
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const USER_KEY = 'user';
+
+// Requests that carry their own credentials are never retried after a refresh
+const SESSION_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/auth/forgot-password',
+  '/auth/reset-password',
+];
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export const storeSession = ({ token, refreshToken }: SessionTokens) => {
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+};
+
+export const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+// Forgets the session on this device and returns to sign-in
+export const endSession = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+  window.location.href = '/auth';
+};
+
+let refreshing: Promise<boolean> | null = null;
+
+// Trades the refresh token for new tokens; false once the session has ended.
+// Requests failing together share one refresh.
+const refreshSession = () => {
+  refreshing = refreshing || (async () => {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) {
+      return false;
+    }
+
+    const response = await fetch(`${API_URL}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken }),
+    });
+
+    if (response.ok) {
+      storeSession(await response.json());
+      return true;
+    }
+    // Another tab may have used the same refresh token a moment earlier
+    return response.status === 401 && getRefreshToken() !== refreshToken;
+  })().finally(() => {
+    refreshing = null;
+  });
+
+  return refreshing;
+};
+
+const send = (endpoint: string, options: RequestInit) => {
+  const token = localStorage.getItem(TOKEN_KEY);
+
+  return fetch(`${API_URL}/api${endpoint}`, {
+    ...options,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...options.headers,
+    },
+  });
+};
+
+export const apiRequest = async <T>(endpoint: string, options: RequestInit = {}): Promise<T> => {
+  let response = await send(endpoint, options);
+
+  // Access tokens are short-lived; an expired one is renewed and the
+  // request sent again
+  if (response.status === 401 && !SESSION_ENDPOINTS.includes(endpoint)) {
+    if (await refreshSession()) {
+      response = await send(endpoint, options);
+    } else {
+      endSession();
+    }
+  }
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Something went wrong');
+  }
+
+  return data;
+};
@@ -0,0 +1,61 @@
+import { apiRequest, endSession, getRefreshToken, SessionTokens, storeSession } from './api';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  createdAt: string;
+}
+
+interface AuthResponse extends SessionTokens {
+  message: string;
+  user: AuthUser;
+}
+
+export const signIn = async (mode: 'login' | 'register', email: string, password: string): Promise<AuthUser> => {
+  const data = await apiRequest<AuthResponse>(`/auth/${mode}`, {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+  storeSession(data);
+  localStorage.setItem('user', JSON.stringify(data.user));
+  return data.user;
+};
+
+// Revokes this device's session; offline it is only forgotten locally
+export const signOut = async (): Promise<void> => {
+  const refreshToken = getRefreshToken();
+  try {
+    if (refreshToken) {
+      await apiRequest('/auth/logout', { method: 'POST', body: JSON.stringify({ refreshToken }) });
+    }
+  } catch (error) {
+    console.error('Error revoking session:', error);
+  } finally {
+    endSession();
+  }
+};
+
+// Revokes the sessions of every device signed in to the account
+export const signOutEverywhere = async (): Promise<void> => {
+  await apiRequest('/auth/logout-all', { method: 'POST' });
+  endSession();
+};
+
+// Mails a reset link if an account uses this email; the reply is the same
+// either way
+export const requestPasswordReset = async (email: string): Promise<string> => {
+  const { message } = await apiRequest<{ message: string }>('/auth/forgot-password', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+  return message;
+};
+
+// Signs out every device, so the new password is needed to sign in again
+export const resetPassword = async (token: string, password: string): Promise<string> => {
+  const { message } = await apiRequest<{ message: string }>('/auth/reset-password', {
+    method: 'POST',
+    body: JSON.stringify({ token, password }),
+  });
+  return message;
+};
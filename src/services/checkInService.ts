@@ -0,0 +1,71 @@
+import { CheckIn, CheckInMood, CheckInSettings, CheckInStatus, Goal } from '../types';
+import { toDateKey } from '../utils/dates';
+import { apiRequest } from './api';
+import { ApiGoal, toGoal } from './goalService';
+
+export interface CheckInPage {
+  checkIns: CheckIn[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+export interface CheckInQuery {
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Goal amounts: added to numeric goals, percentage points for milestones.
+// Habits need no amount; they are checked off for the day.
+export interface GoalProgressInput {
+  goalId: string;
+  amount?: number;
+}
+
+// Saves the check-in and applies its goal progress in one request; nothing
+// is applied when any of the amounts is rejected
+export const createCheckIn = async (checkIn: {
+  mood: CheckInMood;
+  notes: string;
+  completedTasks: string[];
+  goalProgress: GoalProgressInput[];
+}): Promise<{ checkIn: CheckIn; goals: Goal[] }> => {
+  const data = await apiRequest<{ checkIn: CheckIn; goals: ApiGoal[] }>('/checkins', {
+    method: 'POST',
+    body: JSON.stringify({ ...checkIn, date: toDateKey() }),
+  });
+  return { checkIn: data.checkIn, goals: data.goals.map(toGoal) };
+};
+
+// Newest first; `from` and `to` are 'YYYY-MM-DD' days, both inclusive
+export const getCheckIns = async (query: CheckInQuery = {}): Promise<CheckInPage> => {
+  const params = new URLSearchParams(
+    Object.entries(query)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, String(value)])
+  );
+  return apiRequest<CheckInPage>(`/checkins?${params}`);
+};
+
+export const deleteCheckIn = async (checkInId: string): Promise<void> => {
+  await apiRequest(`/checkins/${checkInId}`, { method: 'DELETE' });
+};
+
+export const getCheckInStatus = async (): Promise<CheckInStatus> =>
+  apiRequest<CheckInStatus>('/checkins/status');
+
+export const updateCheckInSettings = async (settings: Partial<CheckInSettings>): Promise<CheckInStatus> =>
+  apiRequest<CheckInStatus>('/checkins/settings', {
+    method: 'PUT',
+    body: JSON.stringify(settings),
+  });
+
+// Holds prompts on every device for `minutes`; 0 ends the snooze
+export const snoozeCheckIns = async (minutes: number): Promise<CheckInStatus> =>
+  apiRequest<CheckInStatus>('/checkins/snooze', {
+    method: 'POST',
+    body: JSON.stringify({ minutes }),
+  });
@@ -0,0 +1,150 @@
+import { ActionItem, Goal, ProgressEntry } from '../types';
+import { toDateKey } from '../utils/dates';
+import { apiRequest } from './api';
+
+const LEGACY_GOALS_KEY = 'userGoals';
+
+export interface ApiActionItem extends Omit<ActionItem, 'completedAt' | 'dueDate'> {
+  completedAt?: string;
+  dueDate?: string;
+}
+
+// A goal as the API sends it: a Mongo document with dates as ISO strings
+export interface ApiGoal extends Omit<Goal, 'id' | 'createdAt' | 'dueDate' | 'actionItems'> {
+  _id: string;
+  userId: string;
+  clientId?: string;
+  createdAt: string;
+  updatedAt?: string;
+  completedAt?: string;
+  dueDate?: string;
+  actionItems?: ApiActionItem[];
+}
+
+const toActionItem = (item: ApiActionItem): ActionItem => ({
+  ...item,
+  completedAt: item.completedAt ? new Date(item.completedAt) : undefined,
+  dueDate: item.dueDate ? new Date(item.dueDate) : undefined,
+});
+
+// The API returns Mongo documents; the dashboard works with `id` and Date fields
+export const toGoal = ({ _id, userId, clientId, completedAt, updatedAt, ...goal }: ApiGoal): Goal => ({
+  ...goal,
+  id: _id,
+  createdAt: new Date(goal.createdAt),
+  dueDate: goal.dueDate ? new Date(goal.dueDate) : undefined,
+  actionItems: goal.actionItems && goal.actionItems.map(toActionItem),
+});
+
+// Strip fields that are owned by the server or have their own endpoints
+const toPayload = (goal: Partial<Goal>) => {
+  const { id, createdAt, habitStats, actionItems, completions, minutesInvested, ...payload } = goal as Partial<Goal> & { _id?: string };
+  delete payload._id;
+  return payload;
+};
+
+// JSON leaves out undefined, so fields cleared in an edit are sent as null,
+// which the server removes
+const withClearedFields = (payload: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(payload).map(([field, value]) => [field, value === undefined ? null : value]));
+
+export const getGoals = async (): Promise<Goal[]> => {
+  const data = await apiRequest<{ goals: ApiGoal[] }>(`/goals?today=${toDateKey()}`);
+  return data.goals.map(toGoal);
+};
+
+export const createGoal = async (goal: Omit<Goal, 'id' | 'createdAt'>): Promise<Goal> => {
+  const data = await apiRequest<{ goal: ApiGoal }>('/goals', {
+    method: 'POST',
+    body: JSON.stringify({ ...toPayload(goal), completions: goal.completions || [] }),
+  });
+  return toGoal(data.goal);
+};
+
+export const updateGoal = async (goalId: string, updates: Partial<Goal>): Promise<Goal> => {
+  const data = await apiRequest<{ goal: ApiGoal }>(`/goals/${goalId}?today=${toDateKey()}`, {
+    method: 'PUT',
+    body: JSON.stringify(withClearedFields(toPayload(updates))),
+  });
+  return toGoal(data.goal);
+};
+
+export const deleteGoal = async (goalId: string): Promise<void> => {
+  await apiRequest(`/goals/${goalId}`, { method: 'DELETE' });
+};
+
+/**
+ * Uploads goals saved by older versions of the dashboard, which kept them in
+ * localStorage only. Goals that fail to upload stay behind for the next try.
+ * Each goal is sent with a clientId from its local id, so a retry or a second
+ * tab returns the goal created the first time instead of a copy.
+ */
+export const migrateLocalGoals = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_GOALS_KEY);
+  if (!saved) return 0;
+
+  const remaining: Goal[] = [];
+  let migrated = 0;
+
+  for (const goal of JSON.parse(saved) as Goal[]) {
+    try {
+      await apiRequest('/goals', {
+        method: 'POST',
+        body: JSON.stringify({
+          ...toPayload(goal),
+          clientId: `legacy-${goal.id}`,
+          completions: goal.completions || [],
+          createdAt: goal.createdAt,
+        }),
+      });
+      migrated++;
+    } catch (error) {
+      console.error('Error migrating goal:', error);
+      remaining.push(goal);
+    }
+  }
+
+  if (remaining.length > 0) {
+    localStorage.setItem(LEGACY_GOALS_KEY, JSON.stringify(remaining));
+  } else {
+    localStorage.removeItem(LEGACY_GOALS_KEY);
+  }
+
+  return migrated;
+};
+
+export const getProgressHistory = async (goalId: string): Promise<ProgressEntry[]> => {
+  const data = await apiRequest<{ entries: ProgressEntry[] }>(`/goals/${goalId}/progress`);
+  return data.entries;
+};
+
+export const checkOffHabit = async (goalId: string, date: string, done: boolean): Promise<Goal> => {
+  const data = await apiRequest<{ goal: ApiGoal }>(`/goals/${goalId}/check-off?today=${toDateKey()}`, {
+    method: done ? 'POST' : 'DELETE',
+    body: JSON.stringify({ date }),
+  });
+  return toGoal(data.goal);
+};
+
+export const addActionItem = async (goalId: string, item: Pick<ActionItem, 'title'> & Partial<ActionItem>): Promise<Goal> => {
+  const data = await apiRequest<{ goal: ApiGoal }>(`/goals/${goalId}/action-items`, {
+    method: 'POST',
+    body: JSON.stringify(item),
+  });
+  return toGoal(data.goal);
+};
+
+export const updateActionItem = async (goalId: string, itemId: string, updates: Partial<ActionItem>): Promise<Goal> => {
+  const data = await apiRequest<{ goal: ApiGoal }>(`/goals/${goalId}/action-items/${itemId}`, {
+    method: 'PUT',
+    body: JSON.stringify(updates),
+  });
+  return toGoal(data.goal);
+};
+
+export const deleteActionItem = async (goalId: string, itemId: string): Promise<Goal> => {
+  const data = await apiRequest<{ goal: ApiGoal }>(`/goals/${goalId}/action-items/${itemId}`, {
+    method: 'DELETE',
+  });
+  return toGoal(data.goal);
+};
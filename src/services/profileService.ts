@@ -0,0 +1,53 @@
+import { NotificationSettings, QuietHours, UserPreferences, UserProfile } from '../types';
+import { apiRequest } from './api';
+
+// Older dashboards kept the day's bounds and a placeholder profile locally
+const LEGACY_WAKE_UP_KEY = 'scheduleWakeUpTime';
+const LEGACY_SLEEP_KEY = 'scheduleSleepTime';
+const LEGACY_PROFILE_KEY = 'userProfile';
+
+// Fields left out stay as they are, also inside the nested preferences
+export interface ProfileUpdate {
+  goals?: string;
+  achievements?: string;
+  preferences?: Partial<Omit<UserPreferences, 'quietHours' | 'notifications'>> & {
+    quietHours?: Partial<QuietHours>;
+    notifications?: Partial<NotificationSettings>;
+  };
+}
+
+// Created with default preferences on the first request
+export const getProfile = async (): Promise<UserProfile> => {
+  const data = await apiRequest<{ profile: UserProfile }>('/profile');
+  return data.profile;
+};
+
+export const updateProfile = async (changes: ProfileUpdate): Promise<UserProfile> => {
+  const data = await apiRequest<{ profile: UserProfile }>('/profile', {
+    method: 'PUT',
+    body: JSON.stringify(changes),
+  });
+  return data.profile;
+};
+
+/**
+ * Moves wake-up and sleep times saved by older versions of the schedule
+ * into the profile. The local profile only ever held the built-in example
+ * text, so it is dropped.
+ */
+export const migrateLocalProfile = async (): Promise<void> => {
+  localStorage.removeItem(LEGACY_PROFILE_KEY);
+
+  const wakeUpTime = localStorage.getItem(LEGACY_WAKE_UP_KEY);
+  const sleepTime = localStorage.getItem(LEGACY_SLEEP_KEY);
+  if (!wakeUpTime && !sleepTime) return;
+
+  await updateProfile({
+    preferences: {
+      ...(wakeUpTime && { wakeUpTime }),
+      ...(sleepTime && { sleepTime }),
+    },
+  });
+  localStorage.removeItem(LEGACY_WAKE_UP_KEY);
+  localStorage.removeItem(LEGACY_SLEEP_KEY);
+};
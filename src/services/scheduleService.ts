@@ -0,0 +1,33 @@
+import { ScheduleDay } from '../types';
+import { apiRequest } from './api';
+
+// Days from `from` to `to` ('YYYY-MM-DD', inclusive) with their blocks and summaries
+export const getScheduleRange = async (from: string, to: string): Promise<ScheduleDay[]> => {
+  const data = await apiRequest<{ days: ScheduleDay[] }>(`/schedule?from=${from}&to=${to}`);
+  return data.days;
+};
+
+// Secret URL calendar apps can subscribe to; created on first request
+export const getCalendarFeedUrl = async (): Promise<string> => {
+  const data = await apiRequest<{ url: string }>('/calendar/feed');
+  return data.url;
+};
+
+// Replaces the feed URL; subscriptions to the old one stop updating
+export const resetCalendarFeed = async (): Promise<string> => {
+  const data = await apiRequest<{ url: string }>('/calendar/feed', { method: 'POST' });
+  return data.url;
+};
+
+export interface CalendarImportResult {
+  imported: number;
+  dates: string[];
+  skipped: { uid: string; summary: string; reason: string }[];
+}
+
+// Stores the timed events of an .ics file as busy blocks that planning leaves free
+export const importCalendar = async (ics: string): Promise<CalendarImportResult> =>
+  apiRequest<CalendarImportResult>('/calendar/import', {
+    method: 'POST',
+    body: JSON.stringify({ ics, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone }),
+  });
@@ -1,3 +1,5 @@
+import type { CheckInSettings } from '@lifesync/scheduling';
+
 export interface Goal {
   id: string;
   category: 'physical' | 'mental' | 'financial' | 'social';
@@ -9,11 +11,35 @@ export interface Goal {
   targetValue?: number;
   currentValue?: number;
   unit?: string;
+  /** Numeric goals: added to currentValue for each completed schedule block */
+  scheduleIncrement?: number;
+  /** Milestones: minutes of completed schedule blocks */
+  minutesInvested?: number;
   dueDate?: Date;
+  frequency?: HabitFrequency;
+  completions?: string[];
+  habitStats?: HabitStats;
+  actionItems?: ActionItem[];
   completed: boolean;
   createdAt: Date;
 }
 
+export interface HabitFrequency {
+  period: 'daily' | 'weekdays' | 'weekly';
+  timesPerWeek?: number;
+}
+
+export interface HabitStats extends Required<HabitFrequency> {
+  currentStreak: number;
+  longestStreak: number;
+  completionRate: number;
+  streakUnit: 'days' | 'weeks';
+  completedToday: boolean;
+  completedThisWeek: number;
+  lastCompletedOn: string | null;
+  totalCompletions: number;
+}
+
 export interface CategoryGoals {
   category: 'physical' | 'mental' | 'financial' | 'social';
   goals: Goal[];
@@ -23,29 +49,82 @@ export interface ActionItem {
   id: string;
   title: string;
   completed: boolean;
+  completedAt?: Date;
   dueDate?: Date;
   priority: 'high' | 'medium' | 'low';
 }
 
-export interface ScheduleBlock {
-  id: string;
-  title: string;
-  category: 'physical' | 'mental' | 'financial' | 'social';
-  startTime: string;
-  endTime: string;
-  completed: boolean;
+export type { ScheduleBlock, ScheduleDay, CheckInSettings, QuietHours } from '@lifesync/scheduling';
+
+export interface NotificationSettings {
+  enabled: boolean;
+  checkInReminders: boolean;
+  goalDeadlines: boolean;
+  dailyProgress: boolean;
 }
 
+export interface UserPreferences extends CheckInSettings {
+  /** 'HH:mm' */
+  wakeUpTime: string;
+  /** 'HH:mm' */
+  sleepTime: string;
+  notifications: NotificationSettings;
+  theme: 'light' | 'dark' | 'system';
+}
+
+// Stored on the server and shared by all of the user's devices
 export interface UserProfile {
+  id: string;
   goals: string;
   achievements: string;
-  createdAt: Date;
+  preferences: UserPreferences;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CheckInMood = 'great' | 'good' | 'okay' | 'struggling';
+
+// A goal ticked in a check-in, as it was named at the time
+export interface CheckInGoal {
+  goalId: string;
+  title: string;
+  category?: string;
+}
+
+// Progress a check-in applied: a check-off for habits, an amount added to
+// numeric goals, percentage points for milestones
+export interface CheckInProgress {
+  goalId: string;
+  kind: 'check-off' | 'increment' | 'percent';
+  amount: number;
+  progress?: number;
 }
 
 export interface CheckIn {
-  id: string;
-  timestamp: Date;
-  mood: 'great' | 'good' | 'okay' | 'struggling';
+  _id: string;
+  date: string;
+  timestamp: string;
+  mood: CheckInMood;
   notes: string;
   completedTasks: string[];
-}
\ No newline at end of file
+  goals: CheckInGoal[];
+  goalProgress: CheckInProgress[];
+}
+
+// When the next check-in prompt is due; times are ISO strings
+export interface CheckInStatus extends CheckInSettings {
+  lastCheckInAt: string | null;
+  snoozedUntil: string | null;
+  dueAt: string;
+}
+
+export interface ProgressEntry {
+  _id: string;
+  goalId: string;
+  value: number;
+  delta: number;
+  progress?: number;
+  note: string;
+  source: 'manual' | 'edit' | 'check-off' | 'action-items' | 'schedule' | 'check-in';
+  timestamp: string;
+}
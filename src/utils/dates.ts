@@ -0,0 +1,23 @@
+// 'YYYY-MM-DD' key for a date in the user's local calendar
+export const toDateKey = (date: Date = new Date()): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Monday of the week `date` falls in
+export const startOfWeek = (date: Date = new Date()): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return addDays(result, -((result.getDay() + 6) % 7));
+};
+
+// 'HH:mm' on the user's clock
+export const toTimeOfDay = (date: Date = new Date()): string =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;